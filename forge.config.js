@@ -215,6 +215,22 @@ module.exports = {
                 js: './source/common/modules/preload/index.ts'
               }
             },
+            {
+              html: './static/index.htm',
+              js: './source/win-version-history/index.ts',
+              name: 'version_history',
+              preload: {
+                js: './source/common/modules/preload/index.ts'
+              }
+            },
+            {
+              html: './static/index.htm',
+              js: './source/win-merge-conflict/index.ts',
+              name: 'merge_conflict',
+              preload: {
+                js: './source/common/modules/preload/index.ts'
+              }
+            },
             {
               html: './static/index.htm',
               js: './source/win-paste-image/index.ts',
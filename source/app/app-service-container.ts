@@ -23,15 +23,19 @@ import CssProvider from '@providers/css'
 import DictionaryProvider from '@providers/dictionary'
 import DocumentManager from '@providers/documents'
 import FSAL from '@providers/fsal'
+import GitProvider from '@providers/git'
 import LinkProvider from '@providers/links'
 import LogProvider from '@providers/log'
 import MenuProvider from '@providers/menu'
 import NotificationProvider from '@providers/notifications'
 import ProviderContract from '@providers/provider-contract'
 import RecentDocumentsProvider from '@providers/recent-docs'
+import SmartFolderProvider from '@providers/smart-folders'
+import SnapshotProvider from '@providers/snapshots'
 import StatsProvider from '@providers/stats'
 import TagProvider from '@providers/tags'
 import TargetProvider from '@providers/targets'
+import TaskProvider from '@providers/tasks'
 import TrayProvider from '@providers/tray'
 import UpdateProvider from '@providers/updates'
 import WindowProvider from '@providers/windows'
@@ -45,14 +49,18 @@ export default class AppServiceContainer {
   private readonly _configProvider: ConfigProvider
   private readonly _cssProvider: CssProvider
   private readonly _dictionaryProvider: DictionaryProvider
+  private readonly _gitProvider: GitProvider
   private readonly _linkProvider: LinkProvider
   private readonly _logProvider: LogProvider
   private readonly _menuProvider: MenuProvider
   private readonly _notificationProvider: NotificationProvider
   private readonly _recentDocsProvider: RecentDocumentsProvider
+  private readonly _smartFolderProvider: SmartFolderProvider
+  private readonly _snapshotProvider: SnapshotProvider
   private readonly _statsProvider: StatsProvider
   private readonly _tagProvider: TagProvider
   private readonly _targetProvider: TargetProvider
+  private readonly _taskProvider: TaskProvider
   private readonly _trayProvider: TrayProvider
   private readonly _updateProvider: UpdateProvider
   private readonly _windowProvider: WindowProvider
@@ -76,10 +84,14 @@ export default class AppServiceContainer {
     this._targetProvider = new TargetProvider(this._logProvider)
     this._documentManager = new DocumentManager(this)
     this._fsal = new FSAL(this._logProvider, this._configProvider, this._documentManager)
-    this._tagProvider = new TagProvider(this._logProvider, this._fsal)
-    this._linkProvider = new LinkProvider(this._logProvider, this._fsal)
     this._windowProvider = new WindowProvider(this._logProvider, this._configProvider, this._documentManager)
     this._citeprocProvider = new CiteprocProvider(this._logProvider, this._configProvider, this._notificationProvider, this._windowProvider)
+    this._tagProvider = new TagProvider(this._logProvider, this._fsal)
+    this._linkProvider = new LinkProvider(this._logProvider, this._fsal, this._citeprocProvider)
+    this._smartFolderProvider = new SmartFolderProvider(this._logProvider, this._fsal)
+    this._taskProvider = new TaskProvider(this._logProvider, this._configProvider, this._fsal, this._notificationProvider)
+    this._gitProvider = new GitProvider(this._logProvider, this._configProvider, this._fsal, this._documentManager)
+    this._snapshotProvider = new SnapshotProvider(this._logProvider, this._configProvider, this._fsal, this._documentManager)
     this._trayProvider = new TrayProvider(this._logProvider, this._configProvider, this._windowProvider)
     this._menuProvider = new MenuProvider(this._logProvider, this._configProvider, this._recentDocsProvider, this._commandProvider, this._windowProvider, this._documentManager)
     this._updateProvider = new UpdateProvider(this._logProvider, this._configProvider, this._notificationProvider, this._commandProvider)
@@ -96,6 +108,10 @@ export default class AppServiceContainer {
     await this._informativeBoot(this._linkProvider, 'LinkProvider')
     await this._informativeBoot(this._tagProvider, 'TagProvider')
     await this._informativeBoot(this._targetProvider, 'TargetProvider')
+    await this._informativeBoot(this._smartFolderProvider, 'SmartFolderProvider')
+    await this._informativeBoot(this._taskProvider, 'TaskProvider')
+    await this._informativeBoot(this._gitProvider, 'GitProvider')
+    await this._informativeBoot(this._snapshotProvider, 'SnapshotProvider')
     await this._informativeBoot(this._cssProvider, 'CSSProvider')
     await this._informativeBoot(this._notificationProvider, 'NotificationProvider')
     await this._informativeBoot(this._statsProvider, 'StatsProvider')
@@ -160,6 +176,11 @@ export default class AppServiceContainer {
    */
   public get dictionary (): DictionaryProvider { return this._dictionaryProvider }
 
+  /**
+   * Returns the Git provider
+   */
+  public get git (): GitProvider { return this._gitProvider }
+
   /**
    * Returns the link provider
    */
@@ -185,6 +206,16 @@ export default class AppServiceContainer {
    */
   public get recentDocs (): RecentDocumentsProvider { return this._recentDocsProvider }
 
+  /**
+   * Returns the smart folder provider
+   */
+  public get smartFolders (): SmartFolderProvider { return this._smartFolderProvider }
+
+  /**
+   * Returns the snapshot provider
+   */
+  public get snapshots (): SnapshotProvider { return this._snapshotProvider }
+
   /**
    * Returns the stats provider
    */
@@ -200,6 +231,11 @@ export default class AppServiceContainer {
    */
   public get targets (): TargetProvider { return this._targetProvider }
 
+  /**
+   * Returns the task provider
+   */
+  public get tasks (): TaskProvider { return this._taskProvider }
+
   /**
    * Returns the tray provider
    */
@@ -245,6 +281,10 @@ export default class AppServiceContainer {
     await this._safeShutdown(this._updateProvider, 'UpdateProvider')
     await this._safeShutdown(this._cssProvider, 'CSSProvider')
     await this._safeShutdown(this._targetProvider, 'TargetProvider')
+    await this._safeShutdown(this._smartFolderProvider, 'SmartFolderProvider')
+    await this._safeShutdown(this._taskProvider, 'TaskProvider')
+    await this._safeShutdown(this._gitProvider, 'GitProvider')
+    await this._safeShutdown(this._snapshotProvider, 'SnapshotProvider')
     await this._safeShutdown(this._linkProvider, 'LinkProvider')
     await this._safeShutdown(this._tagProvider, 'TagProvider')
     await this._safeShutdown(this._menuProvider, 'MenuProvider')
@@ -21,7 +21,7 @@ import broadcastIpcMessage from '@common/util/broadcast-ipc-message'
 import ProviderContract from '../provider-contract'
 import LogProvider from '../log'
 import { PandocProfileMetadata } from '@dts/common/assets'
-import { getCustomProfiles } from '@providers/commands/exporter'
+import { getCustomProfiles, loadUserPlugins } from '@providers/commands/exporter'
 import getPlainPandocReaderWriter from '@common/util/plain-pandoc-reader-writer'
 import { SUPPORTED_READERS } from '@common/util/pandoc-maps'
 
@@ -38,12 +38,24 @@ export default class AssetsProvider extends ProviderContract {
    * @var {string}
    */
   private readonly _snippetsPath: string
+  /**
+   * Holds the path where note templates can be found.
+   *
+   * @var {string}
+   */
+  private readonly _templatesPath: string
   /**
    * Holds the path where Lua filters can be found.
    *
    * @var {string}
    */
   private readonly _filterPath: string
+  /**
+   * Holds the path where user-provided exporter plugins can be found.
+   *
+   * @var {string}
+   */
+  private readonly _exporterPluginPath: string
   /**
    * Holds a list of all protected defaults files. Protected defaults files are
    * those that come by default with the app. Protected simply means here that
@@ -59,7 +71,9 @@ export default class AssetsProvider extends ProviderContract {
 
     this._defaultsPath = path.join(app.getPath('userData'), '/defaults')
     this._snippetsPath = path.join(app.getPath('userData'), '/snippets')
+    this._templatesPath = path.join(app.getPath('userData'), '/templates')
     this._filterPath = path.join(app.getPath('userData'), '/lua-filter')
+    this._exporterPluginPath = path.join(app.getPath('userData'), '/exporter-plugins')
     this._protectedDefaults = []
 
     ipcMain.handle('assets-provider', async (event, { command, payload }) => {
@@ -91,6 +105,16 @@ export default class AssetsProvider extends ProviderContract {
         return await this.listSnippets()
       } else if (command === 'rename-snippet') {
         return await this.renameSnippet(payload.name, payload.newName)
+      } else if (command === 'get-template') {
+        return await this.getTemplate(payload.name)
+      } else if (command === 'set-template') {
+        return await this.setTemplate(payload.name, payload.contents)
+      } else if (command === 'remove-template') {
+        return await this.removeTemplate(payload.name)
+      } else if (command === 'list-templates') {
+        return await this.listTemplates()
+      } else if (command === 'rename-template') {
+        return await this.renameTemplate(payload.name, payload.newName)
       }
     })
   }
@@ -133,6 +157,9 @@ export default class AssetsProvider extends ProviderContract {
         await fs.copyFile(path.join(__dirname, './assets/lua-filter', file), absolutePath)
       }
     }
+
+    // Lastly, load any exporter plugins the user has installed
+    await loadUserPlugins(this._exporterPluginPath, this._logger)
   }
 
   /**
@@ -394,4 +421,89 @@ export default class AssetsProvider extends ProviderContract {
     const snippetFiles = files.filter(file => /\.tpl\.md$/.test(file))
     return snippetFiles.map(file => file.replace(/\.tpl\.md$/, ''))
   }
+
+  /**
+   * Retrieves a note template with the given name. Throws an error if the file
+   * does not exist.
+   *
+   * @param   {string}           name  The template file name (sans extension)
+   *
+   * @return  {Promise<string>}        The file contents
+   */
+  async getTemplate (name: string): Promise<string> {
+    const filePath = path.join(this._templatesPath, name + '.tpl.md')
+    return await fs.readFile(filePath, { encoding: 'utf-8' })
+  }
+
+  /**
+   * Sets a note template with the given content. Overwrites existing files.
+   * Can be used to create new templates.
+   *
+   * @param   {string}            name     The template file name (sans extension)
+   * @param   {string}            content  The new contents of the file
+   *
+   * @return  {Promise<boolean>}           Returns false if there was an error
+   */
+  async setTemplate (name: string, content: string): Promise<boolean> {
+    try {
+      const filePath = path.join(this._templatesPath, name + '.tpl.md')
+      await fs.writeFile(filePath, content)
+      broadcastIpcMessage('assets-provider', 'templates-updated')
+      return true
+    } catch (err: any) {
+      this._logger.error(`[Assets Provider] Could not save template file: ${String(err.message)}`, err)
+      return false
+    }
+  }
+
+  /**
+   * Removes a note template from disk
+   *
+   * @param   {string}            name  The template file name (sans extension)
+   *
+   * @return  {Promise<boolean>}        Returns false if there was an error
+   */
+  async removeTemplate (name: string): Promise<boolean> {
+    try {
+      const filePath = path.join(this._templatesPath, name + '.tpl.md')
+      await fs.unlink(filePath)
+      broadcastIpcMessage('assets-provider', 'templates-updated')
+      return true
+    } catch (err: any) {
+      this._logger.error(`[Assets Provider] Could not remove template file: ${String(err.message)}`, err)
+      return false
+    }
+  }
+
+  /**
+   * Renames a note template
+   *
+   * @param   {string}            name     The old name
+   * @param   {string}            newName  The new template name
+   *
+   * @return  {Promise<boolean>}           Returns false if there was an error.
+   */
+  async renameTemplate (name: string, newName: string): Promise<boolean> {
+    try {
+      const oldPath = path.join(this._templatesPath, name + '.tpl.md')
+      const newPath = path.join(this._templatesPath, newName + '.tpl.md')
+      await fs.rename(oldPath, newPath)
+      broadcastIpcMessage('assets-provider', 'templates-updated')
+      return true
+    } catch (err: any) {
+      this._logger.error(`[Assets Provider] Could not rename template file: ${String(err.message)}`, err)
+      return false
+    }
+  }
+
+  /**
+   * Lists all note templates that are stored on this computer.
+   *
+   * @return  {Promise<string[]>}  The promise resolves with a list of existing templates.
+   */
+  async listTemplates (): Promise<string[]> {
+    const files = await fs.readdir(this._templatesPath)
+    const templateFiles = files.filter(file => /\.tpl\.md$/.test(file))
+    return templateFiles.map(file => file.replace(/\.tpl\.md$/, ''))
+  }
 }
@@ -206,6 +206,32 @@ export default class CiteprocProvider extends ProviderContract {
     })
   } // END constructor
 
+  /**
+   * Returns true if at least one citation library is currently loaded.
+   *
+   * @return  {boolean}  Whether there are any loaded libraries
+   */
+  public hasLoadedDatabases (): boolean {
+    return this.databases.size > 0
+  }
+
+  /**
+   * Checks whether any of the loaded libraries contains the given citekey.
+   *
+   * @param   {string}   citekey  The citekey to look up
+   *
+   * @return  {boolean}           True if the item exists
+   */
+  public hasCitekey (citekey: string): boolean {
+    for (const db of this.databases.values()) {
+      if (citekey in db.cslData) {
+        return true
+      }
+    }
+
+    return false
+  }
+
   public hasBibTexAttachments (dbPath: string): boolean {
     const db = this.databases.get(dbPath)
     if (db === undefined) {
@@ -0,0 +1,48 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        DeleteTag command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This command removes a tag, including all tags nested
+ *                  below it, from all files.
+ *
+ * END HEADER
+ */
+
+import { removeTag } from '@common/util/replace-tags'
+import { isTagOrDescendant } from '@common/util/tag-hierarchy'
+import { MDFileDescriptor } from '@dts/common/fsal'
+import ZettlrCommand from './zettlr-command'
+import { trans } from '@common/i18n-main'
+import rewriteTagsInFiles from './util/rewrite-tags'
+
+export default class DeleteTag extends ZettlrCommand {
+  constructor (app: any) {
+    super(app, 'delete-tag')
+  }
+
+  /**
+    * Removes a tag from all files
+    * @param {String} evt The event name
+    * @param  {Object} arg An object containing the tag to delete
+    */
+  async run (evt: string, arg: any): Promise<boolean> {
+    const tagName: string = arg.tag
+
+    const relevantFiles = this._app.fsal.getAllFiles()
+      .filter((d): d is MDFileDescriptor => d.type === 'file')
+      .filter(d => d.tags.some(tag => isTagOrDescendant(tag, tagName)))
+
+    return await rewriteTagsInFiles(
+      this._app,
+      relevantFiles,
+      trans('Remove tag "%s" from %s files?', tagName, relevantFiles.length),
+      `Removed tag "${tagName}"`,
+      content => removeTag(content, tagName)
+    )
+  }
+}
@@ -14,12 +14,15 @@
 
 import ZettlrCommand from './zettlr-command'
 import objectToArray from '@common/util/object-to-array'
-import { makeExport } from './exporter'
+import { enqueueExportJob, getCustomProfiles, makeExport } from './exporter'
 import { filter as minimatch } from 'minimatch'
 import { shell } from 'electron'
 import { ExporterOptions } from './exporter/types'
 import LogProvider from '@providers/log'
+import SmartFolderProvider from '@providers/smart-folders'
 import { trans } from '@common/i18n-main'
+import { CodeFileDescriptor, DirDescriptor, MDFileDescriptor } from '@dts/common/fsal'
+import AppServiceContainer from '../../app-service-container'
 
 export default class DirProjectExport extends ZettlrCommand {
   constructor (app: any) {
@@ -40,45 +43,127 @@ export default class DirProjectExport extends ZettlrCommand {
       return false
     }
 
-    const config = dir.settings.project
-
-    if (config === null) {
+    if (dir.settings.project === null) {
       this._app.log.error(`Could not export project: Directory ${dir.name} is not a project.`)
       return false
     }
 
+    const targetFiles = await exportProject(this._app, dir, true)
+
+    if (targetFiles === undefined) {
+      return false
+    }
+
+    const notificationShown = this._app.notifications.show(trans('Project successfully exported. Click to show.'), trans('Export'), () => {
+      openDirectory(this._app.log, dir.path)
+    })
+
+    if (!notificationShown) {
+      openDirectory(this._app.log, dir.path)
+    }
+
+    return true
+  }
+}
+
+/**
+ * Returns all files of the given project that match its filter patterns. If the
+ * project uses a smart folder as its file set, the files of the smart folder
+ * are used instead of the directory contents.
+ *
+ * @param   {DirDescriptor}        dir           The project directory
+ * @param   {SmartFolderProvider}  smartFolders  The smart folder provider
+ * @param   {LogProvider}          logger        Optional, logs the filtering
+ *
+ * @return  {Array}                              The files to export
+ */
+export function getProjectFiles (dir: DirDescriptor, smartFolders: SmartFolderProvider, logger?: LogProvider): Array<MDFileDescriptor|CodeFileDescriptor> {
+  if (dir.settings.project === null) {
+    return []
+  }
+
+  let files: Array<MDFileDescriptor|CodeFileDescriptor>
+  if (dir.settings.project.smartFolder !== '') {
+    logger?.info(`[Project] Using the files of smart folder "${dir.settings.project.smartFolder}"`)
+    files = smartFolders.getFiles(dir.settings.project.smartFolder)
+  } else {
     // Receive a two dimensional array of all directory contents and remove all
     // directories as well as any non-code/MD file
-    let files = objectToArray(dir, 'children').filter(e => e.type !== 'directory' && e.type !== 'other')
-
-    // Use minimatch to filter against the project's filter patterns
-    for (const pattern of config.filters) {
-      this._app.log.info(`[Project] Filtering fileset: Matching against "${pattern}"`)
-      // NOTE: minimatch is actually just the "filter" function
-      const match = minimatch(pattern, { matchBase: true })
-      // NOTE: Since we're dealing with descriptors, and not paths, we have to
-      // manually call the filter function providing the path-property rather
-      // than the full object.
-      files = files.filter((descriptor, index, arr) => match(descriptor.path, index, arr))
-    }
+    files = objectToArray(dir, 'children').filter(e => e.type !== 'directory' && e.type !== 'other')
+  }
 
-    if (files.length === 0) {
-      this._app.log.warning('[Project] Aborting export: No files remained after filtering.')
-      return false
+  // Use minimatch to filter against the project's filter patterns
+  for (const pattern of dir.settings.project.filters) {
+    logger?.info(`[Project] Filtering fileset: Matching against "${pattern}"`)
+    // NOTE: minimatch is actually just the "filter" function
+    const match = minimatch(pattern, { matchBase: true })
+    // NOTE: Since we're dealing with descriptors, and not paths, we have to
+    // manually call the filter function providing the path-property rather
+    // than the full object.
+    files = files.filter((descriptor, index, arr) => match(descriptor.path, index, arr))
+  }
+
+  return files
+}
+
+/**
+ * Exports the given project to all of its profiles within one export job. If
+ * the export is interactive, errors are shown to the user; otherwise (e.g.,
+ * during live exports) they are only logged.
+ *
+ * @param   {AppServiceContainer}          app          The service container
+ * @param   {DirDescriptor}                dir          The project directory
+ * @param   {boolean}                      interactive  Whether to show errors
+ *
+ * @return  {Promise<string[]|undefined>}               The exported files, or
+ *                                                      undefined if the export
+ *                                                      has been aborted.
+ */
+export async function exportProject (app: AppServiceContainer, dir: DirDescriptor, interactive: boolean): Promise<string[]|undefined> {
+  const config = dir.settings.project
+  if (config === null) {
+    return undefined
+  }
+
+  // The smart folder may have been renamed or removed since it was selected
+  if (config.smartFolder !== '' && !app.smartFolders.has(config.smartFolder)) {
+    app.log.error(`[Project] Aborting export of ${dir.name}: Smart folder "${config.smartFolder}" not found.`)
+    if (interactive) {
+      app.windows.showErrorMessage(
+        trans('Could not export project'),
+        trans('The smart folder "%s" used by this project does not exist anymore. Please select another one in the project properties.', config.smartFolder)
+      )
     }
+    return undefined
+  }
+
+  const files = getProjectFiles(dir, app.smartFolders, app.log)
+
+  if (files.length === 0) {
+    app.log.warning('[Project] Aborting export: No files remained after filtering.')
+    return undefined
+  }
+
+  const allDefaults = (await app.assets.listDefaults()).concat(getCustomProfiles())
 
-    const allDefaults = await this._app.assets.listDefaults()
+  // All profiles are exported within one job, so that the user can cancel
+  // the whole project export at once.
+  const targetFiles = await enqueueExportJob(dir.name, async (job) => {
+    const targetFiles: string[] = []
+
+    for (let i = 0; i < config.profiles.length; i++) {
+      const profilePath = config.profiles[i]
+      job.reportProgress({ currentProfile: i + 1, totalProfiles: config.profiles.length })
 
-    for (const profilePath of config.profiles) {
       // Spin up one exporter per format.
       const profile = allDefaults.find(e => e.name === profilePath)
 
       if (profile === undefined) {
-        this._app.log.warning(`Could not export project ${dir.name} using profile ${profilePath}: Not found`)
+        app.log.warning(`Could not export project ${dir.name} using profile ${profilePath}: Not found`)
         continue
       }
 
-      this._app.log.info(`[Project] Exporting ${dir.name} as ${profile.writer} (Profile: ${profile.name}).`)
+      app.log.info(`[Project] Exporting ${dir.name} as ${profile.writer} (Profile: ${profile.name}).`)
 
       let template
       if (profile.writer === 'html' && config.templates.html !== '') {
@@ -100,34 +185,39 @@ export default class DirProjectExport extends ZettlrCommand {
           }
         }
 
-        this._app.log.verbose(`[Project Export] Exporting ${opt.sourceFiles.length} files to ${opt.targetDirectory}`)
+        app.log.verbose(`[Project Export] Exporting ${opt.sourceFiles.length} files to ${opt.targetDirectory}`)
 
-        const result = await makeExport(opt, this._app.log, this._app.config, this._app.assets)
+        const result = await makeExport(opt, app.log, app.config, app.assets, app.fsal, job)
         if (result.code !== 0) {
           // We got an error!
           throw new Error(`Export failed: ${result.stderr.join('\n')}`)
         }
-        this._app.log.info(`[Project] Exported ${dir.name} as ${result.targetFile}`)
+        app.log.info(`[Project] Exported ${dir.name} as ${result.targetFile}`)
+        targetFiles.push(result.targetFile)
       } catch (err: any) {
-        this._app.log.error(err.message, err)
-        this._app.windows.showErrorMessage(
-          ('title' in err) ? err.title : err.message,
-          err.message,
-          ('additionalInfo' in err) ? err.additionalInfo : ''
-        )
+        if (job.signal.aborted) {
+          return undefined // The user has cancelled the export
+        }
+
+        app.log.error(err.message, err)
+        if (interactive) {
+          app.windows.showErrorMessage(
+            ('title' in err) ? err.title : err.message,
+            err.message,
+            ('additionalInfo' in err) ? err.additionalInfo : ''
+          )
+        }
       }
     }
 
-    const notificationShown = this._app.notifications.show(trans('Project successfully exported. Click to show.'), trans('Export'), () => {
-      openDirectory(this._app.log, dir.path)
-    })
+    return targetFiles
+  })
 
-    if (!notificationShown) {
-      openDirectory(this._app.log, dir.path)
-    }
-
-    return true
+  if (targetFiles === undefined) {
+    app.log.info(`[Project] Export of ${dir.name} has been cancelled.`)
   }
+
+  return targetFiles
 }
 
 function openDirectory (logger: LogProvider, dirPath: string): void {
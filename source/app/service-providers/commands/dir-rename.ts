@@ -14,6 +14,8 @@
 
 import ZettlrCommand from './zettlr-command'
 import sanitize from 'sanitize-filename'
+import moveAndUpdateFileLinks from './util/update-file-links'
+import path from 'path'
 
 export default class DirRename extends ZettlrCommand {
   constructor (app: any) {
@@ -37,7 +39,10 @@ export default class DirRename extends ZettlrCommand {
     // At this point no file is open in that directory anymore, so we can easily
     // rename the directory. The FSAL will reflect the changes.
     try {
-      await this._app.fsal.renameDir(sourceDir, sanitizedName)
+      const newPath = path.join(sourceDir.dir, sanitizedName)
+      await moveAndUpdateFileLinks(this._app, sourceDir.path, newPath, async () => {
+        await this._app.fsal.renameDir(sourceDir, sanitizedName)
+      })
     } catch (err: any) {
       console.error(err)
       this._app.windows.prompt({
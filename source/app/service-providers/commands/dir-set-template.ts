@@ -0,0 +1,38 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        DirSetTemplate command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Sets the default note template of a directory in its
+ *                  settings.
+ *
+ * END HEADER
+ */
+
+import ZettlrCommand from './zettlr-command'
+
+export default class DirSetTemplate extends ZettlrCommand {
+  constructor (app: any) {
+    super(app, 'dir-set-template')
+  }
+
+  /**
+    * Sets the template that new files in a directory are created from
+    * @param {String} evt The event name
+    * @param  {Object} arg An object containing both a path and a template name
+    */
+  async run (evt: string, arg: any): Promise<boolean> {
+    const dir = this._app.fsal.findDir(arg.path)
+
+    if (dir === undefined) {
+      return false
+    }
+
+    await this._app.fsal.setDirectorySetting(dir, { template: arg.template })
+    return true
+  }
+}
@@ -14,9 +14,9 @@
 
 import ZettlrCommand from './zettlr-command'
 import { app, shell } from 'electron'
-import { makeExport } from './exporter'
+import { enqueueExportJob, makeExport } from './exporter'
 import { trans } from '@common/i18n-main'
-import { ExporterOptions } from './exporter/types'
+import { ExporterOptions, ExporterOutput } from './exporter/types'
 import { promises as fs } from 'fs'
 import path from 'path'
 import { PANDOC_WRITERS } from '@common/util/pandoc-maps'
@@ -32,9 +32,9 @@ export default class Export extends ZettlrCommand {
     *
     * @param  {string} evt The event name
     * @param  {Object} arg An object containing hash and wanted extension.
-    * @return {Boolean}     Whether or not the call succeeded.
+    * @return {Promise<ExporterOutput|undefined>} The exporter output, including any diagnostics
     */
-  async run (evt: string, arg: any): Promise<void> {
+  async run (evt: string, arg: any): Promise<ExporterOutput|undefined> {
     const { file, profile, exportTo } = arg as { file: string, profile: PandocProfileMetadata, exportTo: string }
 
     const exporterOptions: ExporterOptions = {
@@ -74,7 +74,7 @@ export default class Export extends ZettlrCommand {
           const folderSelection = await this._app.windows.askDir(trans('Choose export destination'), null, trans('Save'))
           if (folderSelection === undefined || folderSelection.length === 0) {
             this._app.log.error('[Export] Could not run exporter: Folderselection did not have a result!')
-            return
+            return undefined
           }
           exporterOptions.targetDirectory = folderSelection[0]
           break
@@ -92,13 +92,31 @@ export default class Export extends ZettlrCommand {
     // We should have at least one file present now
     if (exporterOptions.sourceFiles.length === 0) {
       this._app.log.error('[Export] Could not run exporter: No source files were given. Arguments provided:', arg)
-      return
+      return undefined
     }
 
     // Call the exporter. Don't throw the "big" error as this is single-file export
     try {
       this._app.log.verbose(`[Exporter] Exporting ${exporterOptions.sourceFiles.length} files to ${exporterOptions.targetDirectory}`)
-      const output = await makeExport(exporterOptions, this._app.log, this._app.config, this._app.assets)
+      const output = await enqueueExportJob(filename, async (job) => {
+        job.reportProgress({ currentProfile: 1, totalProfiles: 1 })
+        return await makeExport(exporterOptions, this._app.log, this._app.config, this._app.assets, this._app.fsal, job)
+      })
+
+      if (output === undefined) {
+        this._app.log.info(`[Export] Export of ${filename} has been cancelled.`)
+        return undefined
+      }
+
+      // Make sure the diagnostics point to the actual file, not the temporary one
+      if (isModified) {
+        for (const diagnostic of output.diagnostics) {
+          if (diagnostic.file === tempPath) {
+            diagnostic.file = file
+          }
+        }
+      }
+
       if (output.code === 0) {
         this._app.log.info(`Successfully exported file to ${output.targetFile}`)
         const readableFormat = (profile.writer in PANDOC_WRITERS) ? PANDOC_WRITERS[profile.writer] : profile.writer
@@ -114,14 +132,15 @@ export default class Export extends ZettlrCommand {
           }
         }
       } else {
-        const title = trans('Export failed')
-        const message = trans('An error occurred on export: %s', `Pandoc exited with code ${output.code}`)
-        const contents = output.stderr.join('\n')
-        this._app.windows.showErrorMessage(title, message, contents)
+        // The renderer will display the diagnostics to the user
+        this._app.log.error(`[Export] Export failed: Pandoc exited with code ${output.code}`, output.stderr)
       }
+
+      return output
     } catch (err: any) {
       this._app.windows.showErrorMessage(err.message, err.message)
       this._app.log.error(err.message, err)
+      return undefined
     }
   }
 }
@@ -20,6 +20,8 @@ import { ExporterOptions, ExporterPlugin, ExporterOutput, ExporterAPI } from './
 import { WRITER2EXT } from '@common/util/pandoc-maps'
 
 export const plugin: ExporterPlugin = {
+  id: 'pandoc',
+  profiles: [], // Handles every regular defaults file
   run: async function (options: ExporterOptions, sourceFiles: string[], ctx: ExporterAPI): Promise<ExporterOutput> {
     // Determine the availability of Pandoc. As the Pandoc path is added to
     // process.env.PATH during the environment check, this should always work
@@ -59,6 +61,7 @@ export const plugin: ExporterPlugin = {
       code: pandocOutput.code,
       stdout: pandocOutput.stdout,
       stderr: pandocOutput.stderr,
+      diagnostics: pandocOutput.diagnostics,
       targetFile: target
     }
   }
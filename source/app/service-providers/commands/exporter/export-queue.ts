@@ -0,0 +1,156 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Export job queue
+ * CVM-Role:        Utility
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This module runs all exports one after another, keeps track
+ *                  of their progress and allows the user to cancel them. Any
+ *                  change to the queue is broadcast to all windows.
+ *
+ * END HEADER
+ */
+
+import broadcastIpcMessage from '@common/util/broadcast-ipc-message'
+import { ExportJobHandle, ExportJobInfo } from './types'
+
+interface QueuedJob {
+  info: ExportJobInfo
+  controller: AbortController
+}
+
+/**
+ * All jobs that are either queued or currently running, in order.
+ *
+ * @var {QueuedJob[]}
+ */
+const jobs: QueuedJob[] = []
+
+/**
+ * Resolves once the last enqueued job has finished. Each new job is chained
+ * onto this promise so that only one export runs at any time.
+ *
+ * @var {Promise<void>}
+ */
+let queueTail: Promise<void> = Promise.resolve()
+
+let nextJobId = 1
+
+/**
+ * Returns information on all queued and running jobs.
+ *
+ * @return  {ExportJobInfo[]}  The jobs, in the order they will run
+ */
+export function getExportJobs (): ExportJobInfo[] {
+  return jobs.map(job => ({ ...job.info, progress: { ...job.info.progress } }))
+}
+
+/**
+ * Notifies all windows that the queue has changed.
+ */
+function broadcastJobs (): void {
+  broadcastIpcMessage('export-queue', 'jobs-changed', getExportJobs())
+}
+
+/**
+ * Removes a job from the queue.
+ *
+ * @param   {QueuedJob}  job  The job to remove
+ */
+function removeJob (job: QueuedJob): void {
+  const idx = jobs.indexOf(job)
+  if (idx > -1) {
+    jobs.splice(idx, 1)
+    broadcastJobs()
+  }
+}
+
+/**
+ * Adds a job to the export queue. The task will be called once all previously
+ * enqueued jobs have finished and receives a handle which it must use to
+ * report its progress and to listen for cancellation.
+ *
+ * @param   {string}                   label  A human-readable job description
+ * @param   {Function}                 task   The actual export
+ *
+ * @return  {Promise<T|undefined>}            Resolves with the task's result,
+ *                                            or undefined if it was cancelled.
+ */
+export async function enqueueExportJob<T> (
+  label: string,
+  task: (job: ExportJobHandle) => Promise<T>
+): Promise<T|undefined> {
+  const job: QueuedJob = {
+    info: {
+      id: String(nextJobId++),
+      label,
+      status: 'queued',
+      progress: { currentFile: 0, totalFiles: 0, currentProfile: 0, totalProfiles: 0 }
+    },
+    controller: new AbortController()
+  }
+
+  jobs.push(job)
+  broadcastJobs()
+
+  const run = async (): Promise<T|undefined> => {
+    const { signal } = job.controller
+    if (signal.aborted) {
+      return undefined // Cancelled while it was still queued
+    }
+
+    job.info.status = 'running'
+    broadcastJobs()
+
+    const handle: ExportJobHandle = {
+      id: job.info.id,
+      signal,
+      reportProgress: (progress) => {
+        job.info.progress = { ...job.info.progress, ...progress }
+        broadcastJobs()
+      }
+    }
+
+    try {
+      const result = await task(handle)
+      return (signal.aborted) ? undefined : result
+    } catch (err) {
+      if (signal.aborted) {
+        return undefined // Whatever went wrong is due to the cancellation
+      }
+      throw err
+    } finally {
+      removeJob(job)
+    }
+  }
+
+  const result = queueTail.then(run)
+  // The next job must run regardless of whether this one failed
+  queueTail = result.then(() => {}, () => {})
+  return await result
+}
+
+/**
+ * Cancels the given job. Queued jobs are removed immediately, running jobs
+ * abort their Pandoc process and are removed once they have cleaned up.
+ *
+ * @param   {string}   id  The job's ID
+ *
+ * @return  {boolean}      False if there is no such job
+ */
+export function cancelExportJob (id: string): boolean {
+  const job = jobs.find(job => job.info.id === id)
+  if (job === undefined) {
+    return false
+  }
+
+  job.controller.abort()
+  if (job.info.status === 'queued') {
+    removeJob(job)
+  }
+
+  return true
+}
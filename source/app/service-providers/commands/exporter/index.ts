@@ -23,106 +23,241 @@ import { promises as fs } from 'fs'
 import isFile from '@common/util/is-file'
 
 // Exporters
-import { DefaultsOverride, ExporterAPI, ExporterOptions, ExporterOutput, PandocRunnerOutput } from './types'
-import { plugin as DefaultExporter } from './default-exporter'
-import { plugin as PDFExporter } from './pdf-exporter'
-import { plugin as TextbundleExporter } from './textbundle-exporter'
+import { DefaultsOverride, ExportDiagnostic, ExporterAPI, ExporterOptions, ExporterOutput, ExportJobHandle, LinkResolution, PandocRunnerOutput } from './types'
+import { getPluginForWriter, isBuiltinPlugin } from './plugin-registry'
+import { preprocessFiles } from './preprocess'
+import parsePandocDiagnostics from './parse-pandoc-diagnostics'
 import AssetsProvider from '@providers/assets'
 import LogProvider from '@providers/log'
-import { PandocProfileMetadata } from '@dts/common/assets'
 import ConfigProvider from '@providers/config'
+import FSAL from '@providers/fsal'
+
+export { getCustomProfiles, loadUserPlugins } from './plugin-registry'
+export { enqueueExportJob, cancelExportJob, getExportJobs } from './export-queue'
 
 /**
- * This function returns faux metadata for the custom export formats the
- * exporter supports which circumvent (or build upon) the Pandoc exporter. These
- * are not defined as regular defaults files, therefore we need to output them
- * here.
+ * Runs the exporter.
  *
- * @return  {PandocProfileMetadata[]}The additional profiles
+ * @param   {ExporterOptions}  options  The options needed to facilitate the export.
+ * @param   {LogProvider}      logger   The logger
+ * @param   {ConfigProvider}   config   The config provider
+ * @param   {AssetsProvider}   assets   The assets provider
+ * @param   {FSAL}             fsal     The FSAL, used to resolve internal links
+ * @param   {ExportJobHandle}  job      Optional, the queued job this export runs in
+ *
+ * @return  {Promise<ExporterOutput>}   Resolves with an info object.
  */
-export function getCustomProfiles (): PandocProfileMetadata[] {
-  return [
-    {
-      name: 'Textbundle.yaml', // Fake name
-      reader: 'markdown', // Not completely the truth
-      writer: 'textbundle', // Not even supported by Pandoc
-      isInvalid: false // IT'S ALL FAKE!
-    },
-    {
-      name: 'Textpack.yaml',
-      reader: 'markdown',
-      writer: 'textpack',
-      isInvalid: false
-    },
-    {
-      name: 'Simple PDF.yaml',
-      reader: 'markdown',
-      writer: 'simple-pdf',
-      isInvalid: false
+export async function makeExport (
+  options: ExporterOptions,
+  logger: LogProvider,
+  config: ConfigProvider,
+  assets: AssetsProvider,
+  fsal: FSAL,
+  job?: ExportJobHandle
+): Promise<ExporterOutput> {
+  // Every export receives its own working directory for intermediary files and
+  // its defaults file, so that concurrent exports cannot clobber each other.
+  const workingDir = await fs.mkdtemp(path.join(app.getPath('temp'), 'zettlr-export-'))
+
+  try {
+    // Before handing the files to the plugins, run them through the
+    // preprocessor, which may produce intermediary files.
+    const linkResolution = await getLinkResolution(options.profile.name, assets)
+    const inputFiles = await preprocessFiles(options, linkResolution, (query) => fsal.findExact(query), workingDir, (currentFile, totalFiles) => {
+      throwIfCancelled(job)
+      job?.reportProgress({ currentFile, totalFiles })
+    })
+
+    // This is basically the "plugin API"
+    const ctx: ExporterAPI = {
+      runPandoc: async (defaults: string) => {
+        throwIfCancelled(job)
+        return await runPandoc(logger, defaults, options.cwd, job?.signal)
+      },
+      getDefaultsFor: async (filename: string, properties: any = {}) => {
+        return await writeDefaults(filename, properties, config, assets, workingDir, options.defaultsOverride)
+      },
+      listDefaults: async () => {
+        return await assets.listDefaults()
+      }
     }
-  ]
+
+    const output = await runPlugin(options, inputFiles, ctx, logger)
+    throwIfCancelled(job)
+    output.diagnostics = await attributeDiagnostics(output.diagnostics, options, inputFiles)
+    return output
+  } finally {
+    await fs.rm(workingDir, { recursive: true, force: true })
+  }
 }
 
-const PLUGINS = {
-  'pandoc': DefaultExporter,
-  'simple-pdf': PDFExporter,
-  'textbundle': TextbundleExporter
+/**
+ * Throws if the given job has been cancelled, which aborts the export.
+ *
+ * @param   {ExportJobHandle}  job  The job, if applicable
+ */
+function throwIfCancelled (job?: ExportJobHandle): void {
+  if (job?.signal.aborted === true) {
+    throw new Error(`Export job ${job.id} has been cancelled`)
+  }
 }
 
 /**
- * Runs the exporter.
+ * Retrieves how internal links should be resolved for the given profile. This
+ * can be set in the defaults file using the metadata property
+ * `zettlr.link_resolution`. Faux profiles (which have no defaults file) as well
+ * as profiles without that setting leave the links as they are.
  *
- * @param   {ExporterOptions}  options             The options needed to facilitate the export.
- * @param   {any}              [formatOptions={}]  These are options possibly required by a plugin.
+ * @param   {string}                   profileName  The profile's filename
+ * @param   {AssetsProvider}           assets       The assets provider
  *
- * @return  {Promise<ExporterOutput>}              Resolves with an info object.
+ * @return  {Promise<LinkResolution>}               The link resolution
  */
-export async function makeExport (
-  options: ExporterOptions,
-  logger: LogProvider,
-  config: ConfigProvider,
-  assets: AssetsProvider
-): Promise<ExporterOutput> {
-  // We already know where the exported file will end up, so set the property
-  const inputFiles = options.sourceFiles.map(file => file.path)
-
-  // This is basically the "plugin API"
-  const ctx: ExporterAPI = {
-    runPandoc: async (defaults: string) => {
-      return await runPandoc(logger, defaults, options.cwd)
-    },
-    getDefaultsFor: async (filename: string, properties: any = {}) => {
-      return await writeDefaults(filename, properties, config, assets, options.defaultsOverride)
-    },
-    listDefaults: async () => {
-      return await assets.listDefaults()
+async function getLinkResolution (profileName: string, assets: AssetsProvider): Promise<LinkResolution> {
+  let defaults: any
+  try {
+    defaults = await assets.getDefaultsFile(profileName)
+  } catch (err) {
+    return 'none'
+  }
+
+  const value = defaults?.metadata?.zettlr?.link_resolution
+  if ([ 'relative', 'anchor', 'title' ].includes(value)) {
+    return value
+  }
+
+  return 'none'
+}
+
+/**
+ * Searches for the correct plugin to run, and runs it.
+ *
+ * @param   {ExporterOptions}          options     The exporter options
+ * @param   {string[]}                 inputFiles  The preprocessed input files
+ * @param   {ExporterAPI}              ctx         The plugin API
+ * @param   {LogProvider}              logger      The logger
+ *
+ * @return  {Promise<ExporterOutput>}              The plugin's output
+ */
+async function runPlugin (options: ExporterOptions, inputFiles: string[], ctx: ExporterAPI, logger: LogProvider): Promise<ExporterOutput> {
+  // If no plugin has claimed the writer, this will be the regular Pandoc
+  // exporter.
+  const plugin = getPluginForWriter(options.profile.writer)
+
+  if (isBuiltinPlugin(plugin)) {
+    return await plugin.run(options, inputFiles, ctx)
+  }
+
+  // User plugins are isolated: whatever goes wrong in there is reported as a
+  // failed export rather than bubbling up into the app.
+  try {
+    logger.info(`[Exporter] Running exporter plugin ${plugin.id} ...`)
+    const output = await plugin.run(options, inputFiles, ctx)
+    if (output === null || typeof output !== 'object' || typeof output.code !== 'number') {
+      throw new Error('The plugin did not return a valid output')
+    }
+
+    return {
+      code: output.code,
+      stdout: Array.isArray(output.stdout) ? output.stdout.map(String) : [],
+      stderr: Array.isArray(output.stderr) ? output.stderr.map(String) : [],
+      targetFile: String(output.targetFile ?? ''),
+      diagnostics: Array.isArray(output.diagnostics) ? output.diagnostics : []
+    }
+  } catch (err: any) {
+    logger.error(`[Exporter] Exporter plugin ${plugin.id} failed: ${String(err.message)}`, err)
+    return {
+      code: 1,
+      stdout: [],
+      stderr: [`Exporter plugin ${plugin.id} failed: ${String(err.message)}`],
+      targetFile: '',
+      diagnostics: [{
+        severity: 'error',
+        kind: 'other',
+        message: `Exporter plugin ${plugin.id} failed: ${String(err.message)}`
+      }]
     }
   }
+}
+
+/**
+ * Attributes the diagnostics to the original source files. Pandoc only knows
+ * about the (possibly preprocessed) input files, so these have to be mapped
+ * back. Missing resources and citations are reported without a position, so
+ * they are located by searching the source files for them.
+ *
+ * @param   {ExportDiagnostic[]}           diagnostics  The diagnostics
+ * @param   {ExporterOptions}              options      The exporter options
+ * @param   {string[]}                     inputFiles   The files passed to the plugin
+ *
+ * @return  {Promise<ExportDiagnostic[]>}               The attributed diagnostics
+ */
+async function attributeDiagnostics (diagnostics: ExportDiagnostic[], options: ExporterOptions, inputFiles: string[]): Promise<ExportDiagnostic[]> {
+  const cwd = options.cwd ?? options.targetDirectory
+  const sourceFiles = options.sourceFiles.map(file => file.path)
+  const resolvedInputFiles = inputFiles.map(file => path.resolve(cwd, file))
+  const contents = new Map<string, string[]>()
+
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.file !== undefined) {
+      const idx = resolvedInputFiles.indexOf(path.resolve(cwd, diagnostic.file))
+      diagnostic.file = (idx > -1) ? sourceFiles[idx] : path.resolve(cwd, diagnostic.file)
+      continue
+    } else if (diagnostic.line !== undefined && sourceFiles.length === 1) {
+      // With only one input, Pandoc omits the filename
+      diagnostic.file = sourceFiles[0]
+      continue
+    }
 
-  // Search for the correct plugin to run, and run it. First the custom ones ...
-  if ([ 'textbundle', 'textpack' ].includes(options.profile.writer)) {
-    return await PLUGINS.textbundle.run(options, inputFiles, ctx)
-  } else if (options.profile.writer === 'simple-pdf') {
-    return await PLUGINS['simple-pdf'].run(options, inputFiles, ctx)
-  } else {
-    // ... otherwise run the regular Pandoc exporter.
-    return await PLUGINS.pandoc.run(options, inputFiles, ctx)
+    let needle: string|undefined
+    if (diagnostic.kind === 'resource') {
+      needle = /resource '(.+?)'/.exec(diagnostic.message)?.[1] ?? /^(.+?): openBinaryFile/.exec(diagnostic.message)?.[1]
+    } else if (diagnostic.kind === 'citation') {
+      const key = /citation (\S+) not found/i.exec(diagnostic.message)?.[1]
+      needle = (key !== undefined) ? '@' + key : undefined
+    }
+
+    if (needle === undefined) {
+      continue
+    }
+
+    for (const file of sourceFiles) {
+      if (!contents.has(file)) {
+        try {
+          contents.set(file, (await fs.readFile(file, 'utf-8')).split('\n'))
+        } catch (err) {
+          contents.set(file, [])
+        }
+      }
+
+      const line = (contents.get(file) as string[]).findIndex(line => line.includes(needle as string))
+      if (line > -1) {
+        diagnostic.file = file
+        diagnostic.line = line + 1
+        break
+      }
+    }
   }
+
+  return diagnostics
 }
 
-async function runPandoc (logger: LogProvider, defaultsFile: string, cwd?: string): Promise<PandocRunnerOutput> {
+async function runPandoc (logger: LogProvider, defaultsFile: string, cwd?: string, signal?: AbortSignal): Promise<PandocRunnerOutput> {
   const output: PandocRunnerOutput = {
     code: 0,
     stdout: [],
-    stderr: []
+    stderr: [],
+    diagnostics: []
   }
 
   await new Promise<void>((resolve, reject) => {
-    const pandocProcess = spawn('pandoc', [ '--defaults', `"${defaultsFile}"` ], {
-      // NOTE: This has to be true, because of reasons unbeknownst to me, Pandoc
-      // is unable to open the defaultsFile if it is not run from within a shell
-      shell: true,
-      cwd
+    // NOTE: Pandoc must not be run within a shell, since cancelling the export
+    // job would then only kill the shell, but not Pandoc itself. Without a
+    // shell, the path to the defaults file must not be quoted.
+    const pandocProcess = spawn('pandoc', [ '--defaults', defaultsFile ], {
+      cwd,
+      // Kills the process once the export job is cancelled
+      signal
     })
 
     pandocProcess.stdout.on('data', (data) => {
@@ -149,6 +284,7 @@ async function runPandoc (logger: LogProvider, defaultsFile: string, cwd?: strin
   // for example), clean up the output.
   output.stderr = output.stderr.join('').split('\n').filter(line => line.trim() !== '')
   output.stdout = output.stdout.join('').split('\n').filter(line => line.trim() !== '')
+  output.diagnostics = parsePandocDiagnostics(output.stderr)
 
   if (output.stdout.length > 0) {
     logger.info('This Pandoc run produced additional output.', output.stdout)
@@ -164,9 +300,10 @@ async function writeDefaults (
   properties: any, // Contains properties that will be written to the defaults
   config: ConfigProvider,
   assets: AssetsProvider,
+  workingDir: string, // The export's working directory
   defaultsOverride?: DefaultsOverride
 ): Promise<string> {
-  const defaultsFile = path.join(app.getPath('temp'), 'defaults.yml')
+  const defaultsFile = path.join(workingDir, 'defaults.yml')
 
   const defaults: any = await assets.getDefaultsFile(filename)
 
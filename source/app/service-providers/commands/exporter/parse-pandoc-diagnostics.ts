@@ -0,0 +1,130 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Pandoc diagnostics parser
+ * CVM-Role:        Utility
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This module turns the raw stderr output of Pandoc into
+ *                  structured diagnostic records that can be displayed to the
+ *                  user.
+ *
+ * END HEADER
+ */
+
+import { ExportDiagnostic } from './types'
+
+/**
+ * Matches Pandoc's own log messages, e.g. "[WARNING] Citeproc: ..."
+ *
+ * @var {RegExp}
+ */
+const LOG_LEVEL_RE = /^\[(WARNING|ERROR|INFO)\]\s*(.*)$/
+
+/**
+ * Matches source positions in log messages, e.g. "at file.md line 3 column 1"
+ * or "at line 3 column 1" (if there is only one input)
+ *
+ * @var {RegExp}
+ */
+const POSITION_RE = /\bat (?:(.+?) )?line (\d+) column (\d+)/
+
+/**
+ * Matches parse errors, e.g. 'Error at "file.md" (line 3, column 1):'
+ *
+ * @var {RegExp}
+ */
+const PARSE_ERROR_RE = /^Error at "(.*?)" \(line (\d+), column (\d+)\):?\s*(.*)$/
+
+/**
+ * Determines the kind of a diagnostic from its message.
+ *
+ * @param   {string}                      message  The message
+ *
+ * @return  {ExportDiagnostic['kind']}             The kind
+ */
+function getKind (message: string): ExportDiagnostic['kind'] {
+  if (/citeproc|citation .+ not found/i.test(message)) {
+    return 'citation'
+  } else if (/could not fetch resource|openBinaryFile|does not exist|replacing image/i.test(message)) {
+    return 'resource'
+  } else if (POSITION_RE.test(message)) {
+    return 'syntax'
+  } else {
+    return 'other'
+  }
+}
+
+/**
+ * Parses Pandoc's stderr output (line by line, as collected by the runner)
+ * into structured diagnostics. Lines that cannot be attributed to a new record
+ * are appended to the message of the previous one.
+ *
+ * @param   {string[]}            stderr  The stderr output, one line each
+ *
+ * @return  {ExportDiagnostic[]}          The parsed diagnostics
+ */
+export default function parsePandocDiagnostics (stderr: string[]): ExportDiagnostic[] {
+  const diagnostics: ExportDiagnostic[] = []
+  let current: ExportDiagnostic|undefined
+  let inLatexLog = false
+
+  const push = (diagnostic: ExportDiagnostic): void => {
+    diagnostics.push(diagnostic)
+    current = diagnostic
+  }
+
+  for (const line of stderr) {
+    const logMatch = LOG_LEVEL_RE.exec(line)
+    const parseErrorMatch = PARSE_ERROR_RE.exec(line)
+
+    if (logMatch !== null) {
+      inLatexLog = false
+      const message = logMatch[2]
+      const diagnostic: ExportDiagnostic = {
+        severity: logMatch[1].toLowerCase() as ExportDiagnostic['severity'],
+        kind: getKind(message),
+        message
+      }
+
+      const position = POSITION_RE.exec(message)
+      if (position !== null) {
+        diagnostic.file = position[1]
+        diagnostic.line = parseInt(position[2], 10)
+        diagnostic.column = parseInt(position[3], 10)
+      }
+      push(diagnostic)
+    } else if (parseErrorMatch !== null) {
+      inLatexLog = false
+      push({
+        severity: 'error',
+        kind: 'syntax',
+        message: parseErrorMatch[4],
+        // Pandoc calls the input "source" if it cannot tell the file
+        file: [ '', 'source' ].includes(parseErrorMatch[1]) ? undefined : parseErrorMatch[1],
+        line: parseInt(parseErrorMatch[2], 10),
+        column: parseInt(parseErrorMatch[3], 10)
+      })
+    } else if (/^Error producing PDF/.test(line)) {
+      // What follows is an excerpt from the LaTeX log
+      inLatexLog = true
+      push({ severity: 'error', kind: 'latex', message: line })
+    } else if (inLatexLog && line.startsWith('!')) {
+      // Every line starting with an exclamation mark is a LaTeX error
+      push({ severity: 'error', kind: 'latex', message: line.substring(1).trim() })
+    } else if (line.startsWith('pandoc:')) {
+      inLatexLog = false
+      const message = line.substring(7).trim()
+      push({ severity: 'error', kind: getKind(message), message })
+    } else if (current !== undefined) {
+      // Parse errors carry their message on the following lines
+      current.message = (current.message === '') ? line.trim() : current.message + '\n' + line.trim()
+    } else {
+      push({ severity: 'warning', kind: getKind(line), message: line.trim() })
+    }
+  }
+
+  return diagnostics
+}
@@ -25,6 +25,15 @@ import { trans } from '@common/i18n-main'
 import sanitize from 'sanitize-filename'
 
 export const plugin: ExporterPlugin = {
+  id: 'simple-pdf',
+  profiles: [
+    {
+      name: 'Simple PDF.yaml', // Fake name
+      reader: 'markdown',
+      writer: 'simple-pdf',
+      isInvalid: false
+    }
+  ],
   run: async function (options: ExporterOptions, sourceFiles: string[], ctx: ExporterAPI): Promise<ExporterOutput> {
     // Determine the availability of Pandoc. As the Pandoc path is added to
     // process.env.PATH during the environment check, this should always work
@@ -88,6 +97,7 @@ export const plugin: ExporterPlugin = {
       code: pandocOutput.code,
       stdout: pandocOutput.stdout,
       stderr: pandocOutput.stderr,
+      diagnostics: pandocOutput.diagnostics,
       targetFile: pdfFilePath
     }
   }
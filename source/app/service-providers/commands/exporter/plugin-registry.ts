@@ -0,0 +1,199 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Exporter plugin registry
+ * CVM-Role:        Utility
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This module keeps track of all exporter plugins, both the
+ *                  ones that ship with the app and the ones users can place
+ *                  into their exporter-plugins directory.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { createRequire } from 'module'
+import LogProvider from '@providers/log'
+import { PandocProfileMetadata } from '@dts/common/assets'
+import { ExporterPlugin } from './types'
+import { PANDOC_WRITERS } from '@common/util/pandoc-maps'
+
+import { plugin as DefaultExporter } from './default-exporter'
+import { plugin as PDFExporter } from './pdf-exporter'
+import { plugin as TextbundleExporter } from './textbundle-exporter'
+
+/**
+ * The plugins that ship with the app. These are always registered first, which
+ * means that user plugins cannot override any of their writers.
+ *
+ * @var {ExporterPlugin[]}
+ */
+const BUILTIN_PLUGINS: ExporterPlugin[] = [
+  PDFExporter,
+  TextbundleExporter
+]
+
+/**
+ * Holds all plugins that have been loaded from the user data directory.
+ *
+ * @var {ExporterPlugin[]}
+ */
+let userPlugins: ExporterPlugin[] = []
+
+/**
+ * Returns whether the given plugin ships with the app.
+ *
+ * @param   {ExporterPlugin}  plugin  The plugin in question
+ *
+ * @return  {boolean}                 True if it is a builtin plugin
+ */
+export function isBuiltinPlugin (plugin: ExporterPlugin): boolean {
+  return plugin === DefaultExporter || BUILTIN_PLUGINS.includes(plugin)
+}
+
+/**
+ * Returns the plugin responsible for the given writer. If no plugin has
+ * declared a profile for that writer, this returns the regular Pandoc exporter.
+ *
+ * @param   {string}          writer  The writer of the requested profile
+ *
+ * @return  {ExporterPlugin}          The plugin to run
+ */
+export function getPluginForWriter (writer: string): ExporterPlugin {
+  for (const plugin of BUILTIN_PLUGINS.concat(userPlugins)) {
+    if (plugin.profiles.some(profile => profile.writer === writer)) {
+      return plugin
+    }
+  }
+
+  return DefaultExporter
+}
+
+/**
+ * This function returns faux metadata for the custom export formats the
+ * registered plugins support which circumvent (or build upon) the Pandoc
+ * exporter. These are not defined as regular defaults files, therefore we need
+ * to output them here.
+ *
+ * @return  {PandocProfileMetadata[]}  The additional profiles
+ */
+export function getCustomProfiles (): PandocProfileMetadata[] {
+  const profiles: PandocProfileMetadata[] = []
+  for (const plugin of BUILTIN_PLUGINS.concat(userPlugins)) {
+    profiles.push(...plugin.profiles.map(profile => ({ ...profile })))
+  }
+  return profiles
+}
+
+/**
+ * Loads all exporter plugins from the given directory. Each plugin is a
+ * CommonJS module (*.js) which exports an ExporterPlugin under the name
+ * "plugin". Plugins that cannot be loaded, that are malformed, or that try to
+ * claim a writer which is already taken are skipped and logged, so that a
+ * broken plugin never prevents the exporter from working.
+ *
+ * @param   {string}         pluginDirectory  The directory to search
+ * @param   {LogProvider}    logger           A logger to report errors
+ *
+ * @return  {Promise<void>}                   Resolves once all plugins have been loaded
+ */
+export async function loadUserPlugins (pluginDirectory: string, logger: LogProvider): Promise<void> {
+  userPlugins = []
+
+  let files: string[] = []
+  try {
+    files = (await fs.readdir(pluginDirectory)).filter(file => /\.c?js$/.test(file))
+  } catch (err: any) {
+    logger.warning(`[Exporter] Could not read exporter plugin directory ${pluginDirectory}: ${String(err.message)}`)
+    return
+  }
+
+  for (const file of files) {
+    const absPath = path.join(pluginDirectory, file)
+    try {
+      const pluginRequire = createRequire(absPath)
+      // Make sure that changes to the plugin are picked up on a reload
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete pluginRequire.cache[pluginRequire.resolve(absPath)]
+      const module = pluginRequire(absPath)
+      const plugin = validatePlugin(module?.plugin ?? module?.default ?? module)
+
+      const takenWriters = getCustomProfiles().map(profile => profile.writer)
+      const conflict = plugin.profiles.find(profile => takenWriters.includes(profile.writer))
+      if (conflict !== undefined) {
+        throw new Error(`Writer "${conflict.writer}" is already provided by another plugin`)
+      }
+
+      if (userPlugins.some(existing => existing.id === plugin.id)) {
+        throw new Error(`A plugin with ID "${plugin.id}" has already been loaded`)
+      }
+
+      userPlugins.push(plugin)
+      logger.info(`[Exporter] Loaded exporter plugin ${plugin.id} from ${file}.`)
+    } catch (err: any) {
+      logger.error(`[Exporter] Could not load exporter plugin ${file}: ${String(err.message)}`, err)
+    }
+  }
+}
+
+/**
+ * Ensures that whatever a plugin module exported adheres to the ExporterPlugin
+ * interface, and normalises the declared profiles. Throws an error otherwise.
+ *
+ * @param   {any}             candidate  The module export
+ *
+ * @return  {ExporterPlugin}             The validated plugin
+ */
+function validatePlugin (candidate: any): ExporterPlugin {
+  if (candidate === null || typeof candidate !== 'object') {
+    throw new Error('The module does not export a plugin')
+  }
+
+  if (typeof candidate.id !== 'string' || candidate.id.trim() === '') {
+    throw new Error('The plugin does not declare an ID')
+  }
+
+  if (typeof candidate.run !== 'function') {
+    throw new Error('The plugin does not implement a run-method')
+  }
+
+  if (!Array.isArray(candidate.profiles) || candidate.profiles.length === 0) {
+    throw new Error('The plugin does not declare any profiles')
+  }
+
+  const profiles: PandocProfileMetadata[] = []
+  for (const profile of candidate.profiles) {
+    if (typeof profile?.writer !== 'string' || profile.writer.trim() === '') {
+      throw new Error('Every profile must declare a writer')
+    }
+
+    // Plugins must declare their own writer IDs, otherwise they would hijack
+    // the regular Pandoc profiles of that format.
+    if (profile.writer in PANDOC_WRITERS) {
+      throw new Error(`Writer "${String(profile.writer)}" is reserved for Pandoc`)
+    }
+
+    // The name is a faux filename, since the renderer strips the extension
+    let name: string = (typeof profile.name === 'string' && profile.name.trim() !== '') ? profile.name : candidate.id
+    if (!/\.ya?ml$/.test(name)) {
+      name += '.yaml'
+    }
+
+    profiles.push({
+      name,
+      writer: profile.writer,
+      reader: (typeof profile.reader === 'string') ? profile.reader : 'markdown',
+      isInvalid: false
+    })
+  }
+
+  return {
+    id: candidate.id,
+    profiles,
+    run: candidate.run.bind(candidate)
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Export preprocessor
+ * CVM-Role:        Utility
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This module runs a pipeline of transformations over the
+ *                  source files before they are handed to the exporter plugins.
+ *                  Currently, this pipeline expands transclusions and
+ *                  resolves Zettelkasten links into proper cross-references.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { mapLinks } from '@common/util/replace-links'
+import expandTransclusions from '@common/util/expand-transclusions'
+import extractYamlFrontmatter from '@common/util/extract-yaml-frontmatter'
+import { WRITER2EXT } from '@common/util/pandoc-maps'
+import { MDFileDescriptor } from '@dts/common/fsal'
+import { hasMarkdownExt } from '@providers/fsal/util/is-md-or-code-file'
+import { ExporterOptions, LinkResolution, PreprocessorContext, PreprocessorStep } from './types'
+
+/**
+ * The pipeline of transformations. Each step receives the output of the
+ * previous one.
+ *
+ * @var {PreprocessorStep[]}
+ */
+const PIPELINE: PreprocessorStep[] = [
+  transcludeNotes,
+  insertFileAnchor,
+  resolveLinks
+]
+
+/**
+ * Runs the preprocessing pipeline over all source files. Files that have been
+ * modified by the pipeline are written into the working directory as
+ * <file-name>.intermediary.<file-ext>, all other files are passed on as-is.
+ *
+ * @param   {ExporterOptions}    options         The exporter options
+ * @param   {LinkResolution}     linkResolution  How to resolve internal links
+ * @param   {Function}           findFile        Looks up linked files by ID or filename
+ * @param   {string}             workingDir      Where to put intermediary files
+ * @param   {Function}           onProgress      Optional, called before each file
+ *
+ * @return  {Promise<string[]>}                  The files to pass to the plugins
+ */
+export async function preprocessFiles (
+  options: ExporterOptions,
+  linkResolution: LinkResolution,
+  findFile: (query: string) => MDFileDescriptor|undefined,
+  workingDir: string,
+  onProgress?: (currentFile: number, totalFiles: number) => void
+): Promise<string[]> {
+  const inputFiles: string[] = []
+
+  for (let i = 0; i < options.sourceFiles.length; i++) {
+    const file = options.sourceFiles[i]
+    if (onProgress !== undefined) {
+      onProgress(i + 1, options.sourceFiles.length)
+    }
+    // Non-Markdown files (e.g., included TeX files) are not touched
+    if (!hasMarkdownExt(file.path)) {
+      inputFiles.push(file.path)
+      continue
+    }
+
+    const ctx: PreprocessorContext = {
+      sourceFiles: options.sourceFiles,
+      file,
+      writer: options.profile.writer,
+      targetDirectory: options.targetDirectory,
+      linkResolution,
+      findFile
+    }
+
+    const content = await fs.readFile(file.path, 'utf-8')
+    let transformed = content
+    for (const step of PIPELINE) {
+      transformed = await step(transformed, ctx)
+    }
+
+    if (transformed === content) {
+      inputFiles.push(file.path)
+      continue
+    }
+
+    // Prefix with the index to prevent clashes of equally named files from
+    // different directories
+    const base = path.basename(file.name, file.ext)
+    const intermediary = path.join(workingDir, `${i}-${base}.intermediary${file.ext}`)
+    await fs.writeFile(intermediary, transformed, 'utf-8')
+    inputFiles.push(intermediary)
+  }
+
+  return inputFiles
+}
+
+/**
+ * Generates a stable anchor for the given file, which can be used to link to
+ * it within a concatenated document.
+ *
+ * @param   {string}  filePath  The absolute path to the file
+ * @param   {string}  id        The file's ID, if applicable
+ *
+ * @return  {string}            The anchor (without hash)
+ */
+function getAnchor (filePath: string, id: string = ''): string {
+  const slug = (id !== '') ? id : path.basename(filePath, path.extname(filePath))
+  return 'note-' + slug.toLowerCase().replace(/[^\p{L}\p{N}_-]+/gu, '-')
+}
+
+/**
+ * Returns a human-readable title for the file.
+ *
+ * @param   {MDFileDescriptor}  descriptor  The file
+ *
+ * @return  {string}                        Its title
+ */
+function getTitle (descriptor: MDFileDescriptor): string {
+  if (descriptor.yamlTitle !== undefined) {
+    return descriptor.yamlTitle
+  } else if (descriptor.firstHeading !== null) {
+    return descriptor.firstHeading
+  } else {
+    return path.basename(descriptor.name, descriptor.ext)
+  }
+}
+
+/**
+ * Replaces all transclusions (`![[note]]` or `![[note#Heading]]`) with the
+ * contents of the transcluded notes. This has to run before any link
+ * resolution, since the transcluded contents may contain links as well.
+ *
+ * @param   {string}               content  The file contents
+ * @param   {PreprocessorContext}  ctx      The preprocessor context
+ *
+ * @return  {Promise<string>}               The new file contents
+ */
+async function transcludeNotes (content: string, ctx: PreprocessorContext): Promise<string> {
+  return await expandTransclusions(content, ctx.file.path, async (query) => {
+    const descriptor = ctx.findFile(query)
+    if (descriptor === undefined) {
+      return undefined
+    }
+
+    return {
+      path: descriptor.path,
+      content: await fs.readFile(descriptor.path, 'utf-8')
+    }
+  })
+}
+
+/**
+ * If links are resolved to internal anchors, each file needs to receive an
+ * anchor at its top so that it can be targeted from other files.
+ *
+ * @param   {string}               content  The file contents
+ * @param   {PreprocessorContext}  ctx      The preprocessor context
+ *
+ * @return  {Promise<string>}               The new file contents
+ */
+async function insertFileAnchor (content: string, ctx: PreprocessorContext): Promise<string> {
+  if (ctx.linkResolution !== 'anchor') {
+    return content
+  }
+
+  const anchor = `[]{#${getAnchor(ctx.file.path, ctx.file.id)}}\n\n`
+
+  // The anchor has to go below a potential YAML frontmatter
+  const { frontmatter, content: body } = extractYamlFrontmatter(content)
+  if (frontmatter === null || !content.endsWith(body)) {
+    return anchor + content
+  }
+
+  const position = content.length - body.length
+  return content.slice(0, position) + '\n' + anchor + body
+}
+
+/**
+ * Resolves Zettelkasten links into cross-references according to the link
+ * resolution setting of the profile. Links that cannot be resolved are left
+ * untouched so that the Lua filters can still strip them.
+ *
+ * @param   {string}               content  The file contents
+ * @param   {PreprocessorContext}  ctx      The preprocessor context
+ *
+ * @return  {Promise<string>}               The new file contents
+ */
+async function resolveLinks (content: string, ctx: PreprocessorContext): Promise<string> {
+  if (ctx.linkResolution === 'none') {
+    return content
+  }
+
+  return mapLinks(content, (linkContent, label) => {
+    const target = ctx.findFile(linkContent)
+    if (target === undefined) {
+      return linkContent
+    }
+
+    const text = label ?? getTitle(target)
+
+    if (ctx.linkResolution === 'title') {
+      return { raw: text }
+    } else if (ctx.linkResolution === 'anchor') {
+      // Only files that are part of this export can be linked to
+      if (!ctx.sourceFiles.some(file => file.path === target.path)) {
+        return { raw: text }
+      }
+      return { raw: `[${text}](#${getAnchor(target.path, target.id)})` }
+    } else {
+      // Link to the file the target would be exported to, assuming it will
+      // be exported next to its source, relative to this export's target
+      const ext = WRITER2EXT[ctx.writer] ?? 'html'
+      const relativeDir = path.relative(ctx.targetDirectory, target.dir)
+      const targetName = `${path.basename(target.name, target.ext)}.${ext}`
+      const href = path.join(relativeDir, targetName).split(path.sep).join('/')
+      return { raw: `[${text}](<${href}>)` }
+    }
+  })
+}
@@ -24,36 +24,53 @@ import { ExporterOptions, ExporterPlugin, ExporterOutput, ExporterAPI } from './
 import sanitize from 'sanitize-filename'
 
 export const plugin: ExporterPlugin = {
+  id: 'textbundle',
+  profiles: [
+    {
+      name: 'Textbundle.yaml', // Fake name
+      reader: 'markdown', // Not completely the truth
+      writer: 'textbundle', // Not even supported by Pandoc
+      isInvalid: false // IT'S ALL FAKE!
+    },
+    {
+      name: 'Textpack.yaml',
+      reader: 'markdown',
+      writer: 'textpack',
+      isInvalid: false
+    }
+  ],
   run: async function (options: ExporterOptions, sourceFiles, ctx: ExporterAPI): Promise<ExporterOutput> {
     const output: ExporterOutput = {
       code: 0,
       stdout: [],
       stderr: [],
-      targetFile: ''
+      targetFile: '',
+      diagnostics: []
     }
 
     if (sourceFiles.length > 1) {
       throw new Error('Cannot export to Textbundle: Please only pass one single file.')
     }
 
-    if (typeof options.profile !== 'string' || ![ 'textbundle', 'textpack' ].includes(options.profile)) {
+    if (![ 'textbundle', 'textpack' ].includes(options.profile.writer)) {
       throw new Error('Cannot run Textbundle exporter: Wrong profile given!')
     }
 
     const baseName = path.basename(options.sourceFiles[0].name, options.sourceFiles[0].ext)
     const title = (options.defaultsOverride?.title !== undefined) ? sanitize(options.defaultsOverride.title, { replacement: '-' }) : baseName
-    const ext = options.profile === 'textpack' ? '.textpack' : '.textbundle'
+    const ext = options.profile.writer === 'textpack' ? '.textpack' : '.textbundle'
     const targetPath = path.join(options.targetDirectory, title + ext)
     try {
       output.targetFile = await makeTextbundle(
         sourceFiles[0],
         targetPath,
-        options.profile === 'textpack',
+        options.profile.writer === 'textpack',
         path.basename(sourceFiles[0])
       )
     } catch (err: any) {
       output.code = 1
       output.stderr.push(err.message)
+      output.diagnostics.push({ severity: 'error', kind: 'other', message: err.message })
     }
 
     return output
@@ -14,6 +14,7 @@
  */
 
 import { PandocProfileMetadata } from '@dts/common/assets'
+import { MDFileDescriptor } from '@dts/common/fsal'
 
 // The exporter only needs a few properties, so by defining a minimal type here
 // we can make the exporter more flexible to accept also objects that only
@@ -22,6 +23,7 @@ interface MinimalFile {
   path: string
   name: string
   ext: string
+  id?: string
 }
 
 interface DefaultsOverride {
@@ -103,12 +105,139 @@ export interface ExporterOutput {
    * you can, for example, open it.
    */
   targetFile: string
+  /**
+   * Structured records of all warnings and errors that occurred during the
+   * export, attributed to the source files wherever possible.
+   */
+  diagnostics: ExportDiagnostic[]
 }
 
 export interface PandocRunnerOutput {
   code: number
   stdout: string[]
   stderr: string[]
+  /**
+   * The stderr output, parsed into structured records
+   */
+  diagnostics: ExportDiagnostic[]
+}
+
+/**
+ * A single warning or error that occurred during an export.
+ */
+export interface ExportDiagnostic {
+  /**
+   * How severe the problem is. Errors usually cause the export to fail.
+   */
+  severity: 'error'|'warning'|'info'
+  /**
+   * What the problem relates to, e.g. a missing citation key or image.
+   */
+  kind: 'citation'|'resource'|'latex'|'syntax'|'other'
+  /**
+   * The message, as reported by Pandoc (may span several lines)
+   */
+  message: string
+  /**
+   * The absolute path to the offending source file, if known
+   */
+  file?: string
+  /**
+   * The offending line (1-based), if known
+   */
+  line?: number
+  /**
+   * The offending column (1-based), if known
+   */
+  column?: number
+}
+
+/**
+ * Determines how Zettelkasten links are resolved prior to exporting. "none"
+ * leaves them as-is (the Lua filters will strip them according to the
+ * preferences), "relative" links to the exported file of the linked note,
+ * "anchor" links to the linked note within the same (concatenated) export, and
+ * "title" replaces the link with the title of the linked note.
+ */
+export type LinkResolution = 'none'|'relative'|'anchor'|'title'
+
+/**
+ * The context every preprocessor step receives.
+ */
+export interface PreprocessorContext {
+  /**
+   * All files that are part of this export
+   */
+  sourceFiles: MinimalFile[]
+  /**
+   * The file that is currently being preprocessed
+   */
+  file: MinimalFile
+  /**
+   * The writer of the profile used for this export
+   */
+  writer: string
+  /**
+   * The directory into which the exported file will be written
+   */
+  targetDirectory: string
+  /**
+   * How to resolve internal links
+   */
+  linkResolution: LinkResolution
+  /**
+   * Looks up a linked file by its ID or filename
+   */
+  findFile: (query: string) => MDFileDescriptor|undefined
+}
+
+/**
+ * A preprocessor step takes the contents of a file and resolves with the
+ * transformed contents.
+ */
+export type PreprocessorStep = (content: string, ctx: PreprocessorContext) => Promise<string>
+
+/**
+ * The progress of an export job. For single-file exports, there is exactly
+ * one profile; for project exports, there is one per selected profile.
+ */
+export interface ExportJobProgress {
+  /**
+   * The file (1-based) that is currently being processed
+   */
+  currentFile: number
+  totalFiles: number
+  /**
+   * The profile (1-based) that is currently being exported
+   */
+  currentProfile: number
+  totalProfiles: number
+}
+
+/**
+ * Describes an export job as it is broadcast to the renderers.
+ */
+export interface ExportJobInfo {
+  id: string
+  /**
+   * A human-readable description of the job, e.g. the exported file's name
+   */
+  label: string
+  status: 'queued'|'running'
+  progress: ExportJobProgress
+}
+
+/**
+ * The handle an export job receives while it runs. The exporter uses it to
+ * report progress and to determine whether the job has been cancelled.
+ */
+export interface ExportJobHandle {
+  id: string
+  /**
+   * Will be aborted once the user cancels the job
+   */
+  signal: AbortSignal
+  reportProgress: (progress: Partial<ExportJobProgress>) => void
 }
 
 /**
@@ -137,6 +266,17 @@ export interface ExporterAPI {
 }
 
 export interface ExporterPlugin {
+  /**
+   * A unique identifier for this plugin.
+   */
+  id: string
+  /**
+   * The faux profiles this plugin provides. Each profile declares a writer ID
+   * which must not be a Pandoc writer. Whenever the user exports using one of
+   * these profiles, this plugin will be run. The default Pandoc exporter does
+   * not declare any profiles, since it handles all regular defaults files.
+   */
+  profiles: PandocProfileMetadata[]
   /**
    * Called whenever this specific exporter needs to run. That is, when the
    * requested format (see ExporterOptions) is available on this exporter.
@@ -15,27 +15,30 @@
 
 import ZettlrCommand from './zettlr-command'
 import { MDFileDescriptor } from '@dts/common/fsal'
+import { extractBlocks, findBlock, NoteBlock, parseBlockReference } from '@common/util/block-references'
 
 const MAX_FILE_PREVIEW_LENGTH = 300
 
 export default class FilePathFindMetaData extends ZettlrCommand {
   constructor (app: any) {
-    super(app, [ 'find-exact', 'file-find-and-return-meta-data' ])
+    super(app, [ 'find-exact', 'find-blocks', 'file-find-and-return-meta-data' ])
   }
 
   /**
-   * This command serves two purposes: For the MarkdownEditor component, it
-   * returns an easy to consume metadata object, and for the GraphView it offers
+   * This command serves three purposes: For the MarkdownEditor component, it
+   * returns an easy to consume metadata object as well as the blocks (headings
+   * and anchors) that links can reference, and for the GraphView it offers
    * a convenient access to the internal link resolution engine to resolve links
    *
    * @param   {string}                         evt  The event
    * @param   {arg}                            arg  The argument, should be a query string
    *
-   * @return  {MDFileDescriptor|undefined|string[]} Returns a MetaDescriptor, undefined, or an array
+   * @return  {MDFileDescriptor|undefined|NoteBlock[]|string[]} Returns a MetaDescriptor, undefined, or an array
    */
-  async run (evt: string, arg: any): Promise<MDFileDescriptor|undefined|any[]> {
+  async run (evt: string, arg: any): Promise<MDFileDescriptor|undefined|NoteBlock[]|any[]> {
     // Quick'n'dirty command to return the Meta descriptor for the given query
-    const descriptor = this._app.fsal.findExact(arg)
+    const { target, block } = parseBlockReference(arg)
+    const descriptor = this._app.fsal.findExact(target)
     if (descriptor === undefined) {
       return undefined
     }
@@ -45,11 +48,18 @@ export default class FilePathFindMetaData extends ZettlrCommand {
     }
 
     const contents = await this._app.fsal.loadAnySupportedFile(descriptor.path)
-    const lines = contents.split('\n')
+
+    if (evt === 'find-blocks') {
+      return extractBlocks(contents)
+    }
+
+    // If the link references a block, preview only that block
+    const referencedBlock = (block !== undefined) ? findBlock(contents, block) : undefined
+    const lines = (referencedBlock !== undefined) ? referencedBlock.content.split('\n') : contents.split('\n')
 
     let preview = ''
     let i = 0
-    while (preview.length <= MAX_FILE_PREVIEW_LENGTH && i < 10) {
+    while (preview.length <= MAX_FILE_PREVIEW_LENGTH && i < 10 && i < lines.length) {
       const remainingChars = MAX_FILE_PREVIEW_LENGTH - preview.length
       if (lines[i].length <= remainingChars) {
         preview += lines[i] + '\n'
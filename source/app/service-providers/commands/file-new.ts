@@ -18,7 +18,33 @@ import path from 'path'
 import sanitize from 'sanitize-filename'
 import generateFilename from '@common/util/generate-filename'
 import { hasMdOrCodeExt } from '@providers/fsal/util/is-md-or-code-file'
-import { app } from 'electron'
+import { getIDRE } from '@common/regular-expressions'
+import { extractTabstops, getSnippetVariables, replaceSnippetVariables, TabstopRange } from '@common/util/snippet-template'
+import { app, clipboard } from 'electron'
+
+/**
+ * Adds the ID to the YAML frontmatter of a new file, which is created if the
+ * file does not have one yet. Tabstops after the insertion are moved accordingly.
+ *
+ * @param   {string}              content   The contents of the new file
+ * @param   {TabstopRange[][]}    tabstops  The tabstops within the contents
+ * @param   {string}              id        The ID of the new file
+ *
+ * @return  {{ content: string, tabstops: TabstopRange[][] }}  The new contents
+ *                                                             and tabstops
+ */
+function addIdToFrontmatter (content: string, tabstops: TabstopRange[][], id: string): { content: string, tabstops: TabstopRange[][] } {
+  const hasFrontmatter = content.startsWith('---\n')
+  const position = hasFrontmatter ? 4 : 0
+  const insert = hasFrontmatter ? `id: ${id}\n` : `---\nid: ${id}\n---\n\n`
+
+  return {
+    content: content.substring(0, position) + insert + content.substring(position),
+    tabstops: tabstops.map(ranges => ranges.map(({ from, to }) => {
+      return (from < position) ? { from, to } : { from: from + insert.length, to: to + insert.length }
+    }))
+  }
+}
 
 export default class FileNew extends ZettlrCommand {
   constructor (app: any) {
@@ -31,14 +57,19 @@ export default class FileNew extends ZettlrCommand {
    * @param  {Object} arg An object containing a hash of containing directory and a file name.
    * @return {void}     This function does not return anything.
    */
-  async run (evt: string, arg: { leafId?: string, windowId?: string, name?: string, path?: string, type: 'md'|'yaml'|'json'|'tex' }): Promise<void> {
+  async run (evt: string, arg: { leafId?: string, windowId?: string, name?: string, path?: string, type: 'md'|'yaml'|'json'|'tex', template?: string|null, id?: string }): Promise<void> {
     // A few notes on how this command works with respect to its input. As you
     // can see, all parameters are optional and all which are missing will be
     // inferred from context (otherwise the command will fail). The type
     // defaults to Markdown, obviously, the path to the current directory and
     // the name has the following function: If it is given, the user will not
     // be asked for a filename, but if it's missing, a new name will be
-    // generated and the user is asked to confirm the name.
+    // generated and the user is asked to confirm the name. Markdown files are
+    // created from the given note template, or the default template of the
+    // directory. Pass null as the template to create an empty file. If the
+    // caller has already generated an ID for the file, pass it as the id. If
+    // neither the filename nor the template contains it, it is added to the
+    // frontmatter of the new file.
     const shouldPromptUser = this._app.config.get('newFileDontPrompt') === false
     const type = (arg.type !== undefined) ? arg.type : 'md'
     const filenamePattern = this._app.config.get('newFileNamePattern')
@@ -140,15 +171,29 @@ export default class FileNew extends ZettlrCommand {
         }
       }
 
+      const fullPath = path.join(dir.path, filename)
+      const templateName = (arg.template !== undefined) ? arg.template : dir.settings.template
+      let content = ''
+      let tabstops: TabstopRange[][] = []
+      if (type === 'md' && templateName !== null && templateName !== '') {
+        ({ content, tabstops } = await this.expandTemplate(templateName, fullPath, arg.id))
+      }
+
+      if (type === 'md' && arg.id !== undefined && !filename.includes(arg.id) && !content.includes(arg.id)) {
+        ({ content, tabstops } = addIdToFrontmatter(content, tabstops, arg.id))
+      }
+
       // First create the file
       await this._app.fsal.createFile(dir, {
         name: filename,
-        content: '',
+        content,
         type: (type === 'md') ? 'file' : 'code'
       })
 
-      // And directly thereafter, open the file
-      await this._app.documents.openFile(windowId, leafId, path.join(dir.path, filename), true)
+      // And directly thereafter, open the file. Any tabstops of the template
+      // will be activated in the editor.
+      this._app.documents.setPendingTabstops(fullPath, tabstops)
+      await this._app.documents.openFile(windowId, leafId, fullPath, true)
     } catch (err: any) {
       this._app.log.error(`Could not create file: ${err.message as string}`)
       this._app.windows.prompt({
@@ -158,4 +203,42 @@ export default class FileNew extends ZettlrCommand {
       })
     }
   }
+
+  /**
+   * Loads a note template and replaces its variables for the new file. If the
+   * template cannot be loaded, the file will simply be empty.
+   *
+   * @param   {string}  templateName  The name of the template
+   * @param   {string}  filePath      The absolute path of the new file
+   * @param   {string}  id            Optional, the ID of the new file
+   *
+   * @return  {Promise<{ content: string, tabstops: TabstopRange[][] }>}  The
+   *                     contents of the new file and the template's tabstops
+   */
+  private async expandTemplate (templateName: string, filePath: string, id?: string): Promise<{ content: string, tabstops: TabstopRange[][] }> {
+    let template: string
+    try {
+      template = await this._app.assets.getTemplate(templateName)
+    } catch (err: any) {
+      this._app.log.warning(`Could not load template ${templateName}: ${String(err.message)}`)
+      return { content: '', tabstops: [] }
+    }
+
+    // Unless given, the ID of the new file can only be derived from its name
+    const idMatch = getIDRE(this._app.config.get('zkn.idRE')).exec(path.basename(filePath, path.extname(filePath)))
+    const variables = getSnippetVariables(
+      filePath,
+      id ?? idMatch?.[1] ?? '',
+      clipboard.readText(),
+      this._app.config.get('zkn.idGen')
+    )
+
+    if (id !== undefined) {
+      variables.ZKN_ID = id
+    }
+
+    // NOTE: Tabstops are positions in the document, so normalize linefeeds
+    const { text, tabstops } = extractTabstops(replaceSnippetVariables(template.replace(/\r\n/g, '\n'), variables))
+    return { content: text, tabstops }
+  }
 }
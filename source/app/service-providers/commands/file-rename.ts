@@ -20,6 +20,7 @@ import { dialog } from 'electron'
 import { promises as fs } from 'fs'
 import { trans } from '@common/i18n-main'
 import replaceLinks from '@common/util/replace-links'
+import moveAndUpdateFileLinks from './util/update-file-links'
 
 const ALLOWED_FILETYPES = mdFileExtensions(true)
 const CODE_FILETYPES = codeFileExtensions(true)
@@ -84,8 +85,10 @@ export default class FileRename extends ZettlrCommand {
       const oldName = file.name
       const inboundLinks = this._app.links.retrieveInbound(file.path)
 
-      // Now, rename the file.
-      await this._app.fsal.renameFile(file, newName)
+      // Now, rename the file, and fix any relative links pointing to it.
+      await moveAndUpdateFileLinks(this._app, file.path, path.join(file.dir, newName), async () => {
+        await this._app.fsal.renameFile(file, newName)
+      })
 
       // Finally, let's check if we can update some internal links to that file.
       if (inboundLinks.length > 0) {
@@ -15,6 +15,7 @@
 
 import ZettlrCommand from './zettlr-command'
 import isDir from '@common/util/is-dir'
+import { parseBlockReference } from '@common/util/block-references'
 
 export default class ForceOpen extends ZettlrCommand {
   constructor (app: any) {
@@ -25,9 +26,9 @@ export default class ForceOpen extends ZettlrCommand {
     * Force-Opens a file, after click on internal link
     * @param {String} evt The event name
     * @param  {Object} payload the parameters of the file to be opened
-    * @return {Boolean} Whether the file was successfully opened.
+    * @return {String|undefined} The path of the opened file, if it existed.
     */
-  async run (evt: string, payload: any): Promise<void> {
+  async run (evt: string, payload: any): Promise<string|undefined> {
     let { windowId, linkContents, newTab, leafId } = payload
 
     if (windowId === undefined) {
@@ -40,17 +41,20 @@ export default class ForceOpen extends ZettlrCommand {
     const autoCreate: boolean = this._app.config.get('zkn.autoCreateLinkedFiles')
     const customDir: string = this._app.config.get('zkn.customDirectory')
 
-    const file = this._app.fsal.findExact(linkContents)
+    // Links may point to a block within the file, which the caller handles
+    const { target } = parseBlockReference(linkContents)
+    const file = this._app.fsal.findExact(target)
 
     // Now we have a file (if not, create a new one if the user wishes so)
     if (file !== undefined) {
       await this._app.documents.openFile(windowId, leafId, file.path, newTab)
+      return file.path
     } else if (autoCreate && isDir(customDir)) {
       // Call the file-new command on the application, which'll do all
       // necessary steps for us.
-      await this._app.commands.run('file-new', { windowId, leafId, name: linkContents, path: customDir })
+      await this._app.commands.run('file-new', { windowId, leafId, name: target, path: customDir })
     } else if (autoCreate && !isDir(customDir)) {
-      await this._app.commands.run('file-new', { windowId, leafId, name: linkContents })
+      await this._app.commands.run('file-new', { windowId, leafId, name: target })
     }
   }
 }
@@ -0,0 +1,103 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        ImportVault command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This command imports a whole Obsidian, Logseq or Roam vault.
+ *
+ * END HEADER
+ */
+
+import ZettlrCommand from './zettlr-command'
+import { trans } from '@common/i18n-main'
+import { analyzeVault, writeVault } from './importer/import-vault'
+import path from 'path'
+
+/**
+ * How many files with unresolved links to list in the report at most
+ *
+ * @var {number}
+ */
+const MAX_REPORTED_FILES = 20
+
+export default class ImportVault extends ZettlrCommand {
+  constructor (app: any) {
+    super(app, 'import-vault')
+  }
+
+  /**
+    * Asks the user for a vault directory, presents a dry-run report of the
+    * import and, if the user agrees, imports the vault into the open directory.
+    * @param {String} evt The event name
+    * @param {Object} arg The command arguments.
+    * @return {Promise<boolean>} Whether the vault has been imported
+    */
+  async run (evt: string, arg: any): Promise<boolean> {
+    const openDirectory = this._app.fsal.openDirectory
+    if (openDirectory === null) {
+      this._app.notifications.show(trans('You have to select a directory to import to.'))
+      return false
+    }
+
+    const dirList = await this._app.windows.askDir(trans('Choose vault'), null, trans('Import'))
+    if (dirList.length === 0) {
+      return false
+    }
+
+    try {
+      const plan = await analyzeVault(dirList[0], openDirectory.path, this._app.config)
+      const withUnresolved = plan.notes.filter(note => note.unresolvedLinks.length > 0)
+      const unresolvedCount = withUnresolved.reduce((sum, note) => sum + note.unresolvedLinks.length, 0)
+
+      const report: string[] = [
+        trans('The vault will be imported into %s.', path.basename(plan.targetDir)),
+        trans('Notes: %s', plan.notes.length),
+        trans('Attachments: %s', plan.attachments.length),
+        trans('Unresolved links: %s', unresolvedCount)
+      ]
+
+      if (withUnresolved.length > 0) {
+        report.push('')
+        for (const note of withUnresolved.slice(0, MAX_REPORTED_FILES)) {
+          report.push(`${path.relative(plan.vaultDir, note.source)}: ${note.unresolvedLinks.join(', ')}`)
+        }
+
+        if (withUnresolved.length > MAX_REPORTED_FILES) {
+          report.push(trans('… and %s more files', withUnresolved.length - MAX_REPORTED_FILES))
+        }
+      }
+
+      for (const note of withUnresolved) {
+        this._app.log.warning(`[Importer] Unresolved links in ${note.source}: ${note.unresolvedLinks.join(', ')}`)
+      }
+
+      const shouldImport = await this._app.windows.confirmImport(
+        trans('Import vault %s?', path.basename(plan.vaultDir)),
+        report.join('\n')
+      )
+
+      if (!shouldImport) {
+        return false
+      }
+
+      await writeVault(plan)
+      this._app.log.info(`[Importer] Imported vault ${plan.vaultDir} into ${plan.targetDir}`)
+      this._app.notifications.show(trans('Imported %s notes and %s attachments.', plan.notes.length, plan.attachments.length))
+    } catch (err: any) {
+      this._app.log.error(`[Importer] Could not import vault ${dirList[0]}: ${String(err.message)}`, err)
+      this._app.windows.prompt({
+        type: 'error',
+        title: trans('Import'),
+        message: trans('Could not import vault'),
+        detail: err.message
+      })
+      return false
+    }
+
+    return true
+  }
+}
@@ -57,19 +57,31 @@ export default class ImportFiles extends ZettlrCommand {
     // Now import.
     this._app.notifications.show(trans('Importing. Please wait …'))
     try {
-      let ret = await makeImport(fileList, openDirectory, this._app.assets, (file: string, error: string) => {
-        this._app.log.error(`[Importer] Could not import file ${file}: ${error}`)
-        // This callback gets called whenever there is an error while running pandoc.
-        this._app.notifications.show(trans('Couldn\'t import %s.', path.basename(file)))
-      }, (file: string) => {
-        // And this on each success!
-        this._app.notifications.show(trans('%s imported successfully.', path.basename(file)))
-      })
+      const results = await makeImport(fileList, openDirectory, this._app.assets, this._app.config, this._app.fsal)
 
-      if (ret.length > 0) {
-        // Some files failed to import.
-        this._app.notifications.show(trans('The following %s files could not be imported, because their filetype is unknown: %s', ret.length, ret.map((x) => { return path.basename(x) }).join(', ')))
+      // Afterwards, tell the user what has been created from which file
+      const summary: string[] = []
+      for (const result of results) {
+        const source = path.basename(result.source)
+        if (result.target === undefined) {
+          this._app.log.error(`[Importer] Could not import file ${result.source}: ${String(result.error)}`)
+          summary.push(trans('Couldn\'t import %s.', source) + ` (${String(result.error)})`)
+        } else if (result.assets.length > 0) {
+          this._app.log.info(`[Importer] Imported ${result.source} as ${result.target} (${result.assets.length} assets)`)
+          summary.push(trans('%s → %s (%s media files)', source, path.basename(result.target), result.assets.length))
+        } else {
+          this._app.log.info(`[Importer] Imported ${result.source} as ${result.target}`)
+          summary.push(trans('%s → %s', source, path.basename(result.target)))
+        }
       }
+
+      const succeeded = results.filter(result => result.target !== undefined).length
+      this._app.windows.prompt({
+        type: (succeeded < results.length) ? 'warning' : 'info',
+        title: trans('Import'),
+        message: trans('Imported %s of %s files.', succeeded, results.length),
+        detail: summary.join('\n')
+      })
     } catch (err: any) {
       // There has been an error on importing (e.g. Pandoc was not found)
       // This catches this and displays it.
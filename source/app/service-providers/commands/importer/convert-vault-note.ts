@@ -0,0 +1,288 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        convertVaultNote
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Converts a single note from an Obsidian, Logseq or Roam
+ *                  vault into the Markdown flavour of this app.
+ *
+ * END HEADER
+ */
+
+import YAML from 'yaml'
+import extractYamlFrontmatter from '@common/util/extract-yaml-frontmatter'
+
+/**
+ * A note within the vault that links can point to.
+ */
+export interface VaultNoteTarget {
+  /**
+   * The filename of the imported note, without extension
+   */
+  filename: string
+  /**
+   * The note's Zettelkasten ID, if it has one
+   */
+  id?: string
+  /**
+   * A human-readable name of the note
+   */
+  title: string
+}
+
+export interface VaultConversionContext {
+  /**
+   * Looks up a note by its page name
+   */
+  resolveNote: (name: string) => VaultNoteTarget|undefined
+  /**
+   * Looks up an attachment and returns its path relative to the current note
+   */
+  resolveAttachment: (name: string) => string|undefined
+  /**
+   * Corresponds to the setting zkn.linkFilenameOnly
+   */
+  linkFilenameOnly: boolean
+  /**
+   * Corresponds to the setting zkn.linkWithFilename
+   */
+  linkWithFilename: 'always'|'never'|'withID'
+}
+
+export interface ConvertedVaultNote {
+  content: string
+  /**
+   * All links, embeds and block references that could not be resolved
+   */
+  unresolvedLinks: string[]
+}
+
+/**
+ * Matches Logseq and Roam properties, e.g. "tags:: one, two"
+ *
+ * @var {RegExp}
+ */
+const PROPERTY_RE = /^([A-Za-z][\w-]*):: ?(.*)$/
+
+/**
+ * Matches Roam embeds, e.g. {{embed: [[Page]]}} or {{[[embed]]: [[Page]]}}
+ *
+ * @var {RegExp}
+ */
+const ROAM_EMBED_RE = /\{\{(?:\[\[)?embed(?:\]\])?:\s*\[\[([^\]\n]+?)\]\]\s*\}\}/g
+
+/**
+ * Matches tags that contain spaces, e.g. #[[multi word tag]]
+ *
+ * @var {RegExp}
+ */
+const BRACKET_TAG_RE = /#\[\[([^\]\n]+?)\]\]/g
+
+/**
+ * Matches wiki links and embeds, e.g. [[Page]], [[Page#Heading|Alias]], ![[image.png]]
+ *
+ * @var {RegExp}
+ */
+const WIKI_LINK_RE = /(!?)\[\[([^[\]\n]+?)\]\]/g
+
+/**
+ * Matches Logseq and Roam block references, e.g. ((64f1a2b3-...))
+ *
+ * @var {RegExp}
+ */
+const BLOCK_REF_RE = /\(\(([\w-]{6,})\)\)/g
+
+/**
+ * Turns a tag name into one that can be used in this app.
+ *
+ * @param   {string}  tag  The original tag
+ *
+ * @return  {string}       The normalised tag (without #)
+ */
+function normaliseTag (tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/^\[\[(.*)\]\]$/, '$1').trim().replace(/\s+/g, '-')
+}
+
+/**
+ * Parses the value of a list property, e.g. "[[one]], #two, three"
+ *
+ * @param   {string}    value  The property value
+ *
+ * @return  {string[]}         The list entries
+ */
+function parseListProperty (value: string): string[] {
+  return value.split(',').map(entry => normaliseTag(entry)).filter(entry => entry !== '')
+}
+
+/**
+ * Extracts the page properties from the top of a Logseq or Roam page and merges
+ * them with a potentially existing YAML frontmatter.
+ *
+ * @param   {string}  markdown  The note contents
+ *
+ * @return  {Object}            The (merged) frontmatter and the remaining content
+ */
+function extractProperties (markdown: string): { frontmatter: Record<string, any>|null, content: string } {
+  const { frontmatter, content } = extractYamlFrontmatter(markdown)
+  const lines = content.split('\n')
+  const properties: Record<string, any> = {}
+
+  let i = 0
+  for (; i < lines.length; i++) {
+    const match = PROPERTY_RE.exec(lines[i])
+    if (match === null) {
+      break
+    }
+
+    const key = match[1].toLowerCase()
+    if ([ 'tags', 'alias', 'aliases' ].includes(key)) {
+      properties[key === 'alias' ? 'aliases' : key] = parseListProperty(match[2])
+    } else {
+      properties[key] = match[2].trim()
+    }
+  }
+
+  if (i === 0 && frontmatter === null) {
+    return { frontmatter: null, content }
+  }
+
+  const merged: Record<string, any> = { ...(frontmatter ?? {}), ...properties }
+  // Obsidian allows a single string of space- or comma-separated tags
+  if (typeof merged.tags === 'string') {
+    merged.tags = merged.tags.split(/[\s,]+/).map(tag => normaliseTag(tag)).filter(tag => tag !== '')
+  } else if (Array.isArray(merged.tags)) {
+    merged.tags = merged.tags.map((tag: any) => normaliseTag(String(tag)))
+  }
+
+  return { frontmatter: merged, content: lines.slice(i).join('\n').replace(/^\n+/, '') }
+}
+
+/**
+ * Builds a link to the given note according to the link settings.
+ *
+ * @param   {VaultNoteTarget}         target  The linked note
+ * @param   {string|undefined}        alias   An optional link text
+ * @param   {VaultConversionContext}  ctx     The conversion context
+ *
+ * @return  {string}                          The link
+ */
+function makeLink (target: VaultNoteTarget, alias: string|undefined, ctx: VaultConversionContext): string {
+  const useId = !ctx.linkFilenameOnly && target.id !== undefined
+  const inner = useId ? target.id as string : target.filename
+
+  if (alias !== undefined) {
+    return `[${alias}]([[${inner}]])`
+  }
+
+  // Only add the display name if the link itself does not already show it
+  const addName = useId && (ctx.linkWithFilename === 'always' || ctx.linkWithFilename === 'withID')
+  return addName ? `[[${inner}]] ${target.title}` : `[[${inner}]]`
+}
+
+/**
+ * Wraps a path in angle brackets if it would otherwise break the link.
+ *
+ * @param   {string}  linkPath  The path
+ *
+ * @return  {string}            The path, safe to use in Markdown links
+ */
+function safePath (linkPath: string): string {
+  return /[\s()]/.test(linkPath) ? `<${linkPath}>` : linkPath
+}
+
+/**
+ * Converts a single line of the note body.
+ *
+ * @param   {string}                  line        The line
+ * @param   {VaultConversionContext}  ctx         The conversion context
+ * @param   {string[]}                unresolved  Collects unresolved links
+ *
+ * @return  {string}                              The converted line
+ */
+function convertLine (line: string, ctx: VaultConversionContext, unresolved: string[]): string {
+  return line
+    .replace(ROAM_EMBED_RE, '![[$1]]')
+    .replace(BRACKET_TAG_RE, (match, tag: string) => '#' + normaliseTag(tag))
+    .replace(WIKI_LINK_RE, (match, bang: string, linkContent: string) => {
+      const isEmbed = bang === '!'
+      const [ targetAndHeading, alias ] = linkContent.split(/\\?\|/)
+      const [ name, heading ] = targetAndHeading.split('#')
+      const trimmedName = name.trim()
+
+      // Links to headings within the same note cannot be represented
+      if (trimmedName === '') {
+        return (alias !== undefined) ? alias : (heading ?? '')
+      }
+
+      const isAttachment = /\.[a-z0-9]+$/i.test(trimmedName) && !/\.(md|markdown)$/i.test(trimmedName)
+      if (isAttachment) {
+        const attachmentPath = ctx.resolveAttachment(trimmedName)
+        if (attachmentPath === undefined) {
+          unresolved.push(trimmedName)
+          return match
+        }
+
+        const text = alias ?? trimmedName
+        return `${isEmbed ? '!' : ''}[${text}](${safePath(attachmentPath)})`
+      }
+
+      const target = ctx.resolveNote(trimmedName.replace(/\.(md|markdown)$/i, ''))
+      if (target === undefined) {
+        unresolved.push(trimmedName)
+        return match
+      }
+
+      if (isEmbed) {
+        // Obsidian block references (#^blockid) are not supported by transclusions
+        const section = (heading !== undefined && !heading.startsWith('^')) ? '#' + heading.trim() : ''
+        const inner = (!ctx.linkFilenameOnly && target.id !== undefined) ? target.id : target.filename
+        return `![[${inner}${section}]]`
+      }
+
+      return makeLink(target, alias?.trim(), ctx)
+    })
+    .replace(BLOCK_REF_RE, (match) => {
+      unresolved.push(match)
+      return match
+    })
+}
+
+/**
+ * Converts a note from an Obsidian, Logseq or Roam vault. This turns page
+ * properties into a YAML frontmatter, normalises tags, and rewrites wiki links
+ * and embeds so that they point to the imported notes and attachments.
+ *
+ * @param   {string}                  markdown  The original note
+ * @param   {VaultConversionContext}  ctx       The conversion context
+ *
+ * @return  {ConvertedVaultNote}                The converted note
+ */
+export default function convertVaultNote (markdown: string, ctx: VaultConversionContext): ConvertedVaultNote {
+  const normalised = markdown.replace(/\r\n/g, '\n')
+  const { frontmatter, content } = extractProperties(normalised)
+  const unresolvedLinks: string[] = []
+
+  let inCodeBlock = false
+  const lines = content.split('\n').map(line => {
+    if (/^\s*(`{3,}|~{3,})/.test(line)) {
+      inCodeBlock = !inCodeBlock
+      return line
+    }
+
+    return inCodeBlock ? line : convertLine(line, ctx, unresolvedLinks)
+  })
+
+  let converted = lines.join('\n')
+  if (frontmatter !== null && Object.keys(frontmatter).length > 0) {
+    converted = `---\n${YAML.stringify(frontmatter)}---\n\n${converted}`
+  }
+
+  return {
+    content: converted,
+    unresolvedLinks: [...new Set(unresolvedLinks)]
+  }
+}
@@ -25,9 +25,9 @@ import { DirDescriptor } from '@dts/common/fsal'
  * Imports both textpacks and textbundles to the target directory.
  * @param  {Object} bundle The file object as returned by the integrity checker
  * @param  {String} target The destination directory
- * @return {void}        This thing only throws up.
+ * @return {Object}        The created note and the copied assets
  */
-export default async function importTextbundle (bundle: any, target: DirDescriptor): Promise<void> {
+export default async function importTextbundle (bundle: any, target: DirDescriptor): Promise<{ target: string, assets: string[] }> {
   if (bundle.knownFormat === 'textpack') {
     // We need to unzip it before importing.
     let file = new ZIP(bundle.path)
@@ -79,11 +79,14 @@ export default async function importTextbundle (bundle: any, target: DirDescript
   }
 
   // Now simply copy over all files
+  const copiedAssets: string[] = []
   for (let f of bdl) {
     if (isFile(path.join(bundle.path, 'assets', f))) {
       await fs.copyFile(path.join(bundle.path, 'assets', f), path.join(assets, f))
+      copiedAssets.push(path.join(assets, f))
     }
   }
 
   // Import should be complete now
+  return { target: mdName, assets: copiedAssets }
 }
@@ -0,0 +1,291 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        analyzeVault, writeVault
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Imports whole Obsidian, Logseq or Roam vaults. The import
+ *                  happens in two steps: first, the vault is analysed and all
+ *                  notes are converted in memory, so that the user can review
+ *                  unresolved links before anything is written to disk.
+ *
+ * END HEADER
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import convertVaultNote, { VaultNoteTarget } from './convert-vault-note'
+import extractYamlFrontmatter from '@common/util/extract-yaml-frontmatter'
+import ignoreDir from '@common/util/ignore-dir'
+import isDir from '@common/util/is-dir'
+import isFile from '@common/util/is-file'
+import { hasMarkdownExt } from '@providers/fsal/util/is-md-or-code-file'
+import extractFileId from '@providers/fsal/util/extract-file-id'
+import ConfigProvider from '@providers/config'
+
+/**
+ * A single note of the vault, already converted.
+ */
+export interface VaultImportNote {
+  /**
+   * The absolute path of the original note
+   */
+  source: string
+  /**
+   * The absolute path the converted note will be written to
+   */
+  target: string
+  /**
+   * The converted contents
+   */
+  content: string
+  /**
+   * Links and embeds in this note that could not be resolved
+   */
+  unresolvedLinks: string[]
+}
+
+/**
+ * The result of analysing a vault. Nothing has been written at this point.
+ */
+export interface VaultImportPlan {
+  /**
+   * The vault directory
+   */
+  vaultDir: string
+  /**
+   * The directory the vault will be imported into
+   */
+  targetDir: string
+  notes: VaultImportNote[]
+  /**
+   * All attachments to be copied, as absolute source and target paths
+   */
+  attachments: Array<{ source: string, target: string }>
+}
+
+/**
+ * Used internally to index the notes before converting them.
+ */
+interface IndexedNote {
+  source: string
+  target: string
+  content: string
+  names: string[]
+  meta: VaultNoteTarget
+}
+
+/**
+ * Recursively collects all files within the vault, skipping hidden directories
+ * (e.g., .obsidian, .trash, .git) as well as Logseq's configuration directory.
+ *
+ * @param   {string}             dir   The directory to scan
+ * @param   {string}             root  The vault root
+ *
+ * @return  {Promise<string[]>}        The absolute paths of all files
+ */
+async function collectFiles (dir: string, root: string): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const absPath = path.join(dir, entry.name)
+    if (entry.name.startsWith('.')) {
+      continue
+    }
+
+    if (entry.isDirectory()) {
+      const isLogseqConfig = dir === root && entry.name === 'logseq' && isFile(path.join(absPath, 'config.edn'))
+      if (!isLogseqConfig && !ignoreDir(absPath)) {
+        files.push(...await collectFiles(absPath, root))
+      }
+    } else if (entry.isFile()) {
+      files.push(absPath)
+    }
+  }
+
+  return files
+}
+
+/**
+ * Logseq encodes namespaces in filenames, e.g. "Parent___Child" or
+ * "Parent%2FChild" for the page "Parent/Child".
+ *
+ * @param   {string}  filename  The filename without extension
+ *
+ * @return  {string}            The page name
+ */
+function decodePageName (filename: string): string {
+  let name = filename.replace(/___/g, '/')
+  try {
+    name = decodeURIComponent(name)
+  } catch (err) {
+    // Keep the name as is
+  }
+  return name
+}
+
+/**
+ * Extracts all names under which a note can be linked, as well as its ID and
+ * display title.
+ *
+ * @param   {string}  absPath    The path to the note
+ * @param   {string}  vaultDir   The vault root
+ * @param   {string}  content    The note contents
+ * @param   {string}  idPattern  The Zettelkasten ID pattern
+ *
+ * @return  {Object}             The names and link target
+ */
+function indexNote (absPath: string, vaultDir: string, content: string, idPattern: string): { names: string[], meta: VaultNoteTarget } {
+  const filename = path.basename(absPath, path.extname(absPath))
+  const relative = path.relative(vaultDir, absPath).split(path.sep).join('/')
+  const pageName = decodePageName(filename)
+  const names = [ filename, pageName, relative.replace(/\.[^.]+$/, '') ]
+  let title = pageName
+
+  const { frontmatter, content: body } = extractYamlFrontmatter(content)
+  const aliases = frontmatter?.aliases ?? frontmatter?.alias
+  if (Array.isArray(aliases)) {
+    names.push(...aliases.map(alias => String(alias)))
+  } else if (typeof aliases === 'string') {
+    names.push(...aliases.split(',').map(alias => alias.trim()))
+  }
+
+  if (typeof frontmatter?.title === 'string') {
+    title = frontmatter.title
+    names.push(frontmatter.title)
+  }
+
+  // Logseq/Roam page properties at the top of the note
+  for (const line of body.split('\n')) {
+    const match = /^([A-Za-z][\w-]*):: ?(.*)$/.exec(line)
+    if (match === null) {
+      break
+    }
+
+    const key = match[1].toLowerCase()
+    if (key === 'title') {
+      title = match[2].trim()
+      names.push(title)
+    } else if (key === 'alias' || key === 'aliases') {
+      names.push(...match[2].split(',').map(alias => alias.trim().replace(/^\[\[(.*)\]\]$/, '$1')))
+    }
+  }
+
+  // IDs within links belong to other notes
+  const id = extractFileId(filename, content, idPattern)
+  const meta: VaultNoteTarget = { filename, title }
+  if (id !== '') {
+    meta.id = id
+  }
+
+  return { names: names.filter(name => name !== ''), meta }
+}
+
+/**
+ * Returns a directory path that does not exist yet.
+ *
+ * @param   {string}  dirPath  The desired path
+ *
+ * @return  {string}           A path that does not yet exist
+ */
+function getUniqueDir (dirPath: string): string {
+  let candidate = dirPath
+  let i = 1
+  while (isDir(candidate) || isFile(candidate)) {
+    candidate = `${dirPath}-${i}`
+    i++
+  }
+  return candidate
+}
+
+/**
+ * Analyses the given vault and converts all notes in memory. The resulting
+ * plan can be presented to the user before writing it with writeVault.
+ *
+ * @param   {string}                    vaultDir     The vault directory
+ * @param   {string}                    dirToImport  The directory to import into
+ * @param   {ConfigProvider}            config       The config provider
+ *
+ * @return  {Promise<VaultImportPlan>}               The import plan
+ */
+export async function analyzeVault (vaultDir: string, dirToImport: string, config: ConfigProvider): Promise<VaultImportPlan> {
+  const targetDir = getUniqueDir(path.join(dirToImport, path.basename(vaultDir)))
+  const idPattern: string = config.get('zkn.idRE')
+  const files = await collectFiles(vaultDir, vaultDir)
+
+  const notes: IndexedNote[] = []
+  const nameIndex = new Map<string, IndexedNote>()
+  const attachments: Array<{ source: string, target: string }> = []
+  const attachmentIndex = new Map<string, string>()
+
+  for (const file of files) {
+    const relative = path.relative(vaultDir, file)
+    if (hasMarkdownExt(file)) {
+      const content = await fs.readFile(file, 'utf-8')
+      const target = path.join(targetDir, relative.replace(/\.[^.]+$/, '.md'))
+      const { names, meta } = indexNote(file, vaultDir, content, idPattern)
+      const note: IndexedNote = { source: file, target, content, names, meta }
+      notes.push(note)
+      for (const name of names) {
+        // The first note with a given name wins, just as in Obsidian
+        if (!nameIndex.has(name.toLowerCase())) {
+          nameIndex.set(name.toLowerCase(), note)
+        }
+      }
+    } else {
+      const target = path.join(targetDir, relative)
+      attachments.push({ source: file, target })
+      for (const name of [ path.basename(file), relative.split(path.sep).join('/') ]) {
+        if (!attachmentIndex.has(name.toLowerCase())) {
+          attachmentIndex.set(name.toLowerCase(), target)
+        }
+      }
+    }
+  }
+
+  const linkFilenameOnly: boolean = config.get('zkn.linkFilenameOnly')
+  const linkWithFilename: 'always'|'never'|'withID' = config.get('zkn.linkWithFilename')
+
+  return {
+    vaultDir,
+    targetDir,
+    attachments,
+    notes: notes.map(note => {
+      const { content, unresolvedLinks } = convertVaultNote(note.content, {
+        resolveNote: (name) => nameIndex.get(name.toLowerCase())?.meta,
+        resolveAttachment: (name) => {
+          const target = attachmentIndex.get(name.toLowerCase())
+          if (target === undefined) {
+            return undefined
+          }
+          return path.relative(path.dirname(note.target), target).split(path.sep).join('/')
+        },
+        linkFilenameOnly,
+        linkWithFilename
+      })
+
+      return { source: note.source, target: note.target, content, unresolvedLinks }
+    })
+  }
+}
+
+/**
+ * Writes all notes and attachments of the given plan to disk.
+ *
+ * @param   {VaultImportPlan}  plan  The plan, as returned by analyzeVault
+ */
+export async function writeVault (plan: VaultImportPlan): Promise<void> {
+  await fs.mkdir(plan.targetDir, { recursive: true })
+
+  for (const note of plan.notes) {
+    await fs.mkdir(path.dirname(note.target), { recursive: true })
+    await fs.writeFile(note.target, note.content, 'utf-8')
+  }
+
+  for (const attachment of plan.attachments) {
+    await fs.mkdir(path.dirname(attachment.target), { recursive: true })
+    await fs.copyFile(attachment.source, attachment.target)
+  }
+}
@@ -21,20 +21,67 @@ import YAML from 'yaml'
 // Module utilities
 import checkImportIntegrity from './check-import-integrity'
 import importTextbundle from './import-textbundle'
+import rewriteImagePaths from './rewrite-image-paths'
 import { DirDescriptor } from '@dts/common/fsal'
 import { app } from 'electron'
 import { trans } from '@common/i18n-main'
 import AssetsProvider from '@providers/assets'
+import ConfigProvider from '@providers/config'
+import FSAL from '@providers/fsal'
 import { PandocProfileMetadata } from '@dts/common/assets'
 import { SUPPORTED_READERS } from '@common/util/pandoc-maps'
+import getPlainPandocReaderWriter from '@common/util/plain-pandoc-reader-writer'
+import generateFilename from '@common/util/generate-filename'
+import replaceStringVariables from '@common/util/replace-string-variables'
+import extractYamlFrontmatter from '@common/util/extract-yaml-frontmatter'
+import isFile from '@common/util/is-file'
+import { hasMarkdownExt } from '@providers/fsal/util/is-md-or-code-file'
+
+/**
+ * Files read by these readers can contain embedded media and document metadata.
+ * Imports of such files receive ID-based filenames, their media is extracted
+ * next to the new note, and their metadata is kept as a YAML frontmatter.
+ *
+ * @var {string[]}
+ */
+const RICH_READERS = [ 'docx', 'odt', 'epub', 'html' ]
+
+/**
+ * How many seconds to advance the time at most while looking for an unused ID
+ *
+ * @var {number}
+ */
+const MAX_ID_ATTEMPTS = 3600
+
+/**
+ * Describes what happened to a single file during the import.
+ */
+export interface ImportResult {
+  /**
+   * The file that was imported
+   */
+  source: string
+  /**
+   * The newly created note, if the import succeeded
+   */
+  target?: string
+  /**
+   * Any media files that have been extracted or copied alongside the note
+   */
+  assets: string[]
+  /**
+   * If the import failed, the reason
+   */
+  error?: string
+}
 
 export default async function makeImport (
   fileList: string[],
   dirToImport: DirDescriptor,
   assetsProvider: AssetsProvider,
-  errorCallback: Function|null = null,
-  successCallback: Function|null = null
-): Promise<string[]> {
+  config: ConfigProvider,
+  fsal: FSAL
+): Promise<ImportResult[]> {
   // Determine the availability of Pandoc. As the Pandoc path is added to
   // process.env.PATH during the environment check, this should always work
   // if a supported Zettlr variant is being used. In other cases (e.g. custom
@@ -46,107 +93,285 @@ export default async function makeImport (
     throw new Error(trans('Pandoc has not been found on this system. Please install Pandoc prior to exporting or importing files.'))
   }
 
-  let files = await checkImportIntegrity(fileList)
-  let failedFiles = []
+  const files = await checkImportIntegrity(fileList)
+  const results: ImportResult[] = []
+
+  // Every imported note must receive its own ID, even if several notes are
+  // imported within the same second
+  const usedIds = new Set<string>()
+  for (const descriptor of fsal.getAllFiles()) {
+    if (descriptor.type === 'file' && descriptor.id !== '') {
+      usedIds.add(descriptor.id)
+    }
+  }
+
+  // Files that did not pass the integrity check cannot be imported at all
+  for (const file of fileList) {
+    if (!files.some(checked => checked.path === file)) {
+      results.push({ source: file, assets: [], error: trans('The file does not exist.') })
+    }
+  }
 
-  // This for loop will initiate all pandoc instances at once. The return of
-  // these processes will come in asynchronously, so we can let chokidar handle
-  // the detection.
   for (const file of files) {
-    if ([ '.textbundle', '.textpack' ].includes(path.extname(file.path))) {
-      // We need to import using a special importer.
-      try {
-        await importTextbundle(file, dirToImport)
-        if (successCallback !== null) {
-          successCallback(file.path)
-        }
-      } catch (err: any) {
-        failedFiles.push(file.path)
-        if (errorCallback !== null) {
-          errorCallback(file.path, err.message)
-        }
-      }
-    } else if ([ '.markdown', '.txt' ].includes(path.extname(file.path))) {
-      // In this case we should just copy it over
-      try {
+    try {
+      if ([ '.textbundle', '.textpack' ].includes(path.extname(file.path))) {
+        // We need to import using a special importer.
+        const { target, assets } = await importTextbundle(file, dirToImport)
+        results.push({ source: file.path, target, assets })
+      } else if ([ '.markdown', '.txt' ].includes(path.extname(file.path))) {
+        // In this case we should just copy it over
         const newName = path.join(dirToImport.path, path.basename(file.path, path.extname(file.path))) + '.md'
         await fs.copyFile(file.path, newName)
-        if (successCallback !== null) {
-          successCallback(file.path)
-        }
-      } catch (err: any) {
-        failedFiles.push(file.path)
-        if (errorCallback !== null) {
-          errorCallback(file.path, err.message)
-        }
-      }
-    } else if (file.availableReaders.length > 0) {
-      // The file is known -> let's import it!
-      const newName = path.join(dirToImport.path, path.basename(file.path, path.extname(file.path))) + '.md'
-
-      // Retrieve the corresponding defaults file ...
-      const allDefaults = (await assetsProvider.listDefaults()).filter(e => SUPPORTED_READERS.includes(e.writer))
-      const potentialProfiles: PandocProfileMetadata[] = []
-      for (const profile of allDefaults) {
-        if (file.availableReaders.includes(profile.reader)) {
-          potentialProfiles.push(profile)
-        }
+        results.push({ source: file.path, target: newName, assets: [] })
+      } else if (file.availableReaders.length > 0) {
+        // The file is known -> let's import it!
+        results.push(await importWithPandoc(file, dirToImport, assetsProvider, config, usedIds))
+      } else {
+        results.push({ source: file.path, assets: [], error: trans('Unknown file type') })
       }
+    } catch (err: any) {
+      results.push({ source: file.path, assets: [], error: err.message })
+    }
+  }
 
-      // TODO If more than one profile are found, ask the user!
-      if (potentialProfiles.length > 1) {
-        console.warn(`More than one applicable profile found! Using first one: ${potentialProfiles[0].name}`)
-      }
+  return results
+}
+
+/**
+ * Converts a single file to Markdown using Pandoc.
+ *
+ * @param   {Object}                  file            The file, as returned by the integrity check
+ * @param   {DirDescriptor}           dirToImport     The directory to import into
+ * @param   {AssetsProvider}          assetsProvider  The assets provider
+ * @param   {ConfigProvider}          config          The config provider
+ * @param   {Set<string>}             usedIds         The IDs that are already taken
+ *
+ * @return  {Promise<ImportResult>}                   The result of the import
+ */
+async function importWithPandoc (
+  file: { path: string, availableReaders: string[] },
+  dirToImport: DirDescriptor,
+  assetsProvider: AssetsProvider,
+  config: ConfigProvider,
+  usedIds: Set<string>
+): Promise<ImportResult> {
+  // Retrieve the corresponding defaults file ...
+  const allDefaults = (await assetsProvider.listDefaults()).filter(e => SUPPORTED_READERS.includes(e.writer))
+  const potentialProfiles: PandocProfileMetadata[] = []
+  for (const profile of allDefaults) {
+    if (file.availableReaders.includes(profile.reader)) {
+      potentialProfiles.push(profile)
+    }
+  }
 
-      const defaults = await assetsProvider.getDefaultsFile(potentialProfiles[0].name)
+  if (potentialProfiles.length === 0) {
+    throw new Error(trans('There is no import profile for this file type.'))
+  }
 
-      // ... supply our file paths ...
-      defaults['input-files'] = [file.path]
-      defaults['output-file'] = newName
+  // TODO If more than one profile are found, ask the user!
+  if (potentialProfiles.length > 1) {
+    console.warn(`More than one applicable profile found! Using first one: ${potentialProfiles[0].name}`)
+  }
 
-      // ... get a temporary file name ...
-      const defaultsFile = path.join(app.getPath('temp'), 'defaults.yml')
+  const isRichFormat = RICH_READERS.includes(getPlainPandocReaderWriter(potentialProfiles[0].reader))
 
-      // ... cast the defaults to string ...
-      const YAMLOptions = {
-        indent: 4,
-        simpleKeys: false
-      }
+  // Rich documents get a proper Zettelkasten filename, everything else keeps
+  // the name of the original file
+  let newName = path.basename(file.path, path.extname(file.path)) + '.md'
+  if (isRichFormat) {
+    const idGenPattern: string = config.get('zkn.idGen')
+    newName = generateFilename(config.get('newFileNamePattern'), idGenPattern, generateUniqueId(idGenPattern, usedIds))
+    if (!hasMarkdownExt(newName)) {
+      newName += '.md'
+    }
+  }
+
+  const target = getUniquePath(path.join(dirToImport.path, newName))
+  const assetsDir = path.join('assets', path.basename(target, path.extname(target)))
+
+  const defaults = await assetsProvider.getDefaultsFile(potentialProfiles[0].name)
+
+  // ... supply our file paths ...
+  defaults['input-files'] = [file.path]
+  defaults['output-file'] = target
+
+  if (isRichFormat) {
+    // Keep the document metadata and extract any embedded media relative to
+    // the new note. Pandoc also needs to find resources next to the original.
+    defaults.standalone = true
+    defaults['extract-media'] = assetsDir
+    defaults['resource-path'] = [ '.', path.dirname(file.path) ]
+  }
+
+  // ... cast the defaults to string ...
+  const YAMLOptions = {
+    indent: 4,
+    simpleKeys: false
+  }
+
+  // ... write to disk in a directory of its own, so that concurrent imports
+  // and exports do not interfere ...
+  const workingDir = await fs.mkdtemp(path.join(app.getPath('temp'), 'zettlr-import-'))
+  const defaultsFile = path.join(workingDir, 'defaults.yml')
+
+  try {
+    await fs.writeFile(defaultsFile, YAML.stringify(defaults, YAMLOptions), { encoding: 'utf8' })
+
+    // ... and finally run pandoc, providing the file.
+    await runPandoc(defaultsFile, dirToImport.path)
+  } finally {
+    await fs.rm(workingDir, { recursive: true, force: true })
+  }
+
+  if (!isRichFormat) {
+    return { source: file.path, target, assets: [] }
+  }
 
-      // ... write to disk ...
-      await fs.writeFile(defaultsFile, YAML.stringify(defaults, YAMLOptions), { encoding: 'utf8' })
-
-      // ... and finally run pandoc, providing the file.
-      const pandocProcess = spawn('pandoc', [ '--defaults', `"${defaultsFile}"` ], { shell: true })
-
-      try {
-        await new Promise<void>((resolve, reject) => {
-          pandocProcess.on('message', (message, handle) => {
-            console.log(String(message))
-          })
-          pandocProcess.on('close', (code, signal) => {
-            if (code === 0) {
-              resolve()
-            } else {
-              reject(new Error(`Could not import file: Pandoc exited with code ${String(code)}`))
-            }
-          })
-
-          pandocProcess.on('error', (err) => { reject(err) })
-        })
-        if (successCallback !== null) {
-          successCallback(file.path)
-        }
-      } catch (err: any) {
-        failedFiles.push(file.path)
-        if (errorCallback !== null) {
-          errorCallback(file.path, err.message)
-        }
+  // Finally, make sure the images can be found and the metadata is retained
+  const converted = await fs.readFile(target, 'utf-8')
+  const withImages = rewriteImagePaths(converted, path.dirname(file.path), dirToImport.path)
+  await fs.writeFile(target, await addFrontmatter(withImages, file.path), 'utf-8')
+
+  return {
+    source: file.path,
+    target,
+    assets: await listFiles(path.join(dirToImport.path, assetsDir))
+  }
+}
+
+/**
+ * Runs Pandoc with the given defaults file.
+ *
+ * @param   {string}         defaultsFile  The defaults file
+ * @param   {string}         cwd           The working directory
+ *
+ * @return  {Promise<void>}                Rejects if Pandoc failed
+ */
+async function runPandoc (defaultsFile: string, cwd: string): Promise<void> {
+  // NOTE: Without a shell, the path to the defaults file must not be quoted,
+  // and special characters within it cannot break the command line.
+  const pandocProcess = spawn('pandoc', [ '--defaults', defaultsFile ], { cwd })
+  const stderr: string[] = []
+
+  await new Promise<void>((resolve, reject) => {
+    pandocProcess.stderr.on('data', (data) => {
+      stderr.push(String(data))
+    })
+
+    pandocProcess.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        const details = stderr.join('').trim()
+        reject(new Error(`Could not import file: Pandoc exited with code ${String(code)}${details !== '' ? ': ' + details : ''}`))
       }
+    })
+
+    pandocProcess.on('error', (err) => { reject(err) })
+  })
+}
+
+/**
+ * Ensures the Markdown file starts with a YAML frontmatter containing the
+ * original title, author and date. Missing values are derived from the
+ * original file.
+ *
+ * @param   {string}           markdown    The converted Markdown
+ * @param   {string}           sourcePath  The original file
+ *
+ * @return  {Promise<string>}              The Markdown including frontmatter
+ */
+async function addFrontmatter (markdown: string, sourcePath: string): Promise<string> {
+  const { frontmatter, content } = extractYamlFrontmatter(markdown)
+  const { title, author, date, ...rest } = frontmatter ?? {}
+
+  const metadata: Record<string, any> = {
+    title: (typeof title === 'string' && title.trim() !== '') ? title : path.basename(sourcePath, path.extname(sourcePath))
+  }
+
+  if (author !== undefined && author !== null) {
+    metadata.author = author
+  }
+
+  if (date !== undefined && date !== null) {
+    metadata.date = date
+  } else {
+    const stat = await fs.stat(sourcePath)
+    metadata.date = stat.mtime.toISOString().substring(0, 10)
+  }
+
+  return `---\n${YAML.stringify({ ...metadata, ...rest })}---\n\n${content.trimStart()}`
+}
+
+/**
+ * Generates an ID that is not yet in use and marks it as used. Since IDs are
+ * usually based on the current time, the time is advanced by one second until
+ * the ID is unused.
+ *
+ * @param   {string}       idGenPattern  The pattern for Zettelkasten IDs
+ * @param   {Set<string>}  usedIds       The IDs that are already taken
+ *
+ * @return  {string}                     The new ID
+ */
+function generateUniqueId (idGenPattern: string, usedIds: Set<string>): string {
+  const now = Date.now()
+  let id = replaceStringVariables(idGenPattern, new Date(now))
+  for (let seconds = 1; usedIds.has(id) && seconds < MAX_ID_ATTEMPTS; seconds++) {
+    id = replaceStringVariables(idGenPattern, new Date(now + seconds * 1000))
+  }
+
+  usedIds.add(id)
+  return id
+}
+
+/**
+ * Appends a number to the filename until the path does not exist yet. This
+ * prevents overwriting existing notes, e.g., if the filename pattern does not
+ * contain an ID.
+ *
+ * @param   {string}  filePath  The desired path
+ *
+ * @return  {string}            A path that does not yet exist
+ */
+function getUniquePath (filePath: string): string {
+  const ext = path.extname(filePath)
+  const base = filePath.substring(0, filePath.length - ext.length)
+
+  let candidate = filePath
+  let i = 1
+  while (isFile(candidate)) {
+    candidate = `${base}-${i}${ext}`
+    i++
+  }
+
+  return candidate
+}
+
+/**
+ * Recursively lists all files within the given directory.
+ *
+ * @param   {string}             dir  The directory
+ *
+ * @return  {Promise<string[]>}       The absolute paths, or an empty array if
+ *                                    the directory does not exist
+ */
+async function listFiles (dir: string): Promise<string[]> {
+  let entries
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true })
+  } catch (err) {
+    return []
+  }
+
+  const files: string[] = []
+  for (const entry of entries) {
+    const absPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(absPath))
     } else {
-      failedFiles.push(file.path)
+      files.push(absPath)
     }
   }
 
-  return failedFiles // All good if the array is empty
+  return files
 }
@@ -0,0 +1,104 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        rewriteImagePaths
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Rewrites the image references of imported files so that they
+ *                  are relative to the newly created note.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import isFile from '@common/util/is-file'
+
+/**
+ * Matches Markdown images, e.g. ![alt](path "title"), including paths wrapped
+ * in angle brackets
+ *
+ * @var {RegExp}
+ */
+const MD_IMAGE_RE = /(!\[[^\]]*\]\()(<[^>\n]+>|[^)\s]+)((?:\s+"[^"\n]*")?\))/g
+
+/**
+ * Matches the source of raw HTML images, e.g. <img src="path">
+ *
+ * @var {RegExp}
+ */
+const HTML_IMAGE_RE = /(<img\b[^>]*?\bsrc=")([^"]+)(")/gi
+
+/**
+ * Resolves a single image path. Remote resources and data URIs are kept as
+ * they are. Relative paths are first resolved against the directory of the new
+ * note (where Pandoc has extracted the media to), and then against the
+ * directory of the original file.
+ *
+ * @param   {string}    imagePath  The path as it appears in the Markdown
+ * @param   {string}    sourceDir  The directory of the imported file
+ * @param   {string}    targetDir  The directory of the new note
+ * @param   {Function}  exists     Checks whether a file exists
+ *
+ * @return  {string}               The new path
+ */
+function resolveImagePath (imagePath: string, sourceDir: string, targetDir: string, exists: (absPath: string) => boolean): string {
+  // Protocols (http, data, etc.) -- but not Windows drive letters
+  if (/^[a-z][a-z0-9+.-]+:/i.test(imagePath) && !/^[a-z]:[\\/]/i.test(imagePath)) {
+    return imagePath
+  }
+
+  let decoded = imagePath
+  try {
+    decoded = decodeURI(imagePath)
+  } catch (err) {
+    // Keep the path as is
+  }
+
+  const candidates = path.isAbsolute(decoded)
+    ? [decoded]
+    : [ path.resolve(targetDir, decoded), path.resolve(sourceDir, decoded) ]
+
+  const found = candidates.find(candidate => exists(candidate))
+  if (found === undefined) {
+    return imagePath // Nothing we can do
+  }
+
+  return path.relative(targetDir, found).split(path.sep).join('/')
+}
+
+/**
+ * Rewrites all image references in the given Markdown so that they are
+ * relative to the directory of the new note.
+ *
+ * @param   {string}    markdown   The converted Markdown
+ * @param   {string}    sourceDir  The directory of the imported file
+ * @param   {string}    targetDir  The directory of the new note
+ * @param   {Function}  exists     Optional, checks whether a file exists
+ *
+ * @return  {string}               The Markdown with rewritten image paths
+ */
+export default function rewriteImagePaths (
+  markdown: string,
+  sourceDir: string,
+  targetDir: string,
+  exists: (absPath: string) => boolean = isFile
+): string {
+  return markdown
+    .replace(MD_IMAGE_RE, (match, prefix: string, imagePath: string, suffix: string) => {
+      const isWrapped = imagePath.startsWith('<') && imagePath.endsWith('>')
+      const unwrapped = isWrapped ? imagePath.slice(1, -1) : imagePath
+      const resolved = resolveImagePath(unwrapped, sourceDir, targetDir, exists)
+      if (resolved === unwrapped) {
+        return match
+      }
+
+      const needsWrapping = /[\s()]/.test(resolved)
+      return prefix + (needsWrapping ? `<${resolved}>` : resolved) + suffix
+    })
+    .replace(HTML_IMAGE_RE, (match, prefix: string, imagePath: string, suffix: string) => {
+      return prefix + resolveImagePath(imagePath, sourceDir, targetDir, exists) + suffix
+    })
+}
@@ -21,6 +21,7 @@ import DirRemoveProject from './dir-remove-project'
 import DirRename from './dir-rename'
 import DirRescan from './dir-rescan'
 import DirSetIcon from './dir-set-icon'
+import DirSetTemplate from './dir-set-template'
 import DirSort from './dir-sort'
 import Export from './export'
 import FetchLinkPreview from './fetch-link-preview'
@@ -29,21 +30,27 @@ import FileDuplicate from './file-duplicate'
 import FileNew from './file-new'
 import FileRename from './file-rename'
 import FileSearch from './file-search'
+import SearchFiles from './search-files'
 import ForceOpen from './force-open'
 import FileFindAndReturnMetaData from './file-find-and-return-meta-data'
 import ImportLangFile from './import-lang-file'
 import ImportFiles from './import'
+import ImportVault from './import-vault'
 import IncreasePomodoro from './increase-pomodoro'
 import LanguageTool from './language-tool'
+import LinkUnlinkedMention from './link-unlinked-mention'
 import OpenAttachment from './open-attachment'
+import OpenJournalNote from './open-journal-note'
 import Print from './print'
 import RequestMove from './request-move'
 import RootClose from './root-close'
 import RootOpen from './root-open'
 import SaveImageFromClipboard from './save-image-from-clipboard'
+import ToggleTask from './toggle-task'
 import TutorialOpen from './tutorial-open'
 import UpdateProjectProperties from './update-project-properties'
 import UpdateUserDictionary from './update-user-dictionary'
+import WorkspaceReplace from './workspace-replace'
 import ProviderContract from '@providers/provider-contract'
 import AppServiceContainer from 'source/app/app-service-container'
 import ZettlrCommand from './zettlr-command'
@@ -54,6 +61,10 @@ import isDir from '@common/util/is-dir'
 import enumLangFiles from '@common/util/enum-lang-files'
 import enumDictFiles from '@common/util/enum-dict-files'
 import RenameTag from './rename-tag'
+import MergeTags from './merge-tags'
+import DeleteTag from './delete-tag'
+import { cancelExportJob, getExportJobs } from './exporter/export-queue'
+import ProjectLiveExport from './project-live-export'
 
 export const commands = [
   DirDelete,
@@ -64,6 +75,7 @@ export const commands = [
   DirRename,
   DirRescan,
   DirSetIcon,
+  DirSetTemplate,
   DirSort,
   Export,
   FetchLinkPreview,
@@ -72,27 +84,36 @@ export const commands = [
   FileNew,
   FileRename,
   FileSearch,
+  SearchFiles,
   FileFindAndReturnMetaData,
   ForceOpen,
   ImportFiles,
+  ImportVault,
   ImportLangFile,
   IncreasePomodoro,
   LanguageTool,
+  LinkUnlinkedMention,
   OpenAttachment,
+  OpenJournalNote,
   Print,
   RenameTag,
+  MergeTags,
+  DeleteTag,
   RequestMove,
   RootClose,
   RootOpen,
   SaveImageFromClipboard,
   SetOpenDirectory,
+  ToggleTask,
   TutorialOpen,
   UpdateProjectProperties,
-  UpdateUserDictionary
+  UpdateUserDictionary,
+  WorkspaceReplace
 ]
 
 export default class CommandProvider extends ProviderContract {
   private readonly _commands: ZettlrCommand[]
+  private readonly _liveExport: ProjectLiveExport
 
   // TODO: Right now this just injects the full service container into the
   // commands, but it mayt be better to only provide those which are actually
@@ -101,6 +122,7 @@ export default class CommandProvider extends ProviderContract {
     super()
     // Load available commands
     this._commands = commands.map(Command => new Command(this._app))
+    this._liveExport = new ProjectLiveExport(this._app)
 
     // Set up the command listener
     ipcMain.handle('application', async (event, { command, payload }) => {
@@ -177,6 +199,12 @@ export default class CommandProvider extends ProviderContract {
       this._app.windows.showUpdateWindow()
     } else if (command === 'open-project-preferences') {
       this._app.windows.showProjectPropertiesWindow(payload)
+    } else if (command === 'open-version-history') {
+      this._app.windows.showVersionHistoryWindow(payload)
+    } else if (command === 'get-export-jobs') {
+      return getExportJobs()
+    } else if (command === 'cancel-export-job') {
+      return cancelExportJob(payload)
     } else {
       // ELSE: If the command has not yet been found, try to run one of the
       // bigger commands
@@ -199,7 +227,13 @@ export default class CommandProvider extends ProviderContract {
     }
   }
 
+  async boot (): Promise<void> {
+    // Re-export projects with live export enabled whenever their files change
+    this._liveExport.boot()
+  }
+
   async shutdown (): Promise<void> {
     this._app.log.verbose('Command Provider shutting down ...')
+    this._liveExport.shutdown()
   }
 }
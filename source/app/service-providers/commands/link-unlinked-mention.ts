@@ -0,0 +1,77 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        LinkUnlinkedMention command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Converts a plain-text mention of a note within another file
+ *                  into a Zettelkasten link to that note.
+ *
+ * END HEADER
+ */
+
+import ZettlrCommand from './zettlr-command'
+import { FSALFile } from '@providers/fsal'
+import { ChangeSet } from '@codemirror/state'
+import { findUnlinkedMentions } from '@providers/links/link-context'
+
+export default class LinkUnlinkedMention extends ZettlrCommand {
+  constructor (app: any) {
+    super(app, 'link-unlinked-mention')
+  }
+
+  /**
+   * Replaces the mention with a link. The file is left untouched if the
+   * mention can no longer be found on its line.
+   *
+   * @param   {string}  evt  The event name
+   * @param   {Object}  arg  The file containing the mention, its line, offsets
+   *                         and text, and the note it should link to
+   *
+   * @return  {Promise<boolean>}  Whether the mention has been converted
+   */
+  async run (evt: string, arg: { file: string, line: number, from: number, to: number, match: string, target: string }): Promise<boolean> {
+    const note = this._app.fsal.findFile(arg.target)
+    const descriptor = this._app.fsal.findFile(arg.file)
+    if (note === undefined || note.type !== 'file' || descriptor === undefined || descriptor.type !== 'file') {
+      this._app.log.error(`[Application] Cannot link mention in ${arg.file}: File not found.`)
+      return false
+    }
+
+    // Link in the same way the autocomplete would, but keep the text as
+    // written if it does not equal the link target
+    const useId = note.id !== '' && this._app.config.get('zkn.linkFilenameOnly') === false
+    const linkTarget = useId ? note.id : note.name.replace(note.ext, '')
+    const insert = (linkTarget === arg.match) ? `[[${linkTarget}]]` : `[[${linkTarget}]] ${arg.match}`
+
+    // Prefer the loaded document, since that may contain unsaved changes
+    const doc = this._app.documents.getLoadedDocument(arg.file)
+    const content = (doc !== undefined) ? doc.content : await FSALFile.load(descriptor)
+
+    let { from, to } = arg
+    if (content.substring(from, to) !== arg.match) {
+      // The offsets may have shifted, e.g., due to unsaved changes, so look
+      // for the mention on its line
+      const mention = findUnlinkedMentions(content, [arg.match]).find(mention => mention.line === arg.line)
+      if (mention === undefined) {
+        this._app.log.warning(`[Application] Cannot link mention in ${arg.file}: The file has changed.`)
+        return false
+      }
+      from = mention.from
+      to = mention.to
+    }
+
+    if (doc !== undefined) {
+      const changes = ChangeSet.of([{ from, to, insert }], content.length)
+      return await this._app.documents.applyChanges(arg.file, changes, doc.version) !== false
+    }
+
+    const newContent = content.substring(0, from) + insert + content.substring(to)
+    await this._app.fsal.writeTextFile(descriptor, newContent)
+    this._app.log.info(`[Application] Linked mention of ${note.name} in file ${arg.file}`)
+    return true
+  }
+}
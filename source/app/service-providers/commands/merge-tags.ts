@@ -0,0 +1,52 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        MergeTags command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This command merges several tags into one across all files.
+ *
+ * END HEADER
+ */
+
+import replaceTags from '@common/util/replace-tags'
+import { isTagOrDescendant } from '@common/util/tag-hierarchy'
+import { MDFileDescriptor } from '@dts/common/fsal'
+import ZettlrCommand from './zettlr-command'
+import { trans } from '@common/i18n-main'
+import rewriteTagsInFiles from './util/rewrite-tags'
+
+export default class MergeTags extends ZettlrCommand {
+  constructor (app: any) {
+    super(app, 'merge-tags')
+  }
+
+  /**
+    * Merges tags into a single one
+    * @param {String} evt The event name
+    * @param  {Object} arg An object containing the tags to merge and the target
+    */
+  async run (evt: string, arg: any): Promise<boolean> {
+    const target: string = arg.target
+    // Merging a tag into itself is a no-op
+    const sources = (arg.sources as string[]).filter(tag => tag !== target)
+    if (sources.length === 0 || target.trim() === '') {
+      return false
+    }
+
+    const relevantFiles = this._app.fsal.getAllFiles()
+      .filter((d): d is MDFileDescriptor => d.type === 'file')
+      .filter(d => d.tags.some(tag => sources.some(source => isTagOrDescendant(tag, source))))
+
+    return await rewriteTagsInFiles(
+      this._app,
+      relevantFiles,
+      trans('Merge %s tags into "%s" across %s files?', sources.length, target, relevantFiles.length),
+      `Merged tags "${sources.join('", "')}" into "${target}"`,
+      content => sources.reduce((result, source) => replaceTags(result, source, target), content)
+    )
+  }
+}
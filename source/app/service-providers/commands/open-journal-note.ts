@@ -0,0 +1,85 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        OpenJournalNote command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Opens the journal note for a date, and creates it first if
+ *                  it does not yet exist.
+ *
+ * END HEADER
+ */
+
+import ZettlrCommand from './zettlr-command'
+import { trans } from '@common/i18n-main'
+import { getJournalDate, getJournalFilename, toJournalDate } from '@common/util/journal-filename'
+import generateId from '@common/util/generate-id'
+
+export default class OpenJournalNote extends ZettlrCommand {
+  constructor (app: any) {
+    super(app, 'open-journal-note')
+  }
+
+  /**
+   * Opens the journal note for the given date
+   * @param {String} evt The event name
+   * @param  {Object} arg An object containing the date (YYYY-MM-DD; default: today), and optionally a window and leaf
+   * @return {Promise<boolean>} Whether the journal note has been opened
+   */
+  async run (evt: string, arg: { date?: string, windowId?: string, leafId?: string }): Promise<boolean> {
+    const { directory, filenamePattern, template } = this._app.config.get('journal')
+    const date = arg?.date ?? toJournalDate(new Date())
+
+    const dir = (directory !== '') ? this._app.fsal.findDir(directory) : undefined
+    if (dir === undefined) {
+      this._app.log.error(`Cannot open journal note: The journal folder "${String(directory)}" is not loaded.`)
+      this._app.windows.prompt({
+        type: 'error',
+        title: trans('Could not open journal note'),
+        message: trans('Please choose a journal folder within one of your workspaces in the preferences.')
+      })
+      return false
+    }
+
+    const existingNote = dir.children.find(child => child.type === 'file' && getJournalDate(filenamePattern, child.name) === date)
+    if (existingNote !== undefined) {
+      let windowId = arg?.windowId
+      if (windowId === undefined) {
+        // Fall back onto any main window, e.g., when called from the menu
+        const firstMainWindow = this._app.windows.getFirstMainWindow()
+        if (firstMainWindow !== undefined) {
+          windowId = this._app.windows.getMainWindowKey(firstMainWindow)
+        }
+      }
+
+      if (windowId === undefined) {
+        this._app.log.error('Cannot open journal note: No window id provided')
+        return false
+      }
+
+      return await this._app.documents.openFile(windowId, arg?.leafId, existingNote.path)
+    }
+
+    // Create the note through the normal path for new files. The date is parsed
+    // as local time, since it must be the same day the user has chosen. The
+    // filename need not contain an ID, so pass the ID on, which ensures that
+    // the note contains it.
+    const [ year, month, day ] = date.split('-').map(part => parseInt(part, 10))
+    const id = generateId(this._app.config.get('zkn.idGen'))
+    const filename = getJournalFilename(filenamePattern, new Date(year, month - 1, day), id)
+    await this._app.commands.run('file-new', {
+      windowId: arg?.windowId,
+      leafId: arg?.leafId,
+      path: dir.path,
+      name: filename,
+      type: 'md',
+      template: (template !== '') ? template : undefined,
+      id
+    })
+
+    return true
+  }
+}
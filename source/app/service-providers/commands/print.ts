@@ -14,7 +14,7 @@
 
 import ZettlrCommand from './zettlr-command'
 import { app } from 'electron'
-import { makeExport } from './exporter'
+import { enqueueExportJob, makeExport } from './exporter'
 import { ExporterOptions } from './exporter/types'
 import { EXT2READER } from '@common/util/pandoc-maps'
 import getPlainPandocReaderWriter from '@common/util/plain-pandoc-reader-writer'
@@ -72,8 +72,15 @@ export default class Print extends ZettlrCommand {
     // Call the exporter.
     try {
       this._app.log.verbose('[Printer] Exporting file to HTML ...')
-      const output = await makeExport(opt, this._app.log, this._app.config, this._app.assets)
-      if (output.code !== 0) {
+      const output = await enqueueExportJob(fileDescriptor.name, async (job) => {
+        job.reportProgress({ currentProfile: 1, totalProfiles: 1 })
+        return await makeExport(opt, this._app.log, this._app.config, this._app.assets, this._app.fsal, job)
+      })
+
+      if (output === undefined) {
+        this._app.log.info('[Print] Printing has been cancelled.')
+        return
+      } else if (output.code !== 0) {
         throw new Error(`Export failed with code ${output.code}`)
       }
       // Now we'll need to open the print window.
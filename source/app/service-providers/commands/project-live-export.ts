@@ -0,0 +1,189 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        ProjectLiveExport class
+ * CVM-Role:        Controller
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This class watches the FSAL for changes to files that belong
+ *                  to projects which have live export enabled, and re-exports
+ *                  these projects after a short delay.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import AppServiceContainer from '../../app-service-container'
+import { exportProject, getProjectFiles } from './dir-project-export'
+import { DirDescriptor } from '@dts/common/fsal'
+import objectToArray from '@common/util/object-to-array'
+
+/**
+ * How long to wait after the last change before re-exporting a project. Any
+ * change within this period restarts the timer, so bursts of changes (e.g.,
+ * autosaves while typing) result in only one export.
+ *
+ * @var {number}
+ */
+const LIVE_EXPORT_DELAY = 2000
+
+export default class ProjectLiveExport {
+  /**
+   * Holds the debounce timeouts per project directory
+   */
+  private readonly _timeouts: Map<string, ReturnType<typeof setTimeout>>
+  /**
+   * Contains all projects that are currently being exported
+   */
+  private readonly _running: Set<string>
+  /**
+   * Contains all projects that have changed during their export
+   */
+  private readonly _pending: Set<string>
+  /**
+   * The files the last live export of a project has produced. Changes to these
+   * must not trigger another export, since that would result in an endless
+   * loop (e.g., when exporting a project to Markdown).
+   */
+  private readonly _targetFiles: Map<string, string[]>
+  private _fsalHistoryTimestamp: number
+
+  constructor (private readonly _app: AppServiceContainer) {
+    this._timeouts = new Map()
+    this._running = new Set()
+    this._pending = new Set()
+    this._targetFiles = new Map()
+    this._fsalHistoryTimestamp = 0
+  }
+
+  /**
+   * Starts listening to changes within the FSAL.
+   */
+  boot (): void {
+    this._app.fsal.on('fsal-state-changed', (which: string) => {
+      if (which === 'reset-history') {
+        // The history now only contains the root descriptors, which are no
+        // changes that warrant a re-export.
+        const events = this._app.fsal.filetreeHistorySince(0)
+        this._fsalHistoryTimestamp = (events.length > 0) ? events[events.length - 1].timestamp : 0
+      } else if (which === 'filetree') {
+        const events = this._app.fsal.filetreeHistorySince(this._fsalHistoryTimestamp)
+        for (const event of events) {
+          this._fsalHistoryTimestamp = event.timestamp
+          this._onFileChanged(event.path, event.event)
+        }
+      }
+    })
+
+    // Projects based on a smart folder must also be exported whenever files
+    // enter or leave the smart folder
+    this._app.smartFolders.on('update', (name: string) => {
+      for (const project of this._getLiveExportProjects()) {
+        if (project.settings.project?.smartFolder === name) {
+          this._schedule(project.path)
+        }
+      }
+    })
+  }
+
+  /**
+   * Stops all scheduled exports.
+   */
+  shutdown (): void {
+    for (const timeout of this._timeouts.values()) {
+      clearTimeout(timeout)
+    }
+    this._timeouts.clear()
+  }
+
+  /**
+   * Schedules a re-export for every live-exporting project that contains the
+   * changed file.
+   *
+   * @param   {string}                 filePath  The changed path
+   * @param   {add|change|remove}      event     What happened to it
+   */
+  private _onFileChanged (filePath: string, event: 'add'|'change'|'remove'): void {
+    for (const project of this._getLiveExportProjects()) {
+      const usesSmartFolder = project.settings.project?.smartFolder !== ''
+      if (!usesSmartFolder && !filePath.startsWith(project.path + path.sep)) {
+        continue
+      }
+
+      if (this._targetFiles.get(project.path)?.includes(filePath) === true) {
+        continue // Our own output
+      }
+
+      // Removed files are no longer in the file tree, so we cannot check them
+      // against the filters. Since they might have been part of the project,
+      // re-export in any case. (Smart folders report removed files themselves.)
+      const isProjectFile = (event === 'remove' && !usesSmartFolder) || getProjectFiles(project, this._app.smartFolders).some(file => file.path === filePath)
+      if (isProjectFile) {
+        this._schedule(project.path)
+      }
+    }
+  }
+
+  /**
+   * Returns all loaded projects that have live export enabled.
+   *
+   * @return  {DirDescriptor[]}  The projects
+   */
+  private _getLiveExportProjects (): DirDescriptor[] {
+    return objectToArray(this._app.fsal.getTreeMeta(), 'children')
+      .filter((descriptor): descriptor is DirDescriptor => {
+        return descriptor.type === 'directory' && descriptor.settings.project?.liveExport === true
+      })
+  }
+
+  /**
+   * (Re)starts the debounce timer for the given project.
+   *
+   * @param   {string}  projectPath  The project directory
+   */
+  private _schedule (projectPath: string): void {
+    if (this._running.has(projectPath)) {
+      // Export once more after the current run has finished
+      this._pending.add(projectPath)
+      return
+    }
+
+    const existing = this._timeouts.get(projectPath)
+    if (existing !== undefined) {
+      clearTimeout(existing)
+    }
+
+    this._timeouts.set(projectPath, setTimeout(() => {
+      this._timeouts.delete(projectPath)
+      this._export(projectPath).catch(err => this._app.log.error(`[Project] Live export of ${projectPath} failed: ${String(err.message)}`, err))
+    }, LIVE_EXPORT_DELAY))
+  }
+
+  /**
+   * Re-exports the given project.
+   *
+   * @param   {string}         projectPath  The project directory
+   */
+  private async _export (projectPath: string): Promise<void> {
+    const dir = this._app.fsal.findDir(projectPath)
+    if (dir === undefined || dir.settings.project?.liveExport !== true) {
+      return // The project has been removed in the meantime
+    }
+
+    this._running.add(projectPath)
+    try {
+      this._app.log.info(`[Project] Live-exporting ${dir.name} ...`)
+      const targetFiles = await exportProject(this._app, dir, false)
+      if (targetFiles !== undefined) {
+        this._targetFiles.set(projectPath, targetFiles)
+      }
+    } finally {
+      this._running.delete(projectPath)
+      if (this._pending.delete(projectPath)) {
+        this._schedule(projectPath)
+      }
+    }
+  }
+}
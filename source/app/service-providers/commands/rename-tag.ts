@@ -7,17 +7,18 @@
  * Maintainer:      Hendrik Erz
  * License:         GNU GPL v3
  *
- * Description:     This command renames a tag across all files.
+ * Description:     This command renames a tag, including all tags nested
+ *                  below it, across all files.
  *
  * END HEADER
  */
 
 import replaceTags from '@common/util/replace-tags'
+import { isTagOrDescendant } from '@common/util/tag-hierarchy'
 import { MDFileDescriptor } from '@dts/common/fsal'
-import { promises as fs } from 'fs'
 import ZettlrCommand from './zettlr-command'
-import { dialog } from 'electron'
 import { trans } from '@common/i18n-main'
+import rewriteTagsInFiles from './util/rewrite-tags'
 
 export default class RenameTag extends ZettlrCommand {
   constructor (app: any) {
@@ -37,34 +38,16 @@ export default class RenameTag extends ZettlrCommand {
     const allFiles = this._app.fsal.getAllFiles()
       .filter(d => d.type === 'file') as MDFileDescriptor[]
 
-    // Then, retain only the relevant files
-    const relevantFiles = allFiles.filter((d: MDFileDescriptor) => d.tags.includes(oldName))
-
-    const response = await dialog.showMessageBox({
-      title: trans('Confirm'),
-      message: trans('Replace tag "%s" with "%s" across %s files?', oldName, newName, relevantFiles.length),
-      buttons: [
-        trans('Yes'),
-        trans('Cancel')
-      ],
-      defaultId: 1
-    })
-
-    if (response.response === 1) {
-      return false // Do not replace the tag.
-    }
-
-    // Lastly, do the replacing file by file. NOTE: This rests on the fact that
-    // the FSAL will pick up those changes via the file system itself.
-    for (const file of relevantFiles) {
-      const content = await fs.readFile(file.path, 'utf-8')
-      const newContent = replaceTags(content, oldName, newName)
-      if (newContent !== content) {
-        await fs.writeFile(file.path, newContent, 'utf-8')
-        this._app.log.info(`[Application] Replaced tag "${oldName}" with "${newName}" in file ${file.path}`)
-      }
-    }
-
-    return true
+    // Then, retain only the relevant files, i.e. those containing the tag or
+    // any tag nested below it
+    const relevantFiles = allFiles.filter((d: MDFileDescriptor) => d.tags.some(tag => isTagOrDescendant(tag, oldName)))
+
+    return await rewriteTagsInFiles(
+      this._app,
+      relevantFiles,
+      trans('Replace tag "%s" with "%s" across %s files?', oldName, newName, relevantFiles.length),
+      `Replaced tag "${oldName}" with "${newName}"`,
+      content => replaceTags(content, oldName, newName)
+    )
   }
 }
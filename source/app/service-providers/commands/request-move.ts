@@ -15,6 +15,8 @@
 import ZettlrCommand from './zettlr-command'
 import { trans } from '@common/i18n-main'
 import { CodeFileDescriptor, DirDescriptor, MDFileDescriptor } from '@dts/common/fsal'
+import moveAndUpdateFileLinks from './util/update-file-links'
+import path from 'path'
 
 export default class RequestMove extends ZettlrCommand {
   constructor (app: any) {
@@ -81,8 +83,11 @@ export default class RequestMove extends ZettlrCommand {
       return false
     }
 
-    // Now we can move the source to the target.
-    await fsal.move(from, to)
+    // Now we can move the source to the target, and fix any relative links.
+    const source = from
+    await moveAndUpdateFileLinks(this._app, source.path, path.join(to.path, source.name), async () => {
+      await fsal.move(source, to)
+    })
     return true
   }
 }
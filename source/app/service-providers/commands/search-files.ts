@@ -0,0 +1,44 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        SearchFiles command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This command searches a whole list of files at once, using
+ *                  the FSAL's search index.
+ *
+ * END HEADER
+ */
+
+import ZettlrCommand from './zettlr-command'
+import { SearchResultWrapper, SearchTerm } from '@dts/common/search'
+
+export default class SearchFiles extends ZettlrCommand {
+  constructor (app: any) {
+    super(app, 'search-files')
+  }
+
+  /**
+   * Searches all given files and returns the ranked results to the renderer.
+   * @param {String} evt The event name
+   * @param  {Object} arg An object containing the files to search and the compiled terms
+   * @return {Promise<SearchResultWrapper[]>} The search results, best first
+   */
+  async run (evt: string, arg: { files: Array<SearchResultWrapper['file']>, terms: SearchTerm }): Promise<SearchResultWrapper[]> {
+    const results = await this._app.fsal.search(arg.files.map(file => file.path), arg.terms)
+
+    const files = new Map(arg.files.map(file => [ file.path, file ]))
+    const wrappers: SearchResultWrapper[] = []
+    for (const { path, result, weight } of results) {
+      const file = files.get(path)
+      if (file !== undefined) {
+        wrappers.push({ file, result, hideResultSet: false, weight })
+      }
+    }
+
+    return wrappers
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        ToggleTask command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Checks or unchecks a task within its source file.
+ *
+ * END HEADER
+ */
+
+import ZettlrCommand from './zettlr-command'
+import { FSALFile } from '@providers/fsal'
+import { ChangeSet } from '@codemirror/state'
+import extractTasks from '@providers/fsal/util/extract-tasks'
+
+export default class ToggleTask extends ZettlrCommand {
+  constructor (app: any) {
+    super(app, 'toggle-task')
+  }
+
+  /**
+   * Sets the state of a task. The file is left untouched if the task can no
+   * longer be found.
+   *
+   * @param   {string}  evt  The event name
+   * @param   {Object}  arg  The file containing the task, its line and text,
+   *                         and whether it should be marked as done
+   *
+   * @return  {Promise<boolean>}  Whether the task has been changed
+   */
+  async run (evt: string, arg: { file: string, line: number, text: string, done: boolean }): Promise<boolean> {
+    const descriptor = this._app.fsal.findFile(arg.file)
+    if (descriptor === undefined || descriptor.type !== 'file') {
+      this._app.log.error(`[Application] Cannot toggle task in ${arg.file}: File not found.`)
+      return false
+    }
+
+    // Prefer the loaded document, since that may contain unsaved changes
+    const doc = this._app.documents.getLoadedDocument(arg.file)
+    const content = (doc !== undefined) ? doc.content : await FSALFile.load(descriptor)
+
+    // The task may have moved, e.g., due to unsaved changes, so fall back to
+    // the first task with the same text
+    const tasks = extractTasks(content).filter(task => task.text === arg.text)
+    const task = tasks.find(task => task.line === arg.line) ?? tasks[0]
+    if (task === undefined) {
+      this._app.log.warning(`[Application] Cannot toggle task in ${arg.file}: The file has changed.`)
+      return false
+    }
+
+    const lines = content.split('\n')
+    const lineOffset = lines.slice(0, task.line - 1).reduce((offset, line) => offset + line.length + 1, 0)
+    const checkbox = /\[[ xX]\]/.exec(lines[task.line - 1]) as RegExpExecArray
+    const from = lineOffset + checkbox.index
+    const to = from + checkbox[0].length
+    const insert = arg.done ? '[x]' : '[ ]'
+
+    if (doc !== undefined) {
+      const changes = ChangeSet.of([{ from, to, insert }], content.length)
+      return await this._app.documents.applyChanges(arg.file, changes, doc.version) !== false
+    }
+
+    const newContent = content.substring(0, from) + insert + content.substring(to)
+    await this._app.fsal.writeTextFile(descriptor, newContent)
+    this._app.log.info(`[Application] Toggled task in file ${arg.file}`)
+    return true
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        rewriteTagsInFiles function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Performs a bulk edit of tags (renaming, merging, deleting)
+ *                  across several files. The user has to confirm the edit,
+ *                  and files loaded in an editor are changed through the
+ *                  DocumentManager so that no unsaved changes are lost.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import { dialog } from 'electron'
+import { trans } from '@common/i18n-main'
+import { FSALFile } from '@providers/fsal'
+import AppServiceContainer from '../../../app-service-container'
+import { MDFileDescriptor } from '@dts/common/fsal'
+import { getMinimalChange } from '@providers/documents/util/get-minimal-change'
+
+/**
+ * How many of the affected files to list in the confirmation
+ *
+ * @var {number}
+ */
+const MAX_LISTED_FILES = 20
+
+/**
+ * Asks the user to confirm a bulk edit of tags and, if confirmed, applies it
+ * to all affected files.
+ *
+ * @param   {AppServiceContainer}          app         The app
+ * @param   {MDFileDescriptor[]}           files       The affected files
+ * @param   {string}                       message     The confirmation message
+ * @param   {string}                       logMessage  Describes the edit for the log
+ * @param   {(content: string) => string}  transform   Performs the edit on a file
+ *
+ * @return  {Promise<boolean>}                         False if the user cancelled
+ */
+export default async function rewriteTagsInFiles (
+  app: AppServiceContainer,
+  files: MDFileDescriptor[],
+  message: string,
+  logMessage: string,
+  transform: (content: string) => string
+): Promise<boolean> {
+  let detail = files.slice(0, MAX_LISTED_FILES).map(file => path.basename(file.path)).join('\n')
+  if (files.length > MAX_LISTED_FILES) {
+    detail += '\n' + trans('… and %s more', files.length - MAX_LISTED_FILES)
+  }
+
+  const response = await dialog.showMessageBox({
+    title: trans('Confirm'),
+    message,
+    detail,
+    buttons: [
+      trans('Yes'),
+      trans('Cancel')
+    ],
+    defaultId: 1
+  })
+
+  if (response.response === 1) {
+    return false
+  }
+
+  for (const file of files) {
+    try {
+      const doc = app.documents.getLoadedDocument(file.path)
+      const content = doc?.content ?? await FSALFile.load(file)
+      const newContent = transform(content)
+      if (newContent === content) {
+        continue
+      }
+
+      if (doc !== undefined) {
+        if (await app.documents.applyChanges(file.path, getMinimalChange(content, newContent), doc.version) === false) {
+          app.log.warning(`[Application] Could not update the tags in file ${file.path}: The file has changed.`)
+          continue
+        }
+      } else {
+        await app.fsal.writeTextFile(file, newContent)
+      }
+
+      app.log.info(`[Application] ${logMessage} in file ${file.path}`)
+    } catch (err: any) {
+      app.log.error(`[Application] Could not update the tags in file ${file.path}: ${String(err.message)}`, err)
+    }
+  }
+
+  return true
+}
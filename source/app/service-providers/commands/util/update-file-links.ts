@@ -0,0 +1,179 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        moveAndUpdateFileLinks function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Moves or renames a file or directory and afterwards fixes
+ *                  all relative Markdown links and images that the move has
+ *                  broken, both inside the moved files and in files that
+ *                  point to them.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import { dialog } from 'electron'
+import { ChangeSet } from '@codemirror/state'
+import { trans } from '@common/i18n-main'
+import rewriteFileLinks, { FileLinkRewrite } from '@common/util/rewrite-file-links'
+import { FSALFile } from '@providers/fsal'
+import AppServiceContainer from '../../../app-service-container'
+import { MDFileDescriptor } from '@dts/common/fsal'
+
+/**
+ * Describes the links that need to change in a single file
+ */
+interface LinkUpdate {
+  /**
+   * The path of the file after the move
+   */
+  filePath: string
+  rewrites: FileLinkRewrite[]
+  /**
+   * If the file is loaded in an editor, the version and length of the document
+   * the rewrites refer to.
+   */
+  document?: { version: number, length: number }
+}
+
+/**
+ * Determines all link updates that a move from oldPath to newPath necessitates.
+ * Must be called before the move.
+ *
+ * @param   {AppServiceContainer}  app      The app
+ * @param   {string}               oldPath  The file or directory to be moved
+ * @param   {string}               newPath  Its new path
+ *
+ * @return  {Promise<LinkUpdate[]>}         The necessary updates
+ */
+async function planLinkUpdates (app: AppServiceContainer, oldPath: string, newPath: string): Promise<LinkUpdate[]> {
+  const isMoved = (absPath: string): boolean => absPath === oldPath || absPath.startsWith(oldPath + path.sep)
+  const mapPath = (absPath: string): string => isMoved(absPath) ? newPath + absPath.substring(oldPath.length) : absPath
+
+  // Besides the moved files themselves, only files that point to the moved
+  // file or directory can contain links that break. The link index knows them.
+  const referrers = new Set(await app.links.retrieveFileReferrers(oldPath))
+  const files = app.fsal.getAllFiles()
+    .filter((descriptor): descriptor is MDFileDescriptor => {
+      return descriptor.type === 'file' && (isMoved(descriptor.path) || referrers.has(descriptor.path))
+    })
+
+  const updates: LinkUpdate[] = []
+  for (const descriptor of files) {
+    const doc = app.documents.getLoadedDocument(descriptor.path)
+    const content = doc?.content ?? await FSALFile.load(descriptor)
+    const newFilePath = mapPath(descriptor.path)
+    const rewrites = rewriteFileLinks(content, path.dirname(descriptor.path), path.dirname(newFilePath), mapPath)
+    if (rewrites.length > 0) {
+      updates.push({
+        filePath: newFilePath,
+        rewrites,
+        document: (doc !== undefined) ? { version: doc.version, length: content.length } : undefined
+      })
+    }
+  }
+
+  return updates
+}
+
+/**
+ * Applies the link updates to a single file. Files loaded in an editor are
+ * changed through the DocumentManager.
+ *
+ * @param   {AppServiceContainer}  app     The app
+ * @param   {LinkUpdate}           update  The update
+ *
+ * @return  {Promise<boolean>}             Whether the update could be applied
+ */
+async function applyLinkUpdate (app: AppServiceContainer, update: LinkUpdate): Promise<boolean> {
+  const { filePath, rewrites, document } = update
+
+  if (document !== undefined) {
+    const changes = ChangeSet.of(rewrites.map(rewrite => {
+      return { from: rewrite.from, to: rewrite.to, insert: rewrite.newTarget }
+    }), document.length)
+    return await app.documents.applyChanges(filePath, changes, document.version) !== false
+  }
+
+  const descriptor = app.fsal.findFile(filePath)
+  if (descriptor === undefined || descriptor.type !== 'file') {
+    return false
+  }
+
+  const content = await FSALFile.load(descriptor)
+  if (rewrites.some(rewrite => content.substring(rewrite.from, rewrite.to) !== rewrite.oldTarget)) {
+    return false // The file has changed in the meantime
+  }
+
+  let newContent = content
+  for (const rewrite of [...rewrites].sort((a, b) => b.from - a.from)) {
+    newContent = newContent.substring(0, rewrite.from) + rewrite.newTarget + newContent.substring(rewrite.to)
+  }
+
+  await app.fsal.writeTextFile(descriptor, newContent)
+  return true
+}
+
+/**
+ * Performs a move or rename, and afterwards asks the user whether the relative
+ * links and images that the move breaks should be updated.
+ *
+ * @param   {AppServiceContainer}  app      The app
+ * @param   {string}               oldPath  The file or directory to be moved
+ * @param   {string}               newPath  Its new path
+ * @param   {() => Promise<void>}  move     Performs the actual move
+ */
+export default async function moveAndUpdateFileLinks (
+  app: AppServiceContainer,
+  oldPath: string,
+  newPath: string,
+  move: () => Promise<void>
+): Promise<void> {
+  // The links need to be resolved while the files are still in their place
+  let updates: LinkUpdate[] = []
+  try {
+    updates = await planLinkUpdates(app, oldPath, newPath)
+  } catch (err: any) {
+    app.log.error(`[Application] Could not determine the links affected by moving ${oldPath}: ${String(err.message)}`, err)
+  }
+
+  await move()
+
+  if (updates.length === 0) {
+    return
+  }
+
+  const linkCount = updates.reduce((sum, update) => sum + update.rewrites.length, 0)
+  const response = await dialog.showMessageBox({
+    title: trans('Confirm'),
+    message: trans('Update %s relative links and images in %s files?', linkCount, updates.length),
+    buttons: [
+      trans('Yes'),
+      trans('No')
+    ],
+    defaultId: 0
+  })
+
+  if (response.response === 1) {
+    return // Do not update the links.
+  }
+
+  for (const update of updates) {
+    try {
+      if (!await applyLinkUpdate(app, update)) {
+        app.log.warning(`[Application] Could not update the links in file ${update.filePath}: The file has changed.`)
+        continue
+      }
+
+      for (const { oldTarget, newTarget } of update.rewrites) {
+        app.log.info(`[Application] Replaced link to ${oldTarget} with ${newTarget} in file ${update.filePath}`)
+      }
+    } catch (err: any) {
+      app.log.error(`[Application] Could not update the links in file ${update.filePath}: ${String(err.message)}`, err)
+    }
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        WorkspaceReplace command
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This command searches and replaces text across many files at
+ *                  once. Files loaded in an editor are changed through the
+ *                  DocumentManager, all others are written via the FSAL. The
+ *                  last replace operation can be undone as a whole.
+ *
+ * END HEADER
+ */
+
+import ZettlrCommand from './zettlr-command'
+import { FSALCodeFile, FSALFile } from '@providers/fsal'
+import findReplaceMatches, { applyReplaceMatches } from '@common/util/find-replace-matches'
+import { ChangeSet, Text } from '@codemirror/state'
+import {
+  WorkspaceReplaceFile,
+  WorkspaceReplaceOptions,
+  WorkspaceReplaceResult
+} from '@dts/common/search'
+
+/**
+ * Records how a single file has been changed, so that the change can be undone
+ */
+type ReplaceUndoStep = {
+  type: 'document'
+  path: string
+  inverse: ChangeSet
+  version: number
+  replacements: number
+} | {
+  type: 'disk'
+  path: string
+  before: string
+  after: string
+  replacements: number
+}
+
+export default class WorkspaceReplace extends ZettlrCommand {
+  /**
+   * The steps of the last replace operation, for undoing it
+   */
+  private _lastOperation: ReplaceUndoStep[]
+
+  constructor (app: any) {
+    super(app, [ 'workspace-replace-preview', 'workspace-replace-apply', 'workspace-replace-undo' ])
+    this._lastOperation = []
+  }
+
+  /**
+   * Generates a preview of a workspace replace, applies the selected matches
+   * of a preview, or undoes the last replace.
+   *
+   * @param   {string}  evt  The event name
+   * @param   {any}     arg  For a preview, the files to search and the options;
+   *                         for applying, the files with the matches to replace
+   *
+   * @return  {Promise<WorkspaceReplaceFile[]|WorkspaceReplaceResult>}  The
+   *                         preview, or what has been replaced.
+   */
+  async run (evt: string, arg: any): Promise<WorkspaceReplaceFile[]|WorkspaceReplaceResult> {
+    if (evt === 'workspace-replace-preview') {
+      return await this.preview(arg.files, arg.options)
+    } else if (evt === 'workspace-replace-apply') {
+      return await this.apply(arg.files)
+    } else {
+      return await this.undo()
+    }
+  }
+
+  /**
+   * Loads the current contents of a file, preferring any loaded document,
+   * since that may contain unsaved changes.
+   *
+   * @param   {string}  filePath  The file
+   *
+   * @return  {Promise<string|undefined>}  The contents, or undefined if the
+   *                                       file is not a known text file.
+   */
+  private async getContent (filePath: string): Promise<string|undefined> {
+    const doc = this._app.documents.getLoadedDocument(filePath)
+    if (doc !== undefined) {
+      return doc.content
+    }
+
+    const descriptor = this._app.fsal.findFile(filePath)
+    if (descriptor === undefined) {
+      return undefined
+    } else if (descriptor.type === 'file') {
+      return await FSALFile.load(descriptor)
+    } else {
+      return await FSALCodeFile.load(descriptor)
+    }
+  }
+
+  /**
+   * Finds all matches in the given files.
+   *
+   * @param   {string[]}                 files    The files to search
+   * @param   {WorkspaceReplaceOptions}  options  The search and replacement
+   *
+   * @return  {Promise<WorkspaceReplaceFile[]>}   All files with matches
+   */
+  private async preview (files: string[], options: WorkspaceReplaceOptions): Promise<WorkspaceReplaceFile[]> {
+    const results: WorkspaceReplaceFile[] = []
+    for (const filePath of files) {
+      const content = await this.getContent(filePath)
+      if (content === undefined) {
+        continue
+      }
+
+      const matches = findReplaceMatches(content, options)
+      if (matches.length > 0) {
+        results.push({ path: filePath, matches })
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Replaces the given matches. A file is skipped if its contents no longer
+   * correspond to the matches, i.e. it has been changed after the preview.
+   *
+   * @param   {WorkspaceReplaceFile[]}  files  The matches to replace per file
+   *
+   * @return  {Promise<WorkspaceReplaceResult>}  What has been replaced
+   */
+  private async apply (files: WorkspaceReplaceFile[]): Promise<WorkspaceReplaceResult> {
+    const steps: ReplaceUndoStep[] = []
+    const skipped: string[] = []
+
+    for (const { path: filePath, matches } of files) {
+      if (matches.length === 0) {
+        continue
+      }
+
+      const content = await this.getContent(filePath)
+      if (content === undefined || matches.some(match => content.substring(match.from, match.to) !== match.match)) {
+        this._app.log.warning(`[Workspace Replace] Skipping ${filePath}: The file has changed since the preview.`)
+        skipped.push(filePath)
+        continue
+      }
+
+      const doc = this._app.documents.getLoadedDocument(filePath)
+      if (doc !== undefined) {
+        const changes = ChangeSet.of(matches.map(match => {
+          return { from: match.from, to: match.to, insert: match.replacement }
+        }), content.length)
+        const version = await this._app.documents.applyChanges(filePath, changes, doc.version)
+        if (version === false) {
+          skipped.push(filePath)
+          continue
+        }
+
+        const inverse = changes.invert(Text.of(content.split('\n')))
+        steps.push({ type: 'document', path: filePath, inverse, version, replacements: matches.length })
+      } else {
+        const descriptor = this._app.fsal.findFile(filePath)
+        if (descriptor === undefined) {
+          skipped.push(filePath)
+          continue
+        }
+
+        const newContent = applyReplaceMatches(content, matches)
+        await this._app.fsal.writeTextFile(descriptor, newContent)
+        steps.push({ type: 'disk', path: filePath, before: content, after: newContent, replacements: matches.length })
+      }
+
+      this._app.log.info(`[Workspace Replace] Replaced ${matches.length} matches in file ${filePath}`)
+    }
+
+    this._lastOperation = steps
+
+    return {
+      replacements: steps.reduce((sum, step) => sum + step.replacements, 0),
+      files: steps.length,
+      skipped
+    }
+  }
+
+  /**
+   * Undoes the last replace operation. Changes to loaded documents are undone
+   * even if the documents have been edited since. Files on disk are only
+   * restored if they have not been changed since.
+   *
+   * @return  {Promise<WorkspaceReplaceResult>}  What has been restored
+   */
+  private async undo (): Promise<WorkspaceReplaceResult> {
+    const steps = this._lastOperation
+    this._lastOperation = []
+
+    const result: WorkspaceReplaceResult = { replacements: 0, files: 0, skipped: [] }
+    for (const step of steps) {
+      let success = false
+      if (step.type === 'document') {
+        success = await this._app.documents.applyChanges(step.path, step.inverse, step.version) !== false
+      } else if (await this.getContent(step.path) === step.after) {
+        // The file may have been opened in an editor in the meantime
+        const doc = this._app.documents.getLoadedDocument(step.path)
+        const descriptor = this._app.fsal.findFile(step.path)
+        if (doc !== undefined) {
+          const changes = ChangeSet.of({ from: 0, to: doc.content.length, insert: step.before }, doc.content.length)
+          success = await this._app.documents.applyChanges(step.path, changes) !== false
+        } else if (descriptor !== undefined) {
+          await this._app.fsal.writeTextFile(descriptor, step.before)
+          success = true
+        }
+      }
+
+      if (success) {
+        result.replacements += step.replacements
+        result.files++
+      } else {
+        this._app.log.warning(`[Workspace Replace] Could not undo the replacements in ${step.path}: The file has changed.`)
+        result.skipped.push(step.path)
+      }
+    }
+
+    return result
+  }
+}
@@ -40,7 +40,10 @@ const RULES = {
   'cslLibrary': 'optional|string|default:',
   'display.imageWidth': 'required|number|min:1|max:100|default:100',
   'display.imageHeight': 'required|number|min:1|max:100|default:100',
-  'watchdog.stabilityThreshold': 'optional|number|min:1|max:100000|default:1000'
+  'watchdog.stabilityThreshold': 'optional|number|min:1|max:100000|default:1000',
+  'git.autoCommitInterval': 'optional|number|min:1|max:1440|default:30',
+  'snapshots.retentionDays': 'optional|number|min:1|max:3650|default:30',
+  'journal.filenamePattern': 'required|string|min:2|default:%Y-%M-%D'
 }
 
 export const VALIDATE_RULES = Object.values(RULES)
@@ -224,6 +224,22 @@ export default function getConfigTemplate (): ConfigOptions {
       activatePolling: false, // Set to true to enable polling in chokidar
       stabilityThreshold: 1000 // Positive int in milliseconds
     },
+    git: {
+      autoCommit: false, // Whether to commit all changes in Git repositories regularly
+      autoCommitInterval: 30 // Positive int in minutes
+    },
+    snapshots: {
+      enabled: true, // Whether to take a snapshot of a file whenever it is saved
+      retentionDays: 30 // Positive int in days
+    },
+    journal: {
+      directory: '', // The folder in which journal notes are kept
+      filenamePattern: '%Y-%M-%D', // The filename pattern for journal notes
+      template: '' // An optional note template for new journal notes
+    },
+    tasks: {
+      notifyOverdue: false // Whether to show a notification for overdue tasks
+    },
     system: {
       deleteOnFail: false, // Whether to delete files if trashing them fails
       leaveAppRunning: false, // Whether to leave app running in the notification area (tray)
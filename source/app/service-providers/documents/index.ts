@@ -33,6 +33,10 @@ import { Update } from '@codemirror/collab'
 import { ChangeSet, Text } from '@codemirror/state'
 import { CodeFileDescriptor, MDFileDescriptor } from '@dts/common/fsal'
 import countWords from '@common/util/count-words'
+import { trans } from '@common/i18n-main'
+import { applyMergeChoices, hasConflicts, MergeChoice, threeWayMerge } from '@common/util/three-way-merge'
+import { getMinimalChange } from './util/get-minimal-change'
+import { TabstopRange } from '@common/util/snippet-template'
 
 type DocumentWindows = Record<string, DocumentTree>
 
@@ -70,6 +74,11 @@ interface Document {
    * === currentVersion, the file is not modified.
    */
   lastSavedVersion: number
+  /**
+   * The contents of the file as they were last loaded from or saved to disk.
+   * This is the base for merging changes made on disk with unsaved changes.
+   */
+  lastSavedContent: string
   /**
    * Holds all updates between minimumVersion and currentVersion in a granular
    * form.
@@ -147,6 +156,14 @@ export default class DocumentManager extends ProviderContract {
    */
   private readonly documents: Document[]
 
+  /**
+   * Holds the tabstops of files that have just been created from a template.
+   * They are handed to the first editor that loads the document.
+   *
+   * @var {Map<string, TabstopRange[][]>}
+   */
+  private readonly _pendingTabstops: Map<string, TabstopRange[][]>
+
   private _shuttingDown: boolean
 
   constructor (private readonly _app: AppServiceContainer) {
@@ -160,6 +177,7 @@ export default class DocumentManager extends ProviderContract {
     this._ignoreChanges = []
     this._remoteChangeDialogShownFor = []
     this.documents = []
+    this._pendingTabstops = new Map()
     this._shuttingDown = false
 
     const options: chokidar.WatchOptions = {
@@ -528,13 +546,17 @@ export default class DocumentManager extends ProviderContract {
 
   // DOCUMENT AUTHORITY FUNCTIONS
 
-  public async getDocument (filePath: string): Promise<{ content: string, type: DocumentType, startVersion: number }> {
+  public async getDocument (filePath: string): Promise<{ content: string, type: DocumentType, startVersion: number, tabstops?: TabstopRange[][] }> {
+    const tabstops = this._pendingTabstops.get(filePath)
+    this._pendingTabstops.delete(filePath)
+
     const existingDocument = this.documents.find(doc => doc.filePath === filePath)
     if (existingDocument !== undefined) {
       return {
         content: existingDocument.document.toString(),
         type: existingDocument.type,
-        startVersion: existingDocument.currentVersion
+        startVersion: existingDocument.currentVersion,
+        tabstops
       }
     }
 
@@ -563,6 +585,7 @@ export default class DocumentManager extends ProviderContract {
       }
     }
 
+    const document = Text.of(content.split(descriptor.linefeed))
     const doc: Document = {
       filePath,
       type,
@@ -570,8 +593,9 @@ export default class DocumentManager extends ProviderContract {
       currentVersion: 0,
       minimumVersion: 0,
       lastSavedVersion: 0,
+      lastSavedContent: document.toString(),
       updates: [],
-      document: Text.of(content.split(descriptor.linefeed)),
+      document,
       lastSavedWordCount: countWords(content, false),
       lastSavedCharCount: countWords(content, true),
       saveTimeout: undefined
@@ -580,7 +604,21 @@ export default class DocumentManager extends ProviderContract {
     this.documents.push(doc)
     this.syncWatchedFilePaths()
 
-    return { content, type, startVersion: 0 }
+    return { content, type, startVersion: 0, tabstops }
+  }
+
+  /**
+   * Remembers tabstops for a file that has just been created from a template.
+   * The next editor to load the file will activate them, so that the user can
+   * tab through them.
+   *
+   * @param   {string}            filePath  The absolute path to the file
+   * @param   {TabstopRange[][]}  tabstops  The tabstops, in order
+   */
+  public setPendingTabstops (filePath: string, tabstops: TabstopRange[][]): void {
+    if (tabstops.length > 0) {
+      this._pendingTabstops.set(filePath, tabstops)
+    }
   }
 
   private async pullUpdates (filePath: string, clientVersion: number): Promise<Update[]|false> {
@@ -666,6 +704,64 @@ export default class DocumentManager extends ProviderContract {
     return true
   }
 
+  /**
+   * Returns the content and version of a document, if it is currently loaded
+   * by an editor. The content may contain changes that are not yet saved.
+   *
+   * @param   {string}  filePath  The absolute path to the file
+   *
+   * @return  {{ content: string, version: number }|undefined}  The document
+   */
+  public getLoadedDocument (filePath: string): { content: string, version: number }|undefined {
+    const doc = this.documents.find(doc => doc.filePath === filePath)
+    if (doc === undefined) {
+      return undefined
+    }
+
+    return { content: doc.document.toString(), version: doc.currentVersion }
+  }
+
+  /**
+   * Applies changes to a loaded document on behalf of the main process. The
+   * editors pull these changes like any other update, so that unsaved changes
+   * are preserved. If a version is provided, the changes refer to that version
+   * of the document and are mapped over all updates that happened since.
+   *
+   * @param   {string}     filePath      The absolute path to the file
+   * @param   {ChangeSet}  changes       The changes to apply
+   * @param   {number}     sinceVersion  Optional, the version the changes refer to
+   *
+   * @return  {Promise<number|false>}    The new version, or false if the
+   *                                     changes could not be applied.
+   */
+  public async applyChanges (filePath: string, changes: ChangeSet, sinceVersion?: number): Promise<number|false> {
+    const doc = this.documents.find(doc => doc.filePath === filePath)
+    if (doc === undefined) {
+      return false
+    }
+
+    if (sinceVersion !== undefined) {
+      if (sinceVersion < doc.minimumVersion || sinceVersion > doc.currentVersion) {
+        return false // The necessary updates are no longer available
+      }
+
+      for (const update of doc.updates.slice(sinceVersion - doc.minimumVersion)) {
+        changes = changes.map(ChangeSet.fromJSON(update.changes))
+      }
+    }
+
+    if (changes.length !== doc.document.length) {
+      return false
+    }
+
+    const success = await this.pushUpdates(filePath, doc.currentVersion, [{
+      clientID: 'main-process',
+      changes: changes.toJSON()
+    }])
+
+    return success ? doc.currentVersion : false
+  }
+
   // END DOCUMENT AUTHORITY FUNCTIONS
 
   /**
@@ -872,6 +968,21 @@ export default class DocumentManager extends ProviderContract {
     // for newer modtime to prevent sluggish cloud synchronization services
     // (e.g. OneDrive and Box) from having text appear to "jump" from time to time.
     if (modtime > ourModtime) {
+      // If there are unsaved changes, reloading the file would lose them, so
+      // merge the changes on disk into the document instead.
+      if (doc.lastSavedVersion !== doc.currentVersion) {
+        if (this._remoteChangeDialogShownFor.includes(filePath)) {
+          return
+        }
+        this._remoteChangeDialogShownFor.push(filePath)
+        try {
+          await this.mergeRemoteChange(doc, modtime)
+        } finally {
+          this._remoteChangeDialogShownFor.splice(this._remoteChangeDialogShownFor.indexOf(filePath), 1)
+        }
+        return
+      }
+
       // Notify the caller, that the file has actually changed on disk.
       // The contents of one of the open files have changed.
       // What follows looks a bit ugly, welcome to callback hell.
@@ -899,6 +1010,50 @@ export default class DocumentManager extends ProviderContract {
     }
   }
 
+  /**
+   * Merges the changes that have been made on disk into a document with
+   * unsaved changes. The last saved contents serve as the common base. If both
+   * changed the same lines, the user decides how to resolve each conflict.
+   *
+   * @param   {Document}  doc      The document
+   * @param   {number}    modtime  The modification time of the file on disk
+   */
+  private async mergeRemoteChange (doc: Document, modtime: number): Promise<void> {
+    const { filePath } = doc
+    const remoteContent = Text.of((await this._app.fsal.loadAnySupportedFile(filePath)).split(doc.descriptor.linefeed)).toString()
+    const version = doc.currentVersion
+    const content = doc.document.toString()
+    const chunks = threeWayMerge(doc.lastSavedContent, content, remoteContent)
+
+    let choices: MergeChoice[] = []
+    if (hasConflicts(chunks)) {
+      const userChoices = await this._app.windows.showMergeConflictModal(filePath, chunks)
+      if (userChoices === undefined) {
+        // The user keeps their version, which will overwrite the file on save
+        this._app.log.info(`[DocumentManager] Kept the unsaved changes of ${filePath} over the changes on disk.`)
+        doc.lastSavedContent = remoteContent
+        doc.descriptor.modtime = modtime
+        return
+      }
+      choices = userChoices
+    }
+
+    // The document may have changed while the user resolved the conflicts, so
+    // the changes refer to the version at the beginning of the merge.
+    const merged = applyMergeChoices(chunks, choices)
+    if (await this.applyChanges(filePath, getMinimalChange(content, merged), version) === false) {
+      this._app.log.error(`[DocumentManager] Could not merge the changes on disk into ${filePath}: The document has changed too much in the meantime.`)
+      return
+    }
+
+    doc.lastSavedContent = remoteContent
+    doc.descriptor.modtime = modtime
+    this._app.log.info(`[DocumentManager] Merged the changes on disk into ${filePath}.`)
+    if (!hasConflicts(chunks)) {
+      this._app.notifications.show(trans('Merged the changes to %s on disk with your unsaved changes.', path.basename(filePath)))
+    }
+  }
+
   /**
    * This function can be called from within the FSAL or programmatically, if a
    * file has been programmatically been moved (either by renaming or moving).
@@ -1324,6 +1479,7 @@ export default class DocumentManager extends ProviderContract {
     // 4. The save finishes and undos the modifications
     const content = doc.document.toString()
     doc.lastSavedVersion = doc.currentVersion
+    doc.lastSavedContent = content
 
     if (doc.descriptor.type === 'file') {
       // In case of an MD File increase the word or char count
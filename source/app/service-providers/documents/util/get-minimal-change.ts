@@ -0,0 +1,47 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        getMinimalChange
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Computes the smallest single change that turns one text
+ *                  into another.
+ *
+ * END HEADER
+ */
+
+import { ChangeSet } from '@codemirror/state'
+
+/**
+ * Computes a ChangeSet that turns one text into another, replacing only the
+ * part between the common beginning and end of both texts. This way, editors
+ * can map cursors and selections outside of that part.
+ *
+ * @param   {string}     content     The current text
+ * @param   {string}     newContent  The new text
+ *
+ * @return  {ChangeSet}              The changes
+ */
+export function getMinimalChange (content: string, newContent: string): ChangeSet {
+  let from = 0
+  while (from < content.length && from < newContent.length && content[from] === newContent[from]) {
+    from++
+  }
+
+  let end = 0
+  while (
+    end < content.length - from && end < newContent.length - from &&
+    content[content.length - end - 1] === newContent[newContent.length - end - 1]
+  ) {
+    end++
+  }
+
+  return ChangeSet.of({
+    from,
+    to: content.length - end,
+    insert: newContent.substring(from, newContent.length - end)
+  }, content.length)
+}
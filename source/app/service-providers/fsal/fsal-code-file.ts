@@ -19,6 +19,7 @@ import { shell } from 'electron'
 import safeAssign from '@common/util/safe-assign'
 // Import the interfaces that we need
 import { CodeFileDescriptor } from '@dts/common/fsal'
+import { SearchTerm } from '@dts/common/search'
 import FSALCache from './fsal-cache'
 import extractBOM from './util/extract-bom'
 
@@ -124,7 +125,7 @@ export async function parse (
   return file
 }
 
-export async function search (fileObject: CodeFileDescriptor, terms: any[]): Promise<any> {
+export async function search (fileObject: CodeFileDescriptor, terms: SearchTerm): Promise<any> {
   // Initialise the content variables (needed to check for NOT operators)
   let cnt = await fs.readFile(fileObject.path, { encoding: 'utf8' })
   return searchFile(fileObject, terms, cnt)
@@ -37,7 +37,8 @@ import { safeDelete } from './util/safe-delete'
 const SETTINGS_TEMPLATE = {
   sorting: 'name-up' as SortMethod,
   project: null as ProjectSettings|null, // Default: no project
-  icon: null as null|string // Default: no icon
+  icon: null as null|string, // Default: no icon
+  template: null as null|string // Default: no note template for new files
 }
 
 const ALLOWED_CODE_FILES = codeFileExtensions(true)
@@ -55,7 +56,9 @@ const PROJECT_TEMPLATE: ProjectSettings = {
   templates: {
     tex: '', // An optional tex template
     html: '' // An optional HTML template
-  }
+  },
+  liveExport: false, // Whether to re-export the project whenever a file changes
+  smartFolder: '' // An optional smart folder to use as the file set
 }
 
 /**
@@ -289,8 +292,10 @@ export async function updateProjectProperties (dirObject: DirDescriptor, propert
   const formatsUnchanged = JSON.stringify(dirObject.settings.project.profiles) === JSON.stringify(properties.profiles)
   const filtersUnchanged = JSON.stringify(dirObject.settings.project.filters) === JSON.stringify(properties.filters)
   const templatesUnchanged = JSON.stringify(dirObject.settings.project.templates) === JSON.stringify(properties.templates)
+  const liveExportUnchanged = dirObject.settings.project.liveExport === properties.liveExport
+  const smartFolderUnchanged = dirObject.settings.project.smartFolder === properties.smartFolder
 
-  if (titleUnchanged && cslUnchanged && formatsUnchanged && filtersUnchanged && templatesUnchanged) {
+  if (titleUnchanged && cslUnchanged && formatsUnchanged && filtersUnchanged && templatesUnchanged && liveExportUnchanged && smartFolderUnchanged) {
     return false
   }
 
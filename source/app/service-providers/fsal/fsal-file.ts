@@ -83,6 +83,8 @@ export async function parse (
     id: '', // The ID, if there is one inside the file.
     tags: [], // All tags that are to be found inside the file's contents.
     links: [], // Any outlinks
+    citekeys: [], // Any cited citekeys
+    tasks: [], // Any tasks
     bom: '', // Default: No BOM
     type: 'file',
     wordCount: 0,
@@ -113,8 +115,9 @@ export async function parse (
   let hasCache = false
   if (cache?.has(file.path) === true) {
     let cachedFile = cache.get(file.path)
-    // If the modtime is still the same, we can apply the cache
-    if (cachedFile.modtime === file.modtime) {
+    // If the modtime is still the same, we can apply the cache. Files cached
+    // before citekeys and tasks were extracted need to be parsed again, however.
+    if (cachedFile.modtime === file.modtime && 'citekeys' in cachedFile && 'tasks' in cachedFile) {
       file = applyCache(cachedFile, file)
       hasCache = true
     }
@@ -140,7 +143,7 @@ export async function parse (
  *
  * @return  {Promise<any>}                  Resolves with search results
  */
-export async function search (fileObject: MDFileDescriptor, terms: SearchTerm[]): Promise<any> {
+export async function search (fileObject: MDFileDescriptor, terms: SearchTerm): Promise<any> {
   // Initialise the content variables (needed to check for NOT operators)
   let cnt = await fs.readFile(fileObject.path, { encoding: 'utf8' })
   return searchFile(fileObject, terms, cnt)
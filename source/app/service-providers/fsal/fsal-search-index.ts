@@ -0,0 +1,341 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        FSALSearchIndex class
+ * CVM-Role:        Model
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This class maintains an inverted index over the contents of
+ *                  all loaded files. It does not replace the full-text search
+ *                  of the individual files, but it allows the FSAL to skip all
+ *                  files that cannot possibly match a query. The index is
+ *                  persisted alongside the FSAL cache so that it does not need
+ *                  to be rebuilt on every start.
+ *
+ * END HEADER
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { SearchTerm } from '@dts/common/search'
+
+/**
+ * Increase this whenever the tokenisation changes, so that old indices are
+ * discarded instead of producing wrong results.
+ *
+ * @var {number}
+ */
+const INDEX_VERSION = 1
+
+/**
+ * Matches runs of letters and numbers, which constitute the tokens of the index
+ *
+ * @var {RegExp}
+ */
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu
+
+/**
+ * The maximum length of the n-grams by which tokens are looked up
+ *
+ * @var {number}
+ */
+const NGRAM_LENGTH = 3
+
+interface IndexedDocument {
+  /**
+   * The modification time of the file when it was indexed
+   */
+  modtime: number
+  /**
+   * All unique, lowercased tokens of the file
+   */
+  tokens: string[]
+}
+
+/**
+ * Splits the given text into unique, lowercase tokens.
+ *
+ * @param   {string}    text  The text to tokenise
+ *
+ * @return  {string[]}        The unique tokens
+ */
+export function tokenise (text: string): string[] {
+  return [...new Set(text.toLowerCase().match(TOKEN_RE) ?? [])]
+}
+
+/**
+ * Returns all substrings of the token of up to NGRAM_LENGTH characters.
+ *
+ * @param   {string}    token  The token
+ *
+ * @return  {string[]}         The unique n-grams
+ */
+function getNgrams (token: string): string[] {
+  const ngrams = new Set<string>()
+  for (let n = 1; n <= NGRAM_LENGTH; n++) {
+    for (let i = 0; i + n <= token.length; i++) {
+      ngrams.add(token.substring(i, i + n))
+    }
+  }
+  return [...ngrams]
+}
+
+export default class FSALSearchIndex {
+  private readonly _datafile: string
+  /**
+   * Contains the tokens per file, which is what gets persisted
+   */
+  private readonly _documents: Map<string, IndexedDocument>
+  /**
+   * The actual inverted index: Maps every token to the files containing it
+   */
+  private readonly _postings: Map<string, Set<string>>
+  /**
+   * Maps n-grams to all tokens containing them, so that query words, which
+   * may match any part of a token, do not require a scan of all tokens
+   */
+  private readonly _ngrams: Map<string, Set<string>>
+
+  constructor (datafile: string) {
+    this._datafile = datafile
+    this._documents = new Map()
+    this._postings = new Map()
+    this._ngrams = new Map()
+  }
+
+  /**
+   * Loads the persisted index from disk. A missing or outdated index file is
+   * not an error; the index will simply start out empty.
+   */
+  load (): void {
+    if (!fs.existsSync(this._datafile)) {
+      return
+    }
+
+    const data = JSON.parse(fs.readFileSync(this._datafile, 'utf-8'))
+    if (data.version !== INDEX_VERSION || !Array.isArray(data.documents)) {
+      return
+    }
+
+    this.clear()
+    for (const [ filePath, document ] of data.documents as Array<[string, IndexedDocument]>) {
+      this._add(filePath, document)
+    }
+  }
+
+  /**
+   * Writes the index to disk.
+   */
+  persist (): void {
+    fs.mkdirSync(path.dirname(this._datafile), { recursive: true })
+    fs.writeFileSync(this._datafile, JSON.stringify({
+      version: INDEX_VERSION,
+      documents: Array.from(this._documents.entries())
+    }))
+  }
+
+  /**
+   * Removes all files from the index.
+   */
+  clear (): void {
+    this._documents.clear()
+    this._postings.clear()
+    this._ngrams.clear()
+  }
+
+  get size (): number {
+    return this._documents.size
+  }
+
+  /**
+   * Returns true if the file has been indexed at the given modification time.
+   *
+   * @param   {string}   filePath  The file
+   * @param   {number}   modtime   Its current modification time
+   *
+   * @return  {boolean}            Whether the index is up to date for this file
+   */
+  isCurrent (filePath: string, modtime: number): boolean {
+    return this._documents.get(filePath)?.modtime === modtime
+  }
+
+  /**
+   * (Re-)indexes a file.
+   *
+   * @param   {string}  filePath  The file
+   * @param   {number}  modtime   Its modification time
+   * @param   {string}  text      Everything that should be searchable
+   */
+  update (filePath: string, modtime: number, text: string): void {
+    this._remove(filePath)
+    this._add(filePath, { modtime, tokens: tokenise(text) })
+  }
+
+  /**
+   * Removes a file, or a directory with all files within it, from the index.
+   *
+   * @param   {string}  removedPath  The removed path
+   */
+  remove (removedPath: string): void {
+    for (const filePath of [...this._documents.keys()]) {
+      if (filePath === removedPath || filePath.startsWith(removedPath + path.sep)) {
+        this._remove(filePath)
+      }
+    }
+  }
+
+  /**
+   * Returns all indexed files that may match the given terms. Since the
+   * full-text search matches substrings, a query word matches every token that
+   * contains it. Negations, regular expressions, and fields are not
+   * considered, since they can only be verified by the full-text search.
+   *
+   * @param   {SearchTerm}            term  The compiled search terms
+   *
+   * @return  {Set<string>|undefined}       The candidates, or undefined if the
+   *                                        terms cannot be used to narrow down
+   *                                        the files
+   */
+  candidates (term: SearchTerm): Set<string>|undefined {
+    if (term.type === 'text') {
+      return this._matchWord(term.value)
+    } else if (term.type === 'and') {
+      let result: Set<string>|undefined
+      for (const child of term.terms) {
+        const childMatches = this.candidates(child)
+        if (childMatches !== undefined) {
+          result = (result === undefined) ? childMatches : intersect(result, childMatches)
+        }
+      }
+      return result
+    } else if (term.type === 'or') {
+      const result = new Set<string>()
+      for (const child of term.terms) {
+        // If any alternative cannot be looked up, neither can the group
+        const childMatches = this.candidates(child)
+        if (childMatches === undefined) {
+          return undefined
+        }
+        childMatches.forEach(filePath => result.add(filePath))
+      }
+      return result
+    }
+
+    return undefined
+  }
+
+  /**
+   * Returns all files containing the given (possibly multi-token) word.
+   *
+   * @param   {string}                 word  The word or phrase
+   *
+   * @return  {Set<string>|undefined}        The files, or undefined if the
+   *                                         word contains no tokens
+   */
+  private _matchWord (word: string): Set<string>|undefined {
+    const queryTokens = tokenise(word)
+    if (queryTokens.length === 0) {
+      return undefined
+    }
+
+    let result: Set<string>|undefined
+    for (const queryToken of queryTokens) {
+      const files = new Set<string>()
+      for (const token of this._findTokens(queryToken)) {
+        for (const filePath of this._postings.get(token) ?? []) {
+          files.add(filePath)
+        }
+      }
+      result = (result === undefined) ? files : intersect(result, files)
+    }
+
+    return result
+  }
+
+  /**
+   * Returns all tokens that contain the query token.
+   *
+   * @param   {string}    queryToken  The (lowercase) query token
+   *
+   * @return  {string[]}              The matching tokens
+   */
+  private _findTokens (queryToken: string): string[] {
+    if (queryToken.length <= NGRAM_LENGTH) {
+      return [...this._ngrams.get(queryToken) ?? []]
+    }
+
+    // Every matching token contains all n-grams of the query, so it suffices
+    // to check the tokens of the rarest one
+    let candidates: Set<string>|undefined
+    for (const ngram of getNgrams(queryToken).filter(ngram => ngram.length === NGRAM_LENGTH)) {
+      const tokens = this._ngrams.get(ngram)
+      if (tokens === undefined) {
+        return []
+      }
+
+      if (candidates === undefined || tokens.size < candidates.size) {
+        candidates = tokens
+      }
+    }
+
+    return [...candidates ?? []].filter(token => token.includes(queryToken))
+  }
+
+  private _add (filePath: string, document: IndexedDocument): void {
+    this._documents.set(filePath, document)
+    for (const token of document.tokens) {
+      const postings = this._postings.get(token)
+      if (postings === undefined) {
+        this._postings.set(token, new Set([filePath]))
+        for (const ngram of getNgrams(token)) {
+          const tokens = this._ngrams.get(ngram)
+          if (tokens === undefined) {
+            this._ngrams.set(ngram, new Set([token]))
+          } else {
+            tokens.add(token)
+          }
+        }
+      } else {
+        postings.add(filePath)
+      }
+    }
+  }
+
+  private _remove (filePath: string): void {
+    const document = this._documents.get(filePath)
+    if (document === undefined) {
+      return
+    }
+
+    for (const token of document.tokens) {
+      const postings = this._postings.get(token)
+      postings?.delete(filePath)
+      if (postings?.size === 0) {
+        this._postings.delete(token)
+        for (const ngram of getNgrams(token)) {
+          const tokens = this._ngrams.get(ngram)
+          tokens?.delete(token)
+          if (tokens?.size === 0) {
+            this._ngrams.delete(ngram)
+          }
+        }
+      }
+    }
+
+    this._documents.delete(filePath)
+  }
+}
+
+/**
+ * Returns the intersection of two sets.
+ *
+ * @param   {Set<string>}  a  The first set
+ * @param   {Set<string>}  b  The second set
+ *
+ * @return  {Set<string>}     All elements contained in both sets
+ */
+function intersect (a: Set<string>, b: Set<string>): Set<string> {
+  return new Set([...a].filter(elem => b.has(elem)))
+}
@@ -27,6 +27,7 @@ import * as FSALDir from './fsal-directory'
 import * as FSALAttachment from './fsal-attachment'
 import FSALWatchdog, { WatchdogEvent } from './fsal-watchdog'
 import FSALCache from './fsal-cache'
+import FSALSearchIndex from './fsal-search-index'
 import getSorter, { GenericSorter } from './util/sort'
 import {
   AnyDescriptor,
@@ -38,7 +39,7 @@ import {
   SortMethod,
   FSALStats, FSALHistoryEvent
 } from '@dts/common/fsal'
-import { SearchTerm } from '@dts/common/search'
+import { SearchResult, SearchTerm } from '@dts/common/search'
 import generateStats from './util/generate-stats'
 import ProviderContract from '@providers/provider-contract'
 import { app } from 'electron'
@@ -61,6 +62,13 @@ export {
   FSALAttachment
 }
 
+/**
+ * How long to wait after the last change before updating the search index
+ *
+ * @var {number}
+ */
+const SEARCH_INDEX_DELAY = 1000
+
 interface FSALState {
   openDirectory: DirDescriptor|null
   filetree: MaybeRootDescriptor[]
@@ -68,6 +76,13 @@ interface FSALState {
 
 export default class FSAL extends ProviderContract {
   private readonly _cache: FSALCache
+  private readonly _searchIndex: FSALSearchIndex
+  /**
+   * Paths that have been added or changed and need to be (re-)indexed
+   */
+  private readonly _searchIndexQueue: Set<string>
+  private _searchIndexTimeout: ReturnType<typeof setTimeout>|undefined
+  private _isIndexing: boolean
   private readonly _watchdog: FSALWatchdog
   private _isCurrentlyHandlingRemoteChange: boolean
   private _fsalIsBusy: boolean
@@ -85,6 +100,10 @@ export default class FSAL extends ProviderContract {
 
     const cachedir = app.getPath('userData')
     this._cache = new FSALCache(this._logger, path.join(cachedir, 'fsal/cache'))
+    this._searchIndex = new FSALSearchIndex(path.join(cachedir, 'fsal/search-index.json'))
+    this._searchIndexQueue = new Set()
+    this._searchIndexTimeout = undefined
+    this._isIndexing = false
     this._watchdog = new FSALWatchdog(this._logger, this._config)
     this._isCurrentlyHandlingRemoteChange = false
     this._fsalIsBusy = false // Locks certain functionality during running of actions
@@ -117,6 +136,14 @@ export default class FSAL extends ProviderContract {
     if (this._config.newVersionDetected() || shouldClearCache) {
       this._logger.info('Clearing the FSAL cache ...')
       this.clearCache()
+    } else {
+      try {
+        this._searchIndex.load()
+        this._logger.info(`[FSAL] Loaded search index with ${this._searchIndex.size} files.`)
+      } catch (err: any) {
+        this._logger.warning(`[FSAL] Could not load the search index, rebuilding it: ${String(err.message)}`)
+        this._searchIndex.clear()
+      }
     }
 
     // Start a timer to measure how long the roots take to load.
@@ -182,6 +209,13 @@ export default class FSAL extends ProviderContract {
 
     this._history.push({ event, path: changedPath, timestamp })
 
+    if (event === 'remove') {
+      this._searchIndex.remove(changedPath)
+      this._searchIndexQueue.delete(changedPath)
+    } else {
+      this._scheduleSearchIndexUpdate(changedPath)
+    }
+
     this._emitter.emit('fsal-state-changed', 'filetree', changedPath)
     broadcastIpcMessage('fsal-state-changed', 'filetree')
   }
@@ -432,6 +466,14 @@ export default class FSAL extends ProviderContract {
   public async shutdown (): Promise<void> {
     this._logger.verbose('FSAL shutting down ...')
     this._cache.persist()
+    if (this._searchIndexTimeout !== undefined) {
+      clearTimeout(this._searchIndexTimeout)
+    }
+    try {
+      this._searchIndex.persist()
+    } catch (err: any) {
+      this._logger.error(`[FSAL] Could not persist the search index: ${String(err.message)}`, err)
+    }
     await this._watchdog.shutdown()
   }
 
@@ -820,6 +862,7 @@ export default class FSAL extends ProviderContract {
    * Clears the cache
    */
   public clearCache (): void {
+    this._searchIndex.clear()
     return this._cache.clearCache()
   }
 
@@ -864,6 +907,30 @@ export default class FSAL extends ProviderContract {
     this._afterRemoteChange()
   }
 
+  /**
+   * Writes new contents to the given file. Files that are loaded in an editor
+   * should instead be changed through the DocumentManager so that any unsaved
+   * changes are preserved.
+   *
+   * @param   {MDFileDescriptor|CodeFileDescriptor}  src      The file
+   * @param   {string}                               content  The new contents
+   */
+  public async writeTextFile (src: MDFileDescriptor|CodeFileDescriptor, content: string): Promise<void> {
+    this._fsalIsBusy = true
+    // NOTE: Generates a change-event
+    this._watchdog.ignoreEvents([{ event: 'change', path: src.path }])
+
+    if (src.type === 'file') {
+      await FSALFile.save(src, content, this.getMarkdownFileParser(), this._cache)
+    } else {
+      await FSALCodeFile.save(src, content, this._cache)
+    }
+
+    this._recordFiletreeChange('change', src.path)
+    this._fsalIsBusy = false
+    this._afterRemoteChange()
+  }
+
   /**
    * Renames the given file
    *
@@ -939,11 +1006,11 @@ export default class FSAL extends ProviderContract {
    * Search the given file
    *
    * @param   {MDFileDescriptor}  src          The file to search
-   * @param   {SearchTerm[]}      searchTerms  The search terms
+   * @param   {SearchTerm}        searchTerms  The search terms
    *
    * @return {Promise<any>}                    Returns the results
    */
-  public async searchFile (src: MDFileDescriptor|CodeFileDescriptor, searchTerms: SearchTerm[]): Promise<any> { // TODO: Implement search results type
+  public async searchFile (src: MDFileDescriptor|CodeFileDescriptor, searchTerms: SearchTerm): Promise<any> { // TODO: Implement search results type
     // NOTE: Generates no events
     // Searches a file and returns the result
     if (src.type === 'file') {
@@ -953,6 +1020,109 @@ export default class FSAL extends ProviderContract {
     }
   }
 
+  /**
+   * Searches all given files and returns those that match the search terms,
+   * ranked by relevancy. Files that cannot match according to the search index
+   * are skipped; all others (including files which have not yet been indexed)
+   * are searched in full.
+   *
+   * @param   {string[]}      filePaths    The files to search
+   * @param   {SearchTerm}    searchTerms  The search terms
+   *
+   * @return  {Promise<Array<{ path: string, result: SearchResult[], weight: number }>>}  The results, best first
+   */
+  public async search (filePaths: string[], searchTerms: SearchTerm): Promise<Array<{ path: string, result: SearchResult[], weight: number }>> {
+    const candidates = this._searchIndex.candidates(searchTerms)
+    const results: Array<{ path: string, result: SearchResult[], weight: number }> = []
+
+    for (const filePath of filePaths) {
+      const descriptor = this.findFile(filePath)
+      if (descriptor === undefined) {
+        continue
+      }
+
+      const isIndexed = this._searchIndex.isCurrent(descriptor.path, descriptor.modtime)
+      if (candidates !== undefined && isIndexed && !candidates.has(descriptor.path)) {
+        continue
+      }
+
+      const result: SearchResult[] = await this.searchFile(descriptor, searchTerms)
+      if (result.length > 0) {
+        const weight = result.reduce((sum, current) => sum + current.weight, 0)
+        results.push({ path: descriptor.path, result, weight })
+      }
+    }
+
+    return results.sort((a, b) => b.weight - a.weight)
+  }
+
+  /**
+   * Queues the given path for (re-)indexing and (re-)starts the timer.
+   *
+   * @param   {string}  changedPath  The added or changed path
+   */
+  private _scheduleSearchIndexUpdate (changedPath: string): void {
+    this._searchIndexQueue.add(changedPath)
+
+    if (this._searchIndexTimeout !== undefined) {
+      clearTimeout(this._searchIndexTimeout)
+    }
+
+    this._searchIndexTimeout = setTimeout(() => {
+      this._searchIndexTimeout = undefined
+      this._updateSearchIndex().catch(err => this._logger.error(`[FSAL] Could not update search index: ${String(err.message)}`, err))
+    }, SEARCH_INDEX_DELAY)
+  }
+
+  /**
+   * Indexes all queued paths. Directories are indexed with all their files,
+   * and files that are already up to date in the index are skipped.
+   */
+  private async _updateSearchIndex (): Promise<void> {
+    if (this._isIndexing) {
+      return // The running update will pick up the queued paths
+    }
+
+    this._isIndexing = true
+    const start = performance.now()
+    let indexed = 0
+
+    try {
+      while (this._searchIndexQueue.size > 0) {
+        const queuedPath = this._searchIndexQueue.values().next().value as string
+        this._searchIndexQueue.delete(queuedPath)
+
+        const dir = this.findDir(queuedPath)
+        const files = (dir !== undefined)
+          ? objectToArray(dir, 'children').filter(descriptor => descriptor.type === 'file' || descriptor.type === 'code')
+          : [this.findFile(queuedPath)]
+
+        for (const file of files as Array<MDFileDescriptor|CodeFileDescriptor|undefined>) {
+          if (file === undefined || this._searchIndex.isCurrent(file.path, file.modtime)) {
+            continue
+          }
+
+          try {
+            const content = await fs.readFile(file.path, 'utf-8')
+            const tags = (file.type === 'file') ? file.tags.join(' ') : ''
+            this._searchIndex.update(file.path, file.modtime, `${file.name} ${tags}\n${content}`)
+            indexed++
+          } catch (err: any) {
+            // The file will simply be searched in full
+            this._logger.warning(`[FSAL] Could not index ${file.path}: ${String(err.message)}`)
+          }
+        }
+      }
+    } finally {
+      this._isIndexing = false
+    }
+
+    if (indexed > 0) {
+      const duration = Math.round(performance.now() - start)
+      this._logger.info(`[FSAL] Indexed ${indexed} files for search in ${duration}ms.`)
+    }
+  }
+
   /**
    * Sets the given directory settings
    *
@@ -0,0 +1,82 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        extractTasks
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This function extracts tasks from a Markdown string
+ *
+ * END HEADER
+ */
+
+import { getZknTagRE } from '@common/regular-expressions'
+import { MDFileTask } from '@dts/common/fsal'
+
+/**
+ * Matches a list item with a checkbox, e.g. "- [ ] Task" or "1. [x] Task"
+ *
+ * @var {RegExp}
+ */
+const TASK_RE = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/
+
+/**
+ * Matches a due date annotation, e.g. "@due(2024-05-01)"
+ *
+ * @var {RegExp}
+ */
+const DUE_RE = /(?:^|\s)@due\((\d{4}-\d{2}-\d{2})\)/
+
+/**
+ * Extracts all tasks from a Markdown file. Tasks within the YAML frontmatter
+ * and code blocks are ignored.
+ *
+ * @param   {string}         content  The Markdown source
+ *
+ * @return  {MDFileTask[]}            All tasks in order of appearance
+ */
+export default function extractTasks (content: string): MDFileTask[] {
+  const tasks: MDFileTask[] = []
+  const lines = content.split('\n')
+  const tagRE = getZknTagRE(true)
+
+  let inFrontmatter = lines[0].replace(/^\uFEFF/, '').trimEnd() === '---'
+  let inCodeBlock = false
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '')
+
+    if (inFrontmatter) {
+      if (i > 0 && [ '---', '...' ].includes(line.trimEnd())) {
+        inFrontmatter = false
+      }
+      continue
+    }
+
+    if (/^\s*(`{3,}|~{3,})/.test(line)) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+
+    const match = TASK_RE.exec(line)
+    if (inCodeBlock || match === null) {
+      continue
+    }
+
+    const dueMatch = DUE_RE.exec(match[2])
+    const text = match[2].replace(DUE_RE, '').trim()
+    const tags = [...text.matchAll(tagRE)].map(tagMatch => tagMatch[1].toLowerCase())
+
+    tasks.push({
+      text,
+      done: match[1] !== ' ',
+      line: i + 1,
+      due: (dueMatch !== null) ? dueMatch[1] : null,
+      tags: [...new Set(tags)]
+    })
+  }
+
+  return tasks
+}
@@ -15,12 +15,14 @@
 
 import { getCodeBlockRE } from '@common/regular-expressions'
 import countWords from '@common/util/count-words'
+import extractCitations from '@common/util/extract-citations'
 import extractYamlFrontmatter from '@common/util/extract-yaml-frontmatter'
 import { MDFileDescriptor } from '@dts/common/fsal'
 import extractBOM from './extract-bom'
 import extractFileId from './extract-file-id'
 import extractLinks from './extract-links'
 import extractTags from './extract-tags'
+import extractTasks from './extract-tasks'
 
 // Here are all supported variables for Pandoc:
 // https://pandoc.org/MANUAL.html#variables
@@ -78,6 +80,7 @@ export default function getMarkdownFileParser (
     file.id = extractFileId(file.name, content, idREPattern)
     file.tags = extractTags(frontmatter, contentWithoutCode)
     file.links = extractLinks(content)
+    file.tasks = extractTasks(content)
     file.firstHeading = null
     file.yamlTitle = undefined
     file.frontmatter = null
@@ -86,6 +89,7 @@ export default function getMarkdownFileParser (
     // steps rely on a Markdown string that is stripped of a potential YAML
     // frontmatter, any code -- inline and blocks -- as well as any comments.
 
+    file.citekeys = [...new Set(extractCitations(plainMarkdown).flatMap(citation => citation.citations.map(item => item.id)))]
     file.wordCount = countWords(plainMarkdown, false)
     file.charCount = countWords(plainMarkdown, true)
 
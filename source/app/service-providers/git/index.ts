@@ -0,0 +1,327 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        GitProvider
+ * CVM-Role:        Service Provider
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Provides Git integration for workspace roots that are Git
+ *                  repositories: It keeps track of changed files, stages and
+ *                  commits them, retrieves the history of files, and can
+ *                  commit automatically in regular intervals. This provider
+ *                  only drives the local git binary and never touches any
+ *                  remote.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { ipcMain } from 'electron'
+import ProviderContract from '../provider-contract'
+import LogProvider from '../log'
+import ConfigProvider from '@providers/config'
+import FSAL from '@providers/fsal'
+import DocumentManager from '@providers/documents'
+import broadcastIpcMessage from '@common/util/broadcast-ipc-message'
+import { getProgramVersion } from '../../util/get-program-version'
+import { computeLineDiff, DiffLine } from '@common/util/line-diff'
+import runGit from './util/run-git'
+import { GIT_LOG_FORMAT, parseGitLog, parseGitStatus } from './util/parse-git-output'
+import { DP_EVENTS } from '@dts/common/documents'
+import { GitCommit, GitRepositoryStatus } from '@dts/common/git'
+
+const STATUS_UPDATE_DELAY = 1000 // Bundle the many changes that occur, e.g., while saving
+const MAX_HISTORY_LENGTH = 100 // Retrieve no more than this many commits per file
+const COMMIT_HASH_RE = /^[0-9a-f]{4,40}$/ // (Abbreviated) commit hashes as reported by git log
+
+export default class GitProvider extends ProviderContract {
+  private _gitVersion: string|undefined
+  /**
+   * The status of every workspace root that is a Git repository
+   */
+  private _status: GitRepositoryStatus[]
+  private _updateTimeout: ReturnType<typeof setTimeout>|undefined
+  private _autoCommitInterval: ReturnType<typeof setInterval>|undefined
+
+  constructor (
+    private readonly _logger: LogProvider,
+    private readonly _config: ConfigProvider,
+    private readonly _fsal: FSAL,
+    private readonly _documents: DocumentManager
+  ) {
+    super()
+    this._gitVersion = undefined
+    this._status = []
+    this._updateTimeout = undefined
+    this._autoCommitInterval = undefined
+
+    ipcMain.handle('git-provider', async (event, message) => {
+      const { command, payload } = message
+
+      if (command === 'get-status') {
+        return this._status
+      } else if (command === 'stage') {
+        return await this.stage(payload.root, payload.paths)
+      } else if (command === 'unstage') {
+        return await this.unstage(payload.root, payload.paths)
+      } else if (command === 'commit') {
+        return await this.commit(payload.root, payload.message)
+      } else if (command === 'get-history') {
+        return await this.getHistory(payload.path)
+      } else if (command === 'diff-revision') {
+        return await this.diffRevision(payload.path, payload.hash)
+      }
+    })
+  }
+
+  async boot (): Promise<void> {
+    this._logger.verbose('Git provider booting up ...')
+    try {
+      this._gitVersion = await getProgramVersion('git')
+      this._logger.info(`[Git Provider] Found git ${String(this._gitVersion)}`)
+    } catch (err: any) {
+      this._logger.warning(`[Git Provider] Git is not available, disabling the Git integration: ${String(err.message)}`)
+      return
+    }
+
+    this._fsal.on('fsal-state-changed', (which: string) => {
+      if (which === 'filetree') {
+        this._scheduleStatusUpdate()
+      }
+    })
+
+    this._documents.on(DP_EVENTS.CHANGE_FILE_STATUS, (ctx: { status: string }) => {
+      if (ctx.status === 'modification') {
+        this._scheduleStatusUpdate() // Triggered after a file has been saved
+      }
+    })
+
+    this._config.on('update', (option: string) => {
+      if (option === undefined || option.startsWith('git.')) {
+        this._setupAutoCommit()
+      }
+    })
+
+    this._setupAutoCommit()
+    this._scheduleStatusUpdate()
+  }
+
+  async shutdown (): Promise<void> {
+    this._logger.verbose('Git provider shutting down ...')
+    if (this._updateTimeout !== undefined) {
+      clearTimeout(this._updateTimeout)
+    }
+
+    if (this._autoCommitInterval !== undefined) {
+      clearInterval(this._autoCommitInterval)
+    }
+  }
+
+  /**
+   * Returns the workspace roots that are Git repositories
+   *
+   * @return  {string[]}  The absolute paths of the repositories
+   */
+  private _getRepositories (): string[] {
+    return this._fsal.getTreeMeta()
+      .filter(root => root.type === 'directory' && root.isGitRepository)
+      .map(root => root.path)
+  }
+
+  /**
+   * Returns the repository a file belongs to, or throws if it is not part of
+   * any loaded repository.
+   *
+   * @param   {string}  filePath  The absolute path to the file
+   *
+   * @return  {string}            The absolute path of the repository
+   */
+  private _getRepositoryFor (filePath: string): string {
+    const root = this._getRepositories().find(root => filePath.startsWith(root + path.sep))
+    if (root === undefined) {
+      throw new Error(`File ${filePath} is not part of a Git repository.`)
+    }
+    return root
+  }
+
+  /**
+   * Throws if the given path is not a loaded repository
+   *
+   * @param   {string}  root  The absolute path to the repository
+   */
+  private _assertRepository (root: string): void {
+    if (!this._getRepositories().includes(root)) {
+      throw new Error(`${root} is not a loaded Git repository.`)
+    }
+  }
+
+  /**
+   * Returns the paths relative to the repository root, as git expects them.
+   *
+   * @param   {string}    root   The repository
+   * @param   {string[]}  paths  Absolute paths
+   *
+   * @return  {string[]}         The relative paths
+   */
+  private _toRelative (root: string, paths: string[]): string[] {
+    return paths.map(absPath => path.relative(root, absPath).split(path.sep).join('/'))
+  }
+
+  private _scheduleStatusUpdate (): void {
+    if (this._updateTimeout !== undefined) {
+      clearTimeout(this._updateTimeout)
+    }
+
+    this._updateTimeout = setTimeout(() => {
+      this._updateTimeout = undefined
+      this.updateStatus().catch(err => this._logger.error(`[Git Provider] Could not update the status: ${String(err.message)}`, err))
+    }, STATUS_UPDATE_DELAY)
+  }
+
+  /**
+   * Retrieves the status of all repositories and notifies the renderers.
+   */
+  public async updateStatus (): Promise<void> {
+    if (this._gitVersion === undefined) {
+      return
+    }
+
+    const status: GitRepositoryStatus[] = []
+    for (const root of this._getRepositories()) {
+      try {
+        const output = await runGit(root, [ 'status', '--porcelain=v1', '-z', '--branch', '--untracked-files=all' ])
+        status.push(parseGitStatus(output, root))
+      } catch (err: any) {
+        this._logger.error(`[Git Provider] Could not retrieve the status of ${root}: ${String(err.message)}`, err)
+      }
+    }
+
+    this._status = status
+    broadcastIpcMessage('git-provider', 'status-updated')
+  }
+
+  /**
+   * Stages the given files
+   *
+   * @param   {string}    root   The repository
+   * @param   {string[]}  paths  The absolute paths of the files
+   */
+  public async stage (root: string, paths: string[]): Promise<void> {
+    this._assertRepository(root)
+    await runGit(root, [ 'add', '--all', '--', ...this._toRelative(root, paths) ])
+    await this.updateStatus()
+  }
+
+  /**
+   * Removes the given files from the index
+   *
+   * @param   {string}    root   The repository
+   * @param   {string[]}  paths  The absolute paths of the files
+   */
+  public async unstage (root: string, paths: string[]): Promise<void> {
+    this._assertRepository(root)
+    const relativePaths = this._toRelative(root, paths)
+    try {
+      await runGit(root, [ 'reset', '--quiet', '--', ...relativePaths ])
+    } catch (err) {
+      // Without any commit there is nothing to reset to
+      await runGit(root, [ 'rm', '--cached', '--quiet', '-r', '--', ...relativePaths ])
+    }
+    await this.updateStatus()
+  }
+
+  /**
+   * Commits all staged changes
+   *
+   * @param   {string}  root     The repository
+   * @param   {string}  message  The commit message
+   */
+  public async commit (root: string, message: string): Promise<void> {
+    this._assertRepository(root)
+    if (message.trim() === '') {
+      throw new Error('Cannot commit without a commit message.')
+    }
+
+    await runGit(root, [ 'commit', '--quiet', '--message', message ])
+    this._logger.info(`[Git Provider] Committed the staged changes in ${root}`)
+    await this.updateStatus()
+  }
+
+  /**
+   * Returns the commits that changed a file, following renames.
+   *
+   * @param   {string}  filePath    The absolute path to the file
+   *
+   * @return  {Promise<GitCommit[]>}  The commits, newest first
+   */
+  public async getHistory (filePath: string): Promise<GitCommit[]> {
+    const root = this._getRepositoryFor(filePath)
+    const output = await runGit(root, [
+      'log', '--follow', `--max-count=${MAX_HISTORY_LENGTH}`, GIT_LOG_FORMAT, '--', ...this._toRelative(root, [filePath])
+    ])
+    return parseGitLog(output)
+  }
+
+  /**
+   * Computes the differences between a file at a past revision and its
+   * current contents. If the file is open in an editor, the editor contents
+   * are used, including any unsaved changes.
+   *
+   * @param   {string}  filePath   The absolute path to the file
+   * @param   {string}  hash       The commit
+   *
+   * @return  {Promise<DiffLine[]>}  The line-based diff
+   */
+  public async diffRevision (filePath: string, hash: string): Promise<DiffLine[]> {
+    // The hash comes from the renderer and must not be mistaken for an option
+    // or an arbitrary revision expression
+    if (!COMMIT_HASH_RE.test(hash)) {
+      throw new Error(`Invalid commit hash: ${hash}`)
+    }
+
+    const root = this._getRepositoryFor(filePath)
+    const [relativePath] = this._toRelative(root, [filePath])
+    const oldContent = await runGit(root, [ 'show', `${hash}:${relativePath}` ])
+    const currentContent = this._documents.getLoadedDocument(filePath)?.content ?? await fs.readFile(filePath, 'utf-8')
+    return computeLineDiff(oldContent, currentContent)
+  }
+
+  /**
+   * (Re)starts or stops the automatic commits according to the configuration.
+   */
+  private _setupAutoCommit (): void {
+    if (this._autoCommitInterval !== undefined) {
+      clearInterval(this._autoCommitInterval)
+      this._autoCommitInterval = undefined
+    }
+
+    if (this._config.get('git.autoCommit') !== true) {
+      return
+    }
+
+    const minutes: number = this._config.get('git.autoCommitInterval')
+    this._autoCommitInterval = setInterval(() => {
+      this.autoCommit().catch(err => this._logger.error(`[Git Provider] Auto-commit failed: ${String(err.message)}`, err))
+    }, minutes * 60 * 1000)
+  }
+
+  /**
+   * Commits all changes in all repositories that have any.
+   */
+  public async autoCommit (): Promise<void> {
+    await this.updateStatus()
+    for (const { root, files } of this._status) {
+      if (files.length === 0 || files.some(file => file.state === 'conflicted')) {
+        continue
+      }
+
+      await runGit(root, [ 'add', '--all' ])
+      await runGit(root, [ 'commit', '--quiet', '--message', `Auto-commit ${new Date().toISOString()}` ])
+      this._logger.info(`[Git Provider] Auto-committed ${files.length} changed files in ${root}`)
+    }
+    await this.updateStatus()
+  }
+}
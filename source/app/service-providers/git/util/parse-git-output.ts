@@ -0,0 +1,111 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        parseGitStatus, parseGitLog
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Parses the machine-readable output of the git binary.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import { GitCommit, GitFileState, GitRepositoryStatus } from '@dts/common/git'
+
+/**
+ * The format to pass to git log so that parseGitLog can read the output.
+ * Fields are separated by a unit separator, commits by a record separator.
+ *
+ * @var {string}
+ */
+export const GIT_LOG_FORMAT = '--format=%H%x1f%an%x1f%at%x1f%s%x1e'
+
+/**
+ * Determines the state of a file from the two-letter status code.
+ *
+ * @param   {string}        x  The status of the index
+ * @param   {string}        y  The status of the working tree
+ *
+ * @return  {GitFileState}     The state
+ */
+function getFileState (x: string, y: string): GitFileState {
+  if (x === '?' && y === '?') {
+    return 'untracked'
+  } else if (x === 'U' || y === 'U' || (x === 'A' && y === 'A') || (x === 'D' && y === 'D')) {
+    return 'conflicted'
+  } else if (x === 'R' || x === 'C') {
+    return 'renamed'
+  } else if (x === 'A') {
+    return 'added'
+  } else if (x === 'D' || y === 'D') {
+    return 'deleted'
+  } else {
+    return 'modified'
+  }
+}
+
+/**
+ * Parses the output of `git status --porcelain=v1 -z --branch`.
+ *
+ * @param   {string}               output  The output of git status
+ * @param   {string}               root    The absolute path to the repository
+ *
+ * @return  {GitRepositoryStatus}          The parsed status
+ */
+export function parseGitStatus (output: string, root: string): GitRepositoryStatus {
+  const status: GitRepositoryStatus = { root, branch: '', files: [] }
+  const entries = output.split('\0')
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (entry === '') {
+      continue
+    }
+
+    if (entry.startsWith('## ')) {
+      // E.g. "## main...origin/main [ahead 1]" or "## No commits yet on main"
+      const branch = entry.substring(3).replace(/^No commits yet on /, '')
+      status.branch = branch.split('...')[0].split(' ')[0]
+      continue
+    }
+
+    const x = entry[0]
+    const y = entry[1]
+    if (x === 'R' || x === 'C') {
+      i++ // The next entry contains the original path
+    }
+
+    status.files.push({
+      path: path.join(root, entry.substring(3)),
+      state: getFileState(x, y),
+      staged: x !== ' ' && x !== '?',
+      unstaged: y !== ' '
+    })
+  }
+
+  return status
+}
+
+/**
+ * Parses the output of `git log` called with GIT_LOG_FORMAT.
+ *
+ * @param   {string}       output  The output of git log
+ *
+ * @return  {GitCommit[]}          The commits, newest first
+ */
+export function parseGitLog (output: string): GitCommit[] {
+  const commits: GitCommit[] = []
+  for (const record of output.split('\x1e')) {
+    const fields = record.trim().split('\x1f')
+    if (fields.length < 4) {
+      continue
+    }
+
+    const [ hash, author, timestamp, message ] = fields
+    commits.push({ hash, author, date: parseInt(timestamp, 10) * 1000, message })
+  }
+  return commits
+}
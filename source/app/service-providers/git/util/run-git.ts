@@ -0,0 +1,58 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        runGit
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Runs the local git binary and returns its output.
+ *
+ * END HEADER
+ */
+
+import { spawn } from 'child_process'
+
+/**
+ * Runs git with the given arguments. The arguments are passed directly to the
+ * binary without a shell, so they do not need to be escaped. NOTE: This
+ * function throws if git cannot be started or exits with an error.
+ *
+ * @param   {string}           cwd   The repository to run git in
+ * @param   {string[]}         args  The arguments
+ *
+ * @return  {Promise<string>}        Whatever git wrote to stdout
+ */
+export default async function runGit (cwd: string, args: string[]): Promise<string> {
+  return await new Promise<string>((resolve, reject) => {
+    // Collect the raw output, since chunks may split multi-byte characters
+    const output: Buffer[] = []
+    let err = ''
+    const gitProcess = spawn('git', args, {
+      cwd,
+      // Never wait for credentials or an editor
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_EDITOR: 'true' }
+    })
+
+    gitProcess.stdout.on('data', (data: Buffer) => {
+      output.push(data)
+    })
+
+    gitProcess.stderr.on('data', (data) => {
+      err += String(data)
+    })
+
+    gitProcess.on('close', (code: number) => {
+      if (code !== 0) {
+        reject(new Error(`git ${args[0]} exited with code ${code}: ${err.trim()}`))
+      } else {
+        resolve(Buffer.concat(output).toString('utf-8'))
+      }
+    })
+
+    gitProcess.on('error', (err) => {
+      reject(err)
+    })
+  })
+}
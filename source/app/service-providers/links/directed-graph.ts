@@ -16,14 +16,44 @@ import { GraphArc, GraphVertex, LinkGraph } from '@dts/common/graph'
 
 const NONE_COMPONENT = 'Files'
 
+/**
+ * The probability with which the random surfer of the PageRank algorithm
+ * follows a link instead of jumping to a random vertex.
+ *
+ * @var {number}
+ */
+const PAGERANK_DAMPING = 0.85
+
+/**
+ * PageRank iterates until the centralities change by less than this (or the
+ * maximum number of iterations has been reached).
+ *
+ * @var {number}
+ */
+const PAGERANK_TOLERANCE = 1e-6
+const PAGERANK_MAX_ITERATIONS = 100
+
+/**
+ * A vertex is considered a hub if its degree is this many standard deviations
+ * above the mean degree of the graph.
+ *
+ * @var {number}
+ */
+const HUB_THRESHOLD = 2
+
 export default class DirectedGraph {
   private readonly _arcs: GraphArc[]
+  /**
+   * Allows looking up arcs by their source and target (keyed by source and target, separated by a null byte)
+   */
+  private readonly _arcIndex: Map<string, GraphArc>
   private readonly _vertices: GraphVertex[]
   private _components: string[]
   private _inOperation: boolean
 
   constructor () {
     this._arcs = []
+    this._arcIndex = new Map()
     this._vertices = []
     this._components = []
     this._inOperation = false
@@ -48,6 +78,7 @@ export default class DirectedGraph {
     this._inOperation = false
     // Now we can recalculate all the metrics and run the algorithms
     this.identifyComponents()
+    this.computeMetrics()
   }
 
   get countVertices (): number {
@@ -66,6 +97,14 @@ export default class DirectedGraph {
     return this._components.length
   }
 
+  get countOrphans (): number {
+    return this._vertices.filter(V => V.orphan).length
+  }
+
+  get hubs (): GraphVertex[] {
+    return this._vertices.filter(V => V.hub)
+  }
+
   get vertices (): GraphVertex[] {
     return this._vertices
   }
@@ -76,20 +115,35 @@ export default class DirectedGraph {
       return foundV
     }
 
-    const newV = {
+    const newV: GraphVertex = {
       id,
       label,
       component: NONE_COMPONENT,
-      isolate: true
+      isolate: true,
+      inDegree: 0,
+      outDegree: 0,
+      centrality: 0,
+      hub: false,
+      orphan: true
     }
 
     this._vertices.push(newV)
     if (!this._inOperation) {
       this.identifyComponents()
+      this.computeMetrics()
     }
     return newV
   }
 
+  /**
+   * Adds an arc from source to target. If the arc already exists, its weight
+   * is increased instead, so that the weight reflects how often the source
+   * links to the target.
+   *
+   * @param   {string}  source  The source vertex
+   * @param   {string}  target  The target vertex
+   * @param   {number}  weight  The weight to add
+   */
   addArc (source: string, target: string, weight: number = 1): void {
     let sV = this._vertices.find(V => V.id === source)
     let tV = this._vertices.find(V => V.id === target)
@@ -103,10 +157,20 @@ export default class DirectedGraph {
 
     sV.isolate = false
     tV.isolate = false
-    this._arcs.push({ source, target, weight })
+
+    const key = source + '\0' + target
+    const existingArc = this._arcIndex.get(key)
+    if (existingArc !== undefined) {
+      existingArc.weight += weight
+    } else {
+      const arc = { source, target, weight }
+      this._arcs.push(arc)
+      this._arcIndex.set(key, arc)
+    }
 
     if (!this._inOperation) {
       this.identifyComponents()
+      this.computeMetrics()
     }
   }
 
@@ -171,4 +235,70 @@ export default class DirectedGraph {
       visit(V)
     }
   }
+
+  /**
+   * Calculates the degrees, the (weighted) PageRank centrality, and determines
+   * hubs and orphans of the graph.
+   */
+  private computeMetrics (): void {
+    const indices = new Map<string, number>()
+    this._vertices.forEach((V, idx) => indices.set(V.id, idx))
+
+    const N = this._vertices.length
+    const inDegree = new Array<number>(N).fill(0)
+    const outDegree = new Array<number>(N).fill(0)
+    const outWeight = new Array<number>(N).fill(0)
+
+    for (const arc of this._arcs) {
+      const s = indices.get(arc.source) as number
+      const t = indices.get(arc.target) as number
+      outWeight[s] += arc.weight
+      // Self-links do not connect a note with any other note
+      if (s !== t) {
+        outDegree[s]++
+        inDegree[t]++
+      }
+    }
+
+    // PageRank: Each vertex distributes its rank across its outgoing arcs in
+    // proportion to their weight. Vertices without outgoing arcs distribute
+    // their rank evenly across all vertices.
+    let rank = new Array<number>(N).fill(1 / N)
+    for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+      let danglingRank = 0
+      for (let i = 0; i < N; i++) {
+        if (outWeight[i] === 0) {
+          danglingRank += rank[i]
+        }
+      }
+
+      const base = (1 - PAGERANK_DAMPING) / N + PAGERANK_DAMPING * danglingRank / N
+      const newRank = new Array<number>(N).fill(base)
+      for (const arc of this._arcs) {
+        const s = indices.get(arc.source) as number
+        const t = indices.get(arc.target) as number
+        newRank[t] += PAGERANK_DAMPING * rank[s] * arc.weight / outWeight[s]
+      }
+
+      const delta = newRank.reduce((sum, value, i) => sum + Math.abs(value - rank[i]), 0)
+      rank = newRank
+      if (delta < PAGERANK_TOLERANCE) {
+        break
+      }
+    }
+
+    // Hubs are those vertices that are considerably better connected than the rest
+    const degrees = inDegree.map((value, i) => value + outDegree[i])
+    const mean = degrees.reduce((sum, value) => sum + value, 0) / Math.max(N, 1)
+    const variance = degrees.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(N, 1)
+    const hubThreshold = mean + HUB_THRESHOLD * Math.sqrt(variance)
+
+    this._vertices.forEach((V, i) => {
+      V.inDegree = inDegree[i]
+      V.outDegree = outDegree[i]
+      V.centrality = rank[i]
+      V.hub = degrees[i] > 1 && degrees[i] >= hubThreshold
+      V.orphan = inDegree[i] === 0
+    })
+  }
 }
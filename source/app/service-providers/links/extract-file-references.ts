@@ -0,0 +1,86 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        extractFileReferences
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Extracts every reference a Markdown file makes to other
+ *                  notes, local files and citation keys, together with the
+ *                  position at which it occurs.
+ *
+ * END HEADER
+ */
+
+import extractCitations from '@common/util/extract-citations'
+import { findLocalLinks, getProseLines } from '@common/util/local-links'
+
+export interface FileReference {
+  /**
+   * link: A Zettelkasten link; file: A Markdown link or image pointing to a
+   * local file; citation: A citekey
+   */
+  type: 'link'|'file'|'citation'
+  target: string
+  /**
+   * The line number (1-based) on which the reference occurs
+   */
+  line: number
+  /**
+   * The offsets of the whole reference (e.g., including the brackets of a
+   * link) within the Markdown source
+   */
+  from: number
+  to: number
+}
+
+/**
+ * Extracts all references from the given Markdown. Code blocks, inline code
+ * and the YAML frontmatter are ignored, but are still counted for the line
+ * numbers.
+ *
+ * @param   {string}           markdown  The Markdown source
+ *
+ * @return  {FileReference[]}            All references in order of appearance
+ */
+export default function extractFileReferences (markdown: string): FileReference[] {
+  const references: FileReference[] = []
+
+  for (const { text: line, line: lineNumber, offset } of getProseLines(markdown)) {
+    for (let pos = 0; line.includes('[[', pos);) {
+      pos = line.indexOf('[[', pos) + 2
+      const end = line.indexOf(']]', pos)
+      if (end < 0) {
+        break
+      }
+
+      references.push({
+        type: 'link',
+        target: line.substring(pos, end),
+        line: lineNumber,
+        from: offset + pos - 2,
+        to: offset + end + 2
+      })
+    }
+
+    for (const link of findLocalLinks(line)) {
+      references.push({ type: 'file', target: link.path, line: lineNumber, from: offset + link.from, to: offset + link.to })
+    }
+
+    for (const citation of extractCitations(line)) {
+      for (const item of citation.citations) {
+        references.push({
+          type: 'citation',
+          target: item.id,
+          line: lineNumber,
+          from: offset + citation.from,
+          to: offset + citation.to
+        })
+      }
+    }
+  }
+
+  return references
+}
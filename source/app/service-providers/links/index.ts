@@ -13,10 +13,31 @@
  */
 
 import { ipcMain } from 'electron'
+import { promises as fs } from 'fs'
+import path from 'path'
 import broadcastIpcMessage from '@common/util/broadcast-ipc-message'
 import ProviderContract from '../provider-contract'
 import FSAL from '@providers/fsal'
 import LogProvider from '@providers/log'
+import CiteprocProvider from '@providers/citeproc'
+import extractFileReferences, { FileReference } from './extract-file-references'
+import objectToArray from '@common/util/object-to-array'
+import isFile from '@common/util/is-file'
+import isDir from '@common/util/is-dir'
+import { MDFileDescriptor } from '@dts/common/fsal'
+import { IntegrityIssue } from '@dts/common/integrity'
+import { parseBlockReference } from '@common/util/block-references'
+import { findUnlinkedMentions, getReferenceContext } from './link-context'
+import { Backlink, UnlinkedMention } from '@dts/common/backlinks'
+
+/**
+ * How long to wait after the last change before informing the renderers that
+ * the integrity report may have changed. This prevents a flood of messages
+ * while the FSAL is loading a workspace.
+ *
+ * @var {number}
+ */
+const INTEGRITY_BROADCAST_DELAY = 1000
 
 /**
  * This class manages the coloured tags of the app. It reads the tags on each
@@ -24,20 +45,35 @@ import LogProvider from '@providers/log'
  */
 export default class LinkProvider extends ProviderContract {
   private readonly _fileLinkDatabase: Map<string, string[]>
+  /**
+   * Contains all references (links, files, citations) per file, which are used
+   * to generate the integrity report. They are only extracted on demand.
+   */
+  private readonly _fileReferences: Map<string, FileReference[]>
+  /**
+   * Files whose references need to be re-extracted before the next report
+   */
+  private readonly _staleReferences: Set<string>
+  private _integrityBroadcastTimeout: ReturnType<typeof setTimeout>|undefined
   private _fsalHistoryTimestamp: number
 
   /**
    * Create the instance on program start and initially load the tags.
    */
-  constructor (private readonly _logger: LogProvider, private readonly _fsal: FSAL) {
+  constructor (
+    private readonly _logger: LogProvider,
+    private readonly _fsal: FSAL,
+    private readonly _citeproc: CiteprocProvider
+  ) {
     super()
 
     this._fileLinkDatabase = new Map()
+    this._fileReferences = new Map()
+    this._staleReferences = new Set()
+    this._integrityBroadcastTimeout = undefined
     this._fsalHistoryTimestamp = 0
-    // TODO: Add a set of duplicate IDs so we can inform the user so they can
-    // fix this
 
-    ipcMain.handle('link-provider', (event, message) => {
+    ipcMain.handle('link-provider', async (event, message) => {
       const { command } = message
 
       if (command === 'get-inbound-links') {
@@ -50,6 +86,12 @@ export default class LinkProvider extends ProviderContract {
       } else if (command === 'get-link-database') {
         // NOTE: We need to compact the Map into something JSONable
         return Object.fromEntries(this._fileLinkDatabase)
+      } else if (command === 'get-integrity-report') {
+        return await this.getIntegrityReport()
+      } else if (command === 'get-backlinks') {
+        return await this.getBacklinks(message.payload.filePath)
+      } else if (command === 'get-unlinked-mentions') {
+        return await this.getUnlinkedMentions(message.payload.filePath)
       }
     })
   }
@@ -77,10 +119,15 @@ export default class LinkProvider extends ProviderContract {
    * @param   {FSALHistoryEvent}  event  The event to check
    */
   private _updateLinksFor (path: string, event: 'remove'|'add'|'change'): void {
+    // Any change to the file tree can change how links resolve
+    this._scheduleIntegrityBroadcast()
+
     if (event === 'remove') {
       if (this._fileLinkDatabase.has(path)) {
         this._fileLinkDatabase.delete(path)
       }
+      this._fileReferences.delete(path)
+      this._staleReferences.delete(path)
       return
     }
 
@@ -102,10 +149,15 @@ export default class LinkProvider extends ProviderContract {
       if (this._fileLinkDatabase.has(path)) {
         this._fileLinkDatabase.delete(path)
       }
+      this._fileReferences.delete(path)
+      this._staleReferences.delete(path)
       return
     }
 
-    const newLinks = descriptor.links
+    this._staleReferences.add(path)
+
+    // Links to a block within a note (e.g., [[id#^anchor]]) link to the note
+    const newLinks = descriptor.links.map(link => parseBlockReference(link).target)
     const oldLinks = this._fileLinkDatabase.get(path)
 
     if (oldLinks === undefined) {
@@ -125,6 +177,211 @@ export default class LinkProvider extends ProviderContract {
    */
   async shutdown (): Promise<void> {
     this._logger.verbose('Link provider shutting down ...')
+    if (this._integrityBroadcastTimeout !== undefined) {
+      clearTimeout(this._integrityBroadcastTimeout)
+    }
+  }
+
+  /**
+   * Informs the renderers (debounced) that the integrity report may have changed.
+   */
+  private _scheduleIntegrityBroadcast (): void {
+    if (this._integrityBroadcastTimeout !== undefined) {
+      clearTimeout(this._integrityBroadcastTimeout)
+    }
+
+    this._integrityBroadcastTimeout = setTimeout(() => {
+      this._integrityBroadcastTimeout = undefined
+      broadcastIpcMessage('integrity-report-changed')
+    }, INTEGRITY_BROADCAST_DELAY)
+  }
+
+  /**
+   * Extracts the references of all files that have changed since they have
+   * last been read.
+   */
+  private async _refreshReferences (): Promise<void> {
+    for (const filePath of [...this._staleReferences]) {
+      this._staleReferences.delete(filePath)
+      try {
+        const content = await fs.readFile(filePath, 'utf-8')
+        this._fileReferences.set(filePath, extractFileReferences(content))
+      } catch (err: any) {
+        this._logger.warning(`[Link Provider] Could not read ${filePath} for its references: ${String(err.message)}`)
+        this._fileReferences.delete(filePath)
+      }
+    }
+  }
+
+  /**
+   * Checks every link, file reference and citation in the workspace and
+   * returns all problems. Only files that have changed since the last report
+   * are read again from disk.
+   *
+   * @return  {Promise<IntegrityIssue[]>}  All problems found
+   */
+  async getIntegrityReport (): Promise<IntegrityIssue[]> {
+    await this._refreshReferences()
+
+    // Index all notes by ID and by filename (with and without extension), so
+    // that we can detect ambiguous links
+    const notesById = new Map<string, string[]>()
+    const notesByName = new Map<string, string[]>()
+    const addToIndex = (index: Map<string, string[]>, key: string, filePath: string): void => {
+      const existing = index.get(key)
+      if (existing === undefined) {
+        index.set(key, [filePath])
+      } else if (!existing.includes(filePath)) {
+        existing.push(filePath)
+      }
+    }
+
+    const allFiles = objectToArray(this._fsal.getTreeMeta(), 'children')
+      .filter((descriptor): descriptor is MDFileDescriptor => descriptor.type === 'file')
+    for (const descriptor of allFiles) {
+      if (descriptor.id !== '') {
+        addToIndex(notesById, descriptor.id, descriptor.path)
+      }
+      addToIndex(notesByName, descriptor.name, descriptor.path)
+      addToIndex(notesByName, descriptor.name.replace(descriptor.ext, ''), descriptor.path)
+    }
+
+    // Only check citations if there is a library to check them against
+    const checkCitations = this._citeproc.hasLoadedDatabases()
+
+    const issues: IntegrityIssue[] = []
+    for (const [ file, references ] of this._fileReferences) {
+      for (const { type, target, line } of references) {
+        if (type === 'link') {
+          // Links may point to a specific block of a note
+          const query = parseBlockReference(target).target
+          const candidates = notesById.get(query) ?? notesByName.get(query) ?? []
+          if (candidates.length === 0) {
+            issues.push({ type: 'dangling-link', file, line, target })
+          } else if (candidates.length > 1) {
+            issues.push({ type: 'ambiguous-link', file, line, target, candidates })
+          }
+        } else if (type === 'file') {
+          const absPath = path.resolve(path.dirname(file), target)
+          if (!isFile(absPath) && !isDir(absPath)) {
+            issues.push({ type: 'broken-file-link', file, line, target })
+          }
+        } else if (checkCitations && !this._citeproc.hasCitekey(target)) {
+          issues.push({ type: 'missing-citation', file, line, target })
+        }
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Returns every link to the given file together with the paragraph it
+   * occurs in, grouped by the linking file.
+   *
+   * @param   {string}  filePath  The file to retrieve the backlinks for
+   *
+   * @return  {Promise<Array<{ file: string, backlinks: Backlink[] }>>}  The backlinks
+   */
+  async getBacklinks (filePath: string): Promise<Array<{ file: string, backlinks: Backlink[] }>> {
+    const descriptor = this._fsal.findFile(filePath)
+    if (descriptor === undefined || descriptor.type !== 'file') {
+      return []
+    }
+
+    const result: Array<{ file: string, backlinks: Backlink[] }> = []
+    for (const file of this.retrieveInbound(filePath)) {
+      let content: string
+      try {
+        content = await fs.readFile(file, 'utf-8')
+      } catch (err: any) {
+        this._logger.warning(`[Link Provider] Could not read ${file} for its backlinks: ${String(err.message)}`)
+        continue
+      }
+
+      // Since we have the contents anyways, record the current positions
+      const references = extractFileReferences(content)
+      this._fileReferences.set(file, references)
+      this._staleReferences.delete(file)
+
+      const backlinks = references
+        .filter(ref => ref.type === 'link' && this._linksTo(descriptor, ref.target))
+        .map(ref => ({ line: ref.line, context: getReferenceContext(content, ref.from, ref.to) }))
+
+      if (backlinks.length > 0) {
+        result.push({ file, backlinks })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Finds all mentions of the given file's name or title in other notes that
+   * are not links, grouped by the mentioning file.
+   *
+   * @param   {string}  filePath  The file to find mentions of
+   *
+   * @return  {Promise<Array<{ file: string, mentions: UnlinkedMention[] }>>}  The mentions
+   */
+  async getUnlinkedMentions (filePath: string): Promise<Array<{ file: string, mentions: UnlinkedMention[] }>> {
+    const descriptor = this._fsal.findFile(filePath)
+    if (descriptor === undefined || descriptor.type !== 'file') {
+      return []
+    }
+
+    const titles = [descriptor.name.replace(descriptor.ext, '')]
+    if (descriptor.yamlTitle !== undefined) {
+      titles.push(descriptor.yamlTitle)
+    }
+
+    // The search (and its index) narrows down the files to those that
+    // contain any of the titles at all
+    const allFiles = objectToArray(this._fsal.getTreeMeta(), 'children')
+      .filter((file): file is MDFileDescriptor => file.type === 'file' && file.path !== descriptor.path)
+      .map(file => file.path)
+    const candidates = await this._fsal.search(allFiles, {
+      type: 'or',
+      terms: titles.map(title => ({ type: 'text', value: title }))
+    })
+
+    const result: Array<{ file: string, mentions: UnlinkedMention[] }> = []
+    for (const { path: file } of candidates) {
+      let content: string
+      try {
+        content = await fs.readFile(file, 'utf-8')
+      } catch (err: any) {
+        this._logger.warning(`[Link Provider] Could not read ${file} for unlinked mentions: ${String(err.message)}`)
+        continue
+      }
+
+      const mentions = findUnlinkedMentions(content, titles).map(mention => {
+        return { ...mention, context: getReferenceContext(content, mention.from, mention.to) }
+      })
+
+      if (mentions.length > 0) {
+        result.push({ file, mentions })
+      }
+    }
+
+    return result.sort((a, b) => b.mentions.length - a.mentions.length)
+  }
+
+  /**
+   * Determines whether the given link target refers to the given file
+   *
+   * @param   {MDFileDescriptor}  descriptor  The file
+   * @param   {string}            target      The link target as written
+   *
+   * @return  {boolean}                       True if the link points to the file
+   */
+  private _linksTo (descriptor: MDFileDescriptor, target: string): boolean {
+    const query = parseBlockReference(target).target
+    if (descriptor.id !== '' && query === descriptor.id) {
+      return true
+    }
+
+    return query === descriptor.name || query === descriptor.name.replace(descriptor.ext, '')
   }
 
   /**
@@ -156,6 +413,35 @@ export default class LinkProvider extends ProviderContract {
     return sourceFiles
   }
 
+  /**
+   * Retrieves all files containing a Markdown link or image that points to the
+   * given file or directory, or to anything within the directory.
+   *
+   * @param   {string}             targetPath  The file or directory
+   *
+   * @return  {Promise<string[]>}              The referencing files
+   */
+  async retrieveFileReferrers (targetPath: string): Promise<string[]> {
+    await this._refreshReferences()
+
+    const referrers: string[] = []
+    for (const [ file, references ] of this._fileReferences) {
+      const isReferrer = references.some(ref => {
+        if (ref.type !== 'file') {
+          return false
+        }
+        const absPath = path.resolve(path.dirname(file), ref.target)
+        return absPath === targetPath || absPath.startsWith(targetPath + path.sep)
+      })
+
+      if (isReferrer) {
+        referrers.push(file)
+      }
+    }
+
+    return referrers
+  }
+
   /**
    * Retrieves a set of files the given source file links to
    *
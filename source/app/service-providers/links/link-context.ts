@@ -0,0 +1,160 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        getReferenceContext, findUnlinkedMentions
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Determines the paragraph surrounding a link, and finds
+ *                  plain-text mentions of a note that are not yet links.
+ *
+ * END HEADER
+ */
+
+import { ReferenceContext, UnlinkedMention } from '@dts/common/backlinks'
+
+/**
+ * How many characters of the paragraph to keep before and after a reference
+ *
+ * @var {number}
+ */
+const MAX_CONTEXT_LENGTH = 150
+
+/**
+ * Matches everything that cannot contain a plain-text mention: Zettelkasten
+ * links, Markdown links and images, inline code, autolinks, and URLs
+ *
+ * @var {RegExp}
+ */
+const NO_MENTION_RE = /(`+)[^`]+?\1|\[\[.*?\]\]|!?\[[^\]]*\]\([^)]*\)|<[^>\s]+>|https?:\/\/\S+/g
+
+/**
+ * Matches characters that belong to a word
+ *
+ * @var {RegExp}
+ */
+const WORD_CHAR_RE = /[\p{L}\p{N}_]/u
+
+/**
+ * Returns the paragraph that contains the given range of the Markdown source.
+ * Very long paragraphs are shortened around the range.
+ *
+ * @param   {string}            markdown  The Markdown source
+ * @param   {number}            from      Where the reference begins
+ * @param   {number}            to        Where the reference ends
+ *
+ * @return  {ReferenceContext}            The paragraph and the position of the
+ *                                        reference within it
+ */
+export function getReferenceContext (markdown: string, from: number, to: number): ReferenceContext {
+  // A paragraph extends line by line up to the surrounding blank lines
+  let start = markdown.lastIndexOf('\n', from - 1) + 1
+  while (start > 0) {
+    const previousStart = markdown.lastIndexOf('\n', start - 2) + 1
+    if (markdown.substring(previousStart, start - 1).trim() === '') {
+      break
+    }
+    start = previousStart
+  }
+
+  let end = markdown.indexOf('\n', to)
+  end = (end < 0) ? markdown.length : end
+  while (end < markdown.length) {
+    let nextEnd = markdown.indexOf('\n', end + 1)
+    nextEnd = (nextEnd < 0) ? markdown.length : nextEnd
+    if (markdown.substring(end + 1, nextEnd).trim() === '') {
+      break
+    }
+    end = nextEnd
+  }
+
+  let prefix = ''
+  let suffix = ''
+  if (from - start > MAX_CONTEXT_LENGTH) {
+    start = from - MAX_CONTEXT_LENGTH
+    prefix = '…'
+  }
+
+  if (end - to > MAX_CONTEXT_LENGTH) {
+    end = to + MAX_CONTEXT_LENGTH
+    suffix = '…'
+  }
+
+  return {
+    text: prefix + markdown.substring(start, end).replace(/\r/g, '') + suffix,
+    from: prefix.length + markdown.substring(start, from).replace(/\r/g, '').length,
+    to: prefix.length + markdown.substring(start, to).replace(/\r/g, '').length
+  }
+}
+
+/**
+ * Finds all mentions of the given titles that are not part of a link. The
+ * titles are matched case-insensitively, and only as whole words. Code blocks
+ * and the YAML frontmatter are ignored.
+ *
+ * @param   {string}    markdown  The Markdown source
+ * @param   {string[]}  titles    The titles of the note
+ *
+ * @return  {Array<Omit<UnlinkedMention, 'context'>>}  All mentions in order of appearance
+ */
+export function findUnlinkedMentions (markdown: string, titles: string[]): Array<Omit<UnlinkedMention, 'context'>> {
+  const wanted = [...new Set(titles.map(title => title.trim()).filter(title => title !== ''))]
+  if (wanted.length === 0) {
+    return []
+  }
+
+  // Prefer longer titles if one title contains another
+  const alternatives = wanted
+    .sort((a, b) => b.length - a.length)
+    .map(title => title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const titleRE = new RegExp(alternatives.join('|'), 'giu')
+
+  const mentions: Array<Omit<UnlinkedMention, 'context'>> = []
+  const lines = markdown.split('\n')
+
+  let inFrontmatter = lines[0].trimEnd() === '---'
+  let inCodeBlock = false
+  let lineOffset = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    const offset = lineOffset
+    lineOffset += lines[i].length + 1
+
+    if (inFrontmatter) {
+      if (i > 0 && [ '---', '...' ].includes(lines[i].trimEnd())) {
+        inFrontmatter = false
+      }
+      continue
+    }
+
+    if (/^\s*(`{3,}|~{3,})/.test(lines[i])) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+
+    if (inCodeBlock) {
+      continue
+    }
+
+    const line = lines[i].replace(NO_MENTION_RE, (match) => ' '.repeat(match.length))
+    for (const match of line.matchAll(titleRE)) {
+      const index = match.index as number
+      const charBefore = line.charAt(index - 1)
+      const charAfter = line.charAt(index + match[0].length)
+      if (WORD_CHAR_RE.test(charBefore) || WORD_CHAR_RE.test(charAfter)) {
+        continue
+      }
+
+      mentions.push({
+        line: i + 1,
+        from: offset + index,
+        to: offset + index + match[0].length,
+        match: match[0]
+      })
+    }
+  }
+
+  return mentions
+}
@@ -150,6 +150,14 @@ export default function getMenu (
             }
           ]
         },
+        {
+          id: 'menu.open_journal_note',
+          label: trans('Today\'s journal note'),
+          click: function (menuitem, focusedWindow) {
+            commands.run('open-journal-note', {})
+              .catch(e => logger.error(String(e.message), e))
+          }
+        },
         {
           id: 'menu.new_dir',
           label: trans('New directory…'),
@@ -236,6 +244,14 @@ export default function getMenu (
               .catch(e => logger.error('[Menu Provider] Cannot import files', e))
           }
         },
+        {
+          id: 'menu.import_vault',
+          label: trans('Import vault…'),
+          click: function (menuItem, focusedWindow) {
+            commands.run('import-vault', undefined)
+              .catch(e => logger.error('[Menu Provider] Cannot import vault', e))
+          }
+        },
         {
           id: 'menu.export',
           label: trans('Export…'),
@@ -0,0 +1,348 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        SmartFolderProvider
+ * CVM-Role:        Service Provider
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Manages smart folders, i.e. saved searches whose matching
+ *                  files are displayed like a directory. The contents of each
+ *                  smart folder are kept up to date as the file tree changes.
+ *
+ * END HEADER
+ */
+
+import EventEmitter from 'events'
+import path from 'path'
+import { app, ipcMain } from 'electron'
+import ProviderContract from '../provider-contract'
+import FSAL from '@providers/fsal'
+import LogProvider from '@providers/log'
+import PersistentDataContainer from '@common/modules/persistent-data-container'
+import broadcastIpcMessage from '@common/util/broadcast-ipc-message'
+import compileSearchTerms from '@common/util/compile-search-terms'
+import objectToArray from '@common/util/object-to-array'
+import { CodeFileDescriptor, MDFileDescriptor } from '@dts/common/fsal'
+import { SmartFolder, SmartFolderContents } from '@dts/common/smart-folders'
+
+/**
+ * How long to wait after the last change in the file tree before updating the
+ * smart folders. This bundles the many changes that occur while loading a
+ * workspace.
+ *
+ * @var {number}
+ */
+const UPDATE_DELAY = 500
+
+export default class SmartFolderProvider extends ProviderContract {
+  private readonly _file: string
+  private readonly _container: PersistentDataContainer
+  private readonly _emitter: EventEmitter
+  private _folders: SmartFolder[]
+  /**
+   * Contains the matching files of each smart folder
+   */
+  private readonly _contents: Map<string, Set<string>>
+  /**
+   * Paths that have changed since the last update
+   */
+  private readonly _changedPaths: Set<string>
+  private _updateTimeout: ReturnType<typeof setTimeout>|undefined
+  private _isUpdating: boolean
+  private _fsalHistoryTimestamp: number
+
+  constructor (private readonly _logger: LogProvider, private readonly _fsal: FSAL) {
+    super()
+
+    this._file = path.join(app.getPath('userData'), 'smart-folders.json')
+    this._container = new PersistentDataContainer(this._file, 'json')
+    this._emitter = new EventEmitter()
+    this._folders = []
+    this._contents = new Map()
+    this._changedPaths = new Set()
+    this._updateTimeout = undefined
+    this._isUpdating = false
+    this._fsalHistoryTimestamp = 0
+
+    ipcMain.handle('smart-folder-provider', async (event, message) => {
+      const { command, payload } = message
+
+      if (command === 'get-smart-folders') {
+        return this.getSmartFolders()
+      } else if (command === 'set-smart-folder') {
+        return await this.set(payload.folder, payload.oldName)
+      } else if (command === 'remove-smart-folder') {
+        return this.remove(payload.name)
+      }
+    })
+  }
+
+  public async boot (): Promise<void> {
+    if (!await this._container.isInitialized()) {
+      await this._container.init([])
+    } else {
+      this._folders = await this._container.get()
+    }
+
+    for (const folder of this._folders) {
+      this._contents.set(folder.name, new Set())
+    }
+
+    this._fsal.on('fsal-state-changed', (which: string) => {
+      if (which === 'reset-history') {
+        this._fsalHistoryTimestamp = 0
+      } else if (which === 'filetree') {
+        const events = this._fsal.filetreeHistorySince(this._fsalHistoryTimestamp)
+        for (const event of events) {
+          this._fsalHistoryTimestamp = event.timestamp
+          this._changedPaths.add(event.path)
+        }
+        this._scheduleUpdate()
+      }
+    })
+  }
+
+  async shutdown (): Promise<void> {
+    this._logger.verbose('Smart folder provider shutting down ...')
+    if (this._updateTimeout !== undefined) {
+      clearTimeout(this._updateTimeout)
+    }
+    this._container.shutdown()
+  }
+
+  /**
+   * Adds callback to the event listeners. The provider emits "update" with the
+   * name of a smart folder whenever its contents change.
+   *
+   * @param  {String}   event    The event to be listened for.
+   * @param  {Function} callback The callback when the event is emitted.
+   */
+  on (event: string, callback: (...args: any[]) => void): void {
+    this._emitter.on(event, callback)
+  }
+
+  /**
+   * Removes an event listener
+   *
+   * @param  {String}   event    The event the listener was subscribed to
+   * @param  {Function} callback The callback
+   */
+  off (event: string, callback: (...args: any[]) => void): void {
+    this._emitter.off(event, callback)
+  }
+
+  /**
+   * Returns all smart folders including their sorted contents.
+   *
+   * @return  {SmartFolderContents[]}  The smart folders
+   */
+  getSmartFolders (): SmartFolderContents[] {
+    return this._folders.map(folder => {
+      return { ...folder, files: this.getFiles(folder.name).map(file => file.path) }
+    })
+  }
+
+  /**
+   * Returns whether a smart folder with the given name exists.
+   *
+   * @param   {string}   name  The smart folder
+   *
+   * @return  {boolean}        True if the smart folder exists
+   */
+  has (name: string): boolean {
+    return this._folders.some(folder => folder.name === name)
+  }
+
+  /**
+   * Returns the files of the given smart folder, sorted according to its
+   * settings.
+   *
+   * @param   {string}                                   name  The smart folder
+   *
+   * @return  {Array<MDFileDescriptor|CodeFileDescriptor>}     The files
+   */
+  getFiles (name: string): Array<MDFileDescriptor|CodeFileDescriptor> {
+    const folder = this._folders.find(folder => folder.name === name)
+    const contents = this._contents.get(name)
+    if (folder === undefined || contents === undefined) {
+      return []
+    }
+
+    const files: Array<MDFileDescriptor|CodeFileDescriptor> = []
+    for (const filePath of contents) {
+      const descriptor = this._fsal.findFile(filePath)
+      if (descriptor !== undefined) {
+        files.push(descriptor)
+      }
+    }
+
+    return this._fsal.getDirectorySorter()(files, folder.sorting)
+  }
+
+  /**
+   * Adds or changes a smart folder.
+   *
+   * @param   {SmartFolder}  folder   The smart folder
+   * @param   {string}       oldName  Optional, the previous name if renamed
+   */
+  async set (folder: SmartFolder, oldName?: string): Promise<void> {
+    const name = folder.name.trim()
+    if (name === '') {
+      throw new Error('[Smart Folders] Cannot save a smart folder without name!')
+    }
+
+    const existing = this._folders.find(elem => elem.name === (oldName ?? name))
+    const queryChanged = existing === undefined || existing.query !== folder.query
+
+    if (existing !== undefined) {
+      if (oldName !== undefined && oldName !== name) {
+        // The renamed smart folder replaces any other one with the same name
+        this._folders = this._folders.filter(elem => elem === existing || elem.name !== name)
+        this._contents.set(name, this._contents.get(oldName) ?? new Set())
+        this._contents.delete(oldName)
+      }
+      existing.name = name
+      existing.query = folder.query
+      existing.sorting = folder.sorting
+    } else {
+      this._folders.push({ name, query: folder.query, sorting: folder.sorting })
+      this._contents.set(name, new Set())
+    }
+
+    this._container.set(this._folders)
+
+    if (queryChanged) {
+      await this._evaluate(name, this._getAllFiles().map(file => file.path))
+    }
+
+    broadcastIpcMessage('smart-folder-provider', 'smart-folders-updated')
+    this._emitter.emit('update', name)
+  }
+
+  /**
+   * Removes a smart folder.
+   *
+   * @param   {string}   name  The smart folder
+   *
+   * @return  {boolean}        Whether the smart folder existed
+   */
+  remove (name: string): boolean {
+    const folder = this._folders.find(elem => elem.name === name)
+    if (folder === undefined) {
+      return false
+    }
+
+    this._folders.splice(this._folders.indexOf(folder), 1)
+    this._contents.delete(name)
+    this._container.set(this._folders)
+    broadcastIpcMessage('smart-folder-provider', 'smart-folders-updated')
+    this._emitter.emit('update', name)
+    return true
+  }
+
+  /**
+   * Returns all Markdown and code files that are currently loaded.
+   *
+   * @return  {Array<MDFileDescriptor|CodeFileDescriptor>}  The files
+   */
+  private _getAllFiles (): Array<MDFileDescriptor|CodeFileDescriptor> {
+    return objectToArray(this._fsal.getTreeMeta(), 'children')
+      .filter((descriptor): descriptor is MDFileDescriptor|CodeFileDescriptor => {
+        return descriptor.type === 'file' || descriptor.type === 'code'
+      })
+  }
+
+  /**
+   * Debounces the update of the smart folders after changes to the file tree.
+   */
+  private _scheduleUpdate (): void {
+    if (this._updateTimeout !== undefined) {
+      clearTimeout(this._updateTimeout)
+    }
+
+    this._updateTimeout = setTimeout(() => {
+      this._updateTimeout = undefined
+      this._update().catch(err => this._logger.error(`[Smart Folders] Could not update smart folders: ${String(err.message)}`, err))
+    }, UPDATE_DELAY)
+  }
+
+  /**
+   * Re-evaluates all changed paths for every smart folder.
+   */
+  private async _update (): Promise<void> {
+    if (this._isUpdating) {
+      this._scheduleUpdate() // Try again after the current run
+      return
+    }
+
+    this._isUpdating = true
+    try {
+      // Expand directories into the files they contain, and remove everything
+      // that no longer exists from the smart folders.
+      const changedFiles = new Set<string>()
+      for (const changedPath of this._changedPaths) {
+        this._changedPaths.delete(changedPath)
+        const dir = this._fsal.findDir(changedPath)
+        if (dir !== undefined) {
+          objectToArray(dir, 'children')
+            .filter(child => child.type === 'file' || child.type === 'code')
+            .forEach(child => changedFiles.add(child.path))
+        } else if (this._fsal.findFile(changedPath) !== undefined) {
+          changedFiles.add(changedPath)
+        } else {
+          for (const [ name, contents ] of this._contents) {
+            for (const filePath of [...contents]) {
+              if (filePath === changedPath || filePath.startsWith(changedPath + path.sep)) {
+                contents.delete(filePath)
+                this._emitter.emit('update', name)
+              }
+            }
+          }
+        }
+      }
+
+      for (const folder of this._folders) {
+        await this._evaluate(folder.name, [...changedFiles])
+      }
+    } finally {
+      this._isUpdating = false
+    }
+
+    broadcastIpcMessage('smart-folder-provider', 'smart-folders-updated')
+  }
+
+  /**
+   * Checks the given files against the query of a smart folder, and adds or
+   * removes them accordingly.
+   *
+   * @param   {string}    name       The smart folder
+   * @param   {string[]}  filePaths  The files to check
+   */
+  private async _evaluate (name: string, filePaths: string[]): Promise<void> {
+    const folder = this._folders.find(elem => elem.name === name)
+    const contents = this._contents.get(name)
+    if (folder === undefined || contents === undefined || filePaths.length === 0) {
+      return
+    }
+
+    const results = await this._fsal.search(filePaths, compileSearchTerms(folder.query))
+    const matches = new Set(results.map(result => result.path))
+
+    let hasChanged = false
+    for (const filePath of filePaths) {
+      if (matches.has(filePath) && !contents.has(filePath)) {
+        contents.add(filePath)
+        hasChanged = true
+      } else if (!matches.has(filePath) && contents.has(filePath)) {
+        contents.delete(filePath)
+        hasChanged = true
+      }
+    }
+
+    if (hasChanged) {
+      this._emitter.emit('update', name)
+    }
+  }
+}
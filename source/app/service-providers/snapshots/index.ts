@@ -0,0 +1,241 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        SnapshotProvider
+ * CVM-Role:        Service Provider
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Takes a snapshot of every file whenever it is saved, so that
+ *                  previous versions of a file can be restored. Snapshots are
+ *                  stored in the app data directory. Identical contents are
+ *                  only stored once, and old snapshots are thinned out
+ *                  according to the retention period.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import { app, ipcMain } from 'electron'
+import { v4 as uuid4 } from 'uuid'
+import ProviderContract from '../provider-contract'
+import LogProvider from '../log'
+import ConfigProvider from '@providers/config'
+import FSAL from '@providers/fsal'
+import DocumentManager from '@providers/documents'
+import { getMinimalChange } from '@providers/documents/util/get-minimal-change'
+import PersistentDataContainer from '@common/modules/persistent-data-container'
+import broadcastIpcMessage from '@common/util/broadcast-ipc-message'
+import countWords from '@common/util/count-words'
+import pruneSnapshots from './util/prune-snapshots'
+import { DP_EVENTS } from '@dts/common/documents'
+import { Snapshot } from '@dts/common/snapshots'
+
+const MAX_SNAPSHOTS_PER_FILE = 500 // Even within the retention period, keep no more than this many
+
+export default class SnapshotProvider extends ProviderContract {
+  /**
+   * The directory in which the contents of all snapshots are stored
+   */
+  private readonly _directory: string
+  private readonly _container: PersistentDataContainer
+  /**
+   * The snapshots of every file, newest first
+   */
+  private _snapshots: Record<string, Snapshot[]>
+
+  constructor (
+    private readonly _logger: LogProvider,
+    private readonly _config: ConfigProvider,
+    private readonly _fsal: FSAL,
+    private readonly _documents: DocumentManager
+  ) {
+    super()
+    this._directory = path.join(app.getPath('userData'), 'snapshots')
+    this._container = new PersistentDataContainer(path.join(this._directory, 'index.json'), 'json')
+    this._snapshots = {}
+
+    ipcMain.handle('snapshot-provider', async (event, message) => {
+      const { command, payload } = message
+
+      if (command === 'get-snapshots') {
+        return this._snapshots[payload.filePath] ?? []
+      } else if (command === 'get-snapshot-contents') {
+        return await this.getContents(payload.filePath, payload.id)
+      } else if (command === 'restore-snapshot') {
+        return await this.restore(payload.filePath, payload.id)
+      }
+    })
+  }
+
+  async boot (): Promise<void> {
+    this._logger.verbose('Snapshot provider booting up ...')
+    await fs.mkdir(this._directory, { recursive: true })
+
+    if (!await this._container.isInitialized()) {
+      await this._container.init({})
+    } else {
+      this._snapshots = await this._container.get()
+    }
+
+    this._documents.on(DP_EVENTS.FILE_SAVED, (ctx: { filePath: string }) => {
+      if (this._config.get('snapshots.enabled') !== true) {
+        return
+      }
+
+      fs.readFile(ctx.filePath, 'utf-8')
+        .then(async content => await this.takeSnapshot(ctx.filePath, content))
+        .catch(err => this._logger.error(`[Snapshot Provider] Could not take a snapshot of ${ctx.filePath}: ${String(err.message)}`, err))
+    })
+
+    await this._prune()
+  }
+
+  async shutdown (): Promise<void> {
+    this._logger.verbose('Snapshot provider shutting down ...')
+    this._container.shutdown()
+  }
+
+  /**
+   * Returns the path to the stored contents with the given hash
+   *
+   * @param   {string}  hash  The hash of the contents
+   *
+   * @return  {string}        The absolute path
+   */
+  private _getContentPath (hash: string): string {
+    return path.join(this._directory, `${hash}.txt`)
+  }
+
+  /**
+   * Takes a snapshot of a file, unless its contents have not changed since the
+   * last snapshot.
+   *
+   * @param   {string}  filePath  The absolute path to the file
+   * @param   {string}  content   The contents to store
+   */
+  public async takeSnapshot (filePath: string, content: string): Promise<void> {
+    const hash = crypto.createHash('sha256').update(content).digest('hex')
+    const snapshots = this._snapshots[filePath] ?? []
+    if (snapshots.length > 0 && snapshots[0].hash === hash) {
+      return
+    }
+
+    // Contents that have already been stored for another snapshot are reused
+    if (!Object.values(this._snapshots).some(list => list.some(snapshot => snapshot.hash === hash))) {
+      await fs.writeFile(this._getContentPath(hash), content, 'utf-8')
+    }
+
+    snapshots.unshift({
+      id: uuid4(),
+      timestamp: Date.now(),
+      hash,
+      words: countWords(content, false)
+    })
+
+    this._snapshots[filePath] = snapshots
+    await this._prune(filePath)
+    broadcastIpcMessage('snapshots-updated', filePath)
+  }
+
+  /**
+   * Applies the retention policy and removes all contents that are no longer
+   * used by any snapshot.
+   *
+   * @param   {string}  filePath  Optional, only prune the snapshots of this file
+   */
+  private async _prune (filePath?: string): Promise<void> {
+    const retentionDays: number = this._config.get('snapshots.retentionDays')
+    const files = filePath !== undefined ? [filePath] : Object.keys(this._snapshots)
+    const removed: Snapshot[] = []
+
+    for (const file of files) {
+      const snapshots = this._snapshots[file]
+      const keep = pruneSnapshots(snapshots, Date.now(), retentionDays).slice(0, MAX_SNAPSHOTS_PER_FILE)
+      removed.push(...snapshots.filter(snapshot => !keep.includes(snapshot)))
+
+      if (keep.length > 0) {
+        this._snapshots[file] = keep
+      } else {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete this._snapshots[file]
+      }
+    }
+
+    const usedHashes = new Set(Object.values(this._snapshots).flat().map(snapshot => snapshot.hash))
+    for (const hash of new Set(removed.map(snapshot => snapshot.hash))) {
+      if (usedHashes.has(hash)) {
+        continue
+      }
+
+      try {
+        await fs.unlink(this._getContentPath(hash))
+      } catch (err: any) {
+        this._logger.warning(`[Snapshot Provider] Could not remove snapshot contents ${hash}: ${String(err.message)}`)
+      }
+    }
+
+    this._container.set(this._snapshots)
+  }
+
+  /**
+   * Returns the contents of a snapshot together with the current contents of
+   * the file. If the file is open in an editor, the editor contents are used,
+   * including any unsaved changes.
+   *
+   * @param   {string}  filePath  The absolute path to the file
+   * @param   {string}  id        The snapshot
+   *
+   * @return  {Promise<{ snapshot: string, current: string }>}  The contents
+   */
+  public async getContents (filePath: string, id: string): Promise<{ snapshot: string, current: string }> {
+    const snapshot = this._snapshots[filePath]?.find(snapshot => snapshot.id === id)
+    if (snapshot === undefined) {
+      throw new Error(`Snapshot ${id} of file ${filePath} not found.`)
+    }
+
+    return {
+      snapshot: await fs.readFile(this._getContentPath(snapshot.hash), 'utf-8'),
+      current: this._documents.getLoadedDocument(filePath)?.content ?? await fs.readFile(filePath, 'utf-8')
+    }
+  }
+
+  /**
+   * Restores a file to the contents of a snapshot. The current contents are
+   * stored as a snapshot beforehand, so that the restore can be undone. Files
+   * that are open in an editor are changed and saved like any other edit.
+   *
+   * @param   {string}            filePath  The absolute path to the file
+   * @param   {string}            id        The snapshot
+   *
+   * @return  {Promise<boolean>}            Whether the file has been restored
+   */
+  public async restore (filePath: string, id: string): Promise<boolean> {
+    const { snapshot, current } = await this.getContents(filePath, id)
+    await this.takeSnapshot(filePath, current)
+
+    const doc = this._documents.getLoadedDocument(filePath)
+    if (doc !== undefined) {
+      if (await this._documents.applyChanges(filePath, getMinimalChange(doc.content, snapshot), doc.version) === false) {
+        this._logger.warning(`[Snapshot Provider] Could not restore ${filePath}: The document has changed.`)
+        return false
+      }
+
+      return await this._documents.saveFile(filePath)
+    }
+
+    const descriptor = this._fsal.findFile(filePath)
+    if (descriptor === undefined) {
+      this._logger.warning(`[Snapshot Provider] Could not restore ${filePath}: The file is not loaded.`)
+      return false
+    }
+
+    await this._fsal.writeTextFile(descriptor, snapshot)
+    await this.takeSnapshot(filePath, snapshot)
+    this._logger.info(`[Snapshot Provider] Restored ${filePath} to the snapshot ${id}.`)
+    return true
+  }
+}
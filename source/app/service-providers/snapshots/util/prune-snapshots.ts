@@ -0,0 +1,51 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        pruneSnapshots
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Applies the retention policy to the snapshots of a file.
+ *
+ * END HEADER
+ */
+
+import { Snapshot } from '@dts/common/snapshots'
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Determines which snapshots of a file to keep: All snapshots of the last 24
+ * hours, the most recent snapshot of each day before that, and nothing older
+ * than the retention period.
+ *
+ * @param   {Snapshot[]}  snapshots      The snapshots, newest first
+ * @param   {number}      now            The current millisecond timestamp
+ * @param   {number}      retentionDays  How many days to keep snapshots
+ *
+ * @return  {Snapshot[]}                 The snapshots to keep, newest first
+ */
+export default function pruneSnapshots (snapshots: Snapshot[], now: number, retentionDays: number): Snapshot[] {
+  const keep: Snapshot[] = []
+  const keptDays = new Set<number>()
+
+  for (const snapshot of snapshots) {
+    const age = now - snapshot.timestamp
+    if (age < DAY) {
+      keep.push(snapshot)
+      continue
+    }
+
+    const day = Math.floor(age / DAY)
+    if (day >= retentionDays || keptDays.has(day)) {
+      continue
+    }
+
+    keptDays.add(day)
+    keep.push(snapshot)
+  }
+
+  return keep
+}
@@ -13,7 +13,8 @@
  *                  "special" tags that have a color assigned. The provider
  *                  always receives just all tags, and makes sure to disentangle
  *                  and enrich the colors from the "normal" tags as they pass
- *                  through it.
+ *                  through it. Nested tags (project/alpha) inherit the color
+ *                  of their parents.
  *
  * END HEADER
  */
@@ -25,6 +26,10 @@ import ProviderContract from '../provider-contract'
 import LogProvider from '../log'
 import PersistentDataContainer from '@common/modules/persistent-data-container'
 import FSAL from '@providers/fsal'
+import { buildTagTree, findTagColor, TagTreeNode } from '@common/util/tag-hierarchy'
+import { computeCooccurrence, findSimilarTags, TagCooccurrence } from '@common/util/tag-analytics'
+
+const MAX_COOCCURRENCES = 100 // Report no more than this many pairs of tags
 
 /**
  * This interface describes a single tag within the files loaded in here.
@@ -80,6 +85,12 @@ export default class TagProvider extends ProviderContract {
 
       if (command === 'get-all-tags') {
         return this.getAllTags()
+      } else if (command === 'get-tag-tree') {
+        return this.getTagTree()
+      } else if (command === 'get-similar-tags') {
+        return findSimilarTags(this.getAllTags().map(tag => tag.name))
+      } else if (command === 'get-tag-cooccurrence') {
+        return this.getCooccurrence()
       } else if (command === 'set-colored-tags') {
         const { payload } = message
         this.setColoredTags(payload)
@@ -160,4 +171,36 @@ export default class TagProvider extends ProviderContract {
     ret.sort((a, b) => { return b.files.length - a.files.length })
     return ret
   }
+
+  /**
+   * Returns all tags as a tree, where nested tags (e.g., project/alpha) are
+   * children of their parents. Each level contains the files of all its
+   * children, and inherits the color of its closest colored parent.
+   *
+   * @return  {TagTreeNode[]}  The top-level tags
+   */
+  getTagTree (): TagTreeNode[] {
+    const tree = buildTagTree(this.getAllTags())
+
+    const applyColors = (nodes: TagTreeNode[]): void => {
+      for (const node of nodes) {
+        const coloredTag = findTagColor(this._coloredTags, node.fullName)
+        node.color = coloredTag?.color
+        node.desc = coloredTag?.desc
+        applyColors(node.children)
+      }
+    }
+
+    applyColors(tree)
+    return tree
+  }
+
+  /**
+   * Returns the pairs of tags that are most frequently used together.
+   *
+   * @return  {TagCooccurrence[]}  The pairs, most frequent first
+   */
+  getCooccurrence (): TagCooccurrence[] {
+    return computeCooccurrence(this.getAllTags(), MAX_COOCCURRENCES)
+  }
 }
@@ -0,0 +1,167 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        TaskProvider
+ * CVM-Role:        Service Provider
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Collects the tasks of all loaded files, notifies the
+ *                  renderers whenever they change, and optionally reminds the
+ *                  user of overdue tasks.
+ *
+ * END HEADER
+ */
+
+import { ipcMain } from 'electron'
+import { trans } from '@common/i18n-main'
+import broadcastIpcMessage from '@common/util/broadcast-ipc-message'
+import { toJournalDate } from '@common/util/journal-filename'
+import ProviderContract from '../provider-contract'
+import ConfigProvider from '@providers/config'
+import FSAL from '@providers/fsal'
+import LogProvider from '@providers/log'
+import NotificationProvider from '@providers/notifications'
+import { WorkspaceTask } from '@dts/common/tasks'
+
+/**
+ * How long to wait after the last change in the file tree before notifying the
+ * renderers, so that loading a workspace does not cause many updates.
+ *
+ * @var {number}
+ */
+const UPDATE_DELAY = 1000
+
+/**
+ * How often to check for overdue tasks, so that tasks which become overdue
+ * while the app is running are noticed.
+ *
+ * @var {number}
+ */
+const OVERDUE_CHECK_INTERVAL = 60 * 60 * 1000
+
+export default class TaskProvider extends ProviderContract {
+  private _updateTimeout: ReturnType<typeof setTimeout>|undefined
+  private _overdueInterval: ReturnType<typeof setInterval>|undefined
+  /**
+   * Overdue tasks the user has already been notified about
+   */
+  private readonly _notified: Set<string>
+
+  constructor (
+    private readonly _logger: LogProvider,
+    private readonly _config: ConfigProvider,
+    private readonly _fsal: FSAL,
+    private readonly _notifications: NotificationProvider
+  ) {
+    super()
+    this._updateTimeout = undefined
+    this._overdueInterval = undefined
+    this._notified = new Set()
+
+    ipcMain.handle('task-provider', (event, message) => {
+      const { command } = message
+
+      if (command === 'get-tasks') {
+        return this.getTasks()
+      }
+    })
+  }
+
+  async boot (): Promise<void> {
+    this._logger.verbose('Task provider booting up ...')
+
+    this._fsal.on('fsal-state-changed', (which: string) => {
+      if (which === 'filetree') {
+        this._scheduleUpdate()
+      }
+    })
+
+    this._config.on('update', (option: string) => {
+      if (option === 'tasks.notifyOverdue') {
+        this._checkOverdueTasks()
+      }
+    })
+
+    this._overdueInterval = setInterval(() => {
+      this._checkOverdueTasks()
+    }, OVERDUE_CHECK_INTERVAL)
+  }
+
+  async shutdown (): Promise<void> {
+    this._logger.verbose('Task provider shutting down ...')
+    if (this._updateTimeout !== undefined) {
+      clearTimeout(this._updateTimeout)
+    }
+
+    if (this._overdueInterval !== undefined) {
+      clearInterval(this._overdueInterval)
+    }
+  }
+
+  /**
+   * Returns the tasks of all loaded Markdown files
+   *
+   * @return  {WorkspaceTask[]}  The tasks, in order of their files
+   */
+  getTasks (): WorkspaceTask[] {
+    const tasks: WorkspaceTask[] = []
+    for (const descriptor of this._fsal.getAllFiles()) {
+      if (descriptor.type !== 'file') {
+        continue
+      }
+
+      for (const task of descriptor.tasks) {
+        tasks.push({ ...task, file: descriptor.path })
+      }
+    }
+    return tasks
+  }
+
+  /**
+   * Notifies the renderers about changed tasks once the file tree has settled
+   */
+  private _scheduleUpdate (): void {
+    if (this._updateTimeout !== undefined) {
+      clearTimeout(this._updateTimeout)
+    }
+
+    this._updateTimeout = setTimeout(() => {
+      this._updateTimeout = undefined
+      broadcastIpcMessage('tasks')
+      this._checkOverdueTasks()
+    }, UPDATE_DELAY)
+  }
+
+  /**
+   * Shows a notification for open tasks whose due date has passed, unless the
+   * user has already been notified about them.
+   */
+  private _checkOverdueTasks (): void {
+    if (this._config.get('tasks.notifyOverdue') !== true) {
+      return
+    }
+
+    const today = toJournalDate(new Date())
+    const overdue = this.getTasks().filter(task => {
+      return !task.done && task.due !== null && task.due < today &&
+        !this._notified.has(`${task.file}:${task.text}:${task.due}`)
+    })
+
+    if (overdue.length === 0) {
+      return
+    }
+
+    for (const task of overdue) {
+      this._notified.add(`${task.file}:${task.text}:${task.due as string}`)
+    }
+
+    const message = (overdue.length === 1)
+      ? trans('The task "%s" is overdue.', overdue[0].text)
+      : trans('%s tasks are overdue.', overdue.length)
+
+    this._notifications.show(message, trans('Tasks'))
+    this._logger.info(`[Task Provider] ${overdue.length} task(s) are overdue.`)
+  }
+}
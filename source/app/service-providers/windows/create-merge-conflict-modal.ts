@@ -0,0 +1,98 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        createMergeConflictModal function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Creates a BrowserWindow with an entry point according to
+ *                  the function arguments.
+ *
+ * END HEADER
+ */
+
+import ConfigProvider from '@providers/config'
+import LogProvider from '@providers/log'
+import {
+  BrowserWindow,
+  BrowserWindowConstructorOptions
+} from 'electron'
+import attachLogger from './attach-logger'
+import preventNavigation from './prevent-navigation'
+import setWindowChrome from './set-window-chrome'
+
+/**
+ * Creates a modal BrowserWindow that lets the user resolve merge conflicts.
+ *
+ * @param   {BrowserWindow}  win       The parent window
+ * @param   {string}         filePath  The file with conflicts
+ *
+ * @return  {BrowserWindow}            The loaded modal
+ */
+export default function createMergeConflictModal (logger: LogProvider, config: ConfigProvider, win: BrowserWindow, filePath: string): BrowserWindow {
+  const winConf: BrowserWindowConstructorOptions = {
+    acceptFirstMouse: true,
+    width: 900,
+    height: 600,
+    modal: true,
+    parent: win,
+    show: false,
+    fullscreenable: false,
+    webPreferences: {
+      // contextIsolation and sandbox mean: Preload scripts have access to
+      // Node modules, the renderers not
+      contextIsolation: true,
+      sandbox: false,
+      preload: MERGE_CONFLICT_PRELOAD_WEBPACK_ENTRY
+    }
+  }
+
+  // Set the correct window chrome
+  setWindowChrome(config, winConf, true)
+
+  const window = new BrowserWindow(winConf)
+
+  const effectiveUrl = new URL(MERGE_CONFLICT_WEBPACK_ENTRY)
+  // Add the file path to the search params
+  effectiveUrl.searchParams.append('file', filePath)
+
+  // Load the index.html of the app.
+  window.loadURL(effectiveUrl.toString())
+    .catch(e => {
+      logger.error(`Could not load URL ${MERGE_CONFLICT_WEBPACK_ENTRY}: ${e.message as string}`, e)
+    })
+
+  // EVENT LISTENERS
+
+  // Prevent arbitrary navigation away from our WEBPACK_ENTRY
+  preventNavigation(logger, window)
+
+  // Implement main process logging
+  attachLogger(logger, window, 'Merge Conflict Modal')
+
+  // Only show window once it is completely initialized + maximize it
+  window.once('ready-to-show', function () {
+    window.show()
+  })
+
+  // Emitted when the user wants to close the window.
+  window.on('close', (event) => {
+    let ses = window.webContents.session
+    // Do not "clearCache" because that would only delete my own index files
+    ses.clearStorageData({
+      storages: [
+        'appcache',
+        'cookies', // Nobody needs cookies except for downloading pandoc etc
+        'localstorage',
+        'shadercache', // Should never contain anything
+        'websql'
+      ]
+    }).catch(e => {
+      logger.error(`Could not clear session data: ${e.message as string}`, e)
+    })
+  })
+
+  return window
+}
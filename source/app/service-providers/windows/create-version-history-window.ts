@@ -0,0 +1,102 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        createVersionHistoryWindow function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Creates a BrowserWindow with an entry point according to
+ *                  the function arguments.
+ *
+ * END HEADER
+ */
+
+import ConfigProvider from '@providers/config'
+import LogProvider from '@providers/log'
+import {
+  BrowserWindow,
+  BrowserWindowConstructorOptions
+} from 'electron'
+import attachLogger from './attach-logger'
+import preventNavigation from './prevent-navigation'
+import setWindowChrome from './set-window-chrome'
+import { WindowPosition } from './types'
+
+/**
+ * Creates a BrowserWindow that displays the version history of a file.
+ *
+ * @param   {WindowPosition}  conf      The configuration to use
+ * @param   {string}          filePath  The file whose history to display
+ *
+ * @return  {BrowserWindow}             The loaded version history window
+ */
+export default function createVersionHistoryWindow (logger: LogProvider, config: ConfigProvider, conf: WindowPosition, filePath: string): BrowserWindow {
+  const winConf: BrowserWindowConstructorOptions = {
+    acceptFirstMouse: true,
+    minWidth: 300,
+    minHeight: 200,
+    width: conf.width,
+    height: conf.height,
+    minimizable: false, // Disable the minimise button for this utility window
+    x: conf.x,
+    y: conf.y,
+    show: false,
+    fullscreenable: false,
+    webPreferences: {
+      // contextIsolation and sandbox mean: Preload scripts have access to
+      // Node modules, the renderers not
+      contextIsolation: true,
+      sandbox: false,
+      preload: VERSION_HISTORY_PRELOAD_WEBPACK_ENTRY
+    }
+  }
+
+  // Set the correct window chrome
+  setWindowChrome(config, winConf)
+
+  const window = new BrowserWindow(winConf)
+
+  const effectiveUrl = new URL(VERSION_HISTORY_WEBPACK_ENTRY)
+  // Add the file path to the search params
+  effectiveUrl.searchParams.append('file', filePath)
+
+  // Load the index.html of the app.
+  window.loadURL(effectiveUrl.toString())
+    .catch(e => {
+      logger.error(`Could not load URL ${VERSION_HISTORY_WEBPACK_ENTRY}: ${e.message as string}`, e)
+    })
+
+  // EVENT LISTENERS
+
+  // Prevent arbitrary navigation away from our WEBPACK_ENTRY
+  preventNavigation(logger, window)
+
+  // Implement main process logging
+  attachLogger(logger, window, 'Version History')
+
+  // Only show window once it is completely initialized + maximize it
+  window.once('ready-to-show', function () {
+    window.show()
+  })
+
+  // Emitted when the user wants to close the window.
+  window.on('close', (event) => {
+    let ses = window.webContents.session
+    // Do not "clearCache" because that would only delete my own index files
+    ses.clearStorageData({
+      storages: [
+        'appcache',
+        'cookies', // Nobody needs cookies except for downloading pandoc etc
+        'localstorage',
+        'shadercache', // Should never contain anything
+        'websql'
+      ]
+    }).catch(e => {
+      logger.error(`Could not clear session data: ${e.message as string}`, e)
+    })
+  })
+
+  return window
+}
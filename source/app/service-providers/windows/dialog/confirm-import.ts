@@ -0,0 +1,50 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        confirmImport
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Displays a report before an import and asks for confirmation
+ *
+ * END HEADER
+ */
+
+import { BrowserWindow, dialog, MessageBoxOptions, MessageBoxReturnValue } from 'electron'
+import { trans } from '@common/i18n-main'
+
+/**
+ * Shows the given report to the user and asks whether to proceed with the import.
+ *
+ * @param   {BrowserWindow|null}  win      The window to attach to
+ * @param   {string}              message  A short summary of the import
+ * @param   {string}              report   The detailed report
+ *
+ * @return  {Promise<boolean>}             Resolves to true if the user agrees
+ */
+export default async function confirmImport (win: BrowserWindow|null, message: string, report: string): Promise<boolean> {
+  const options: MessageBoxOptions = {
+    type: 'question',
+    title: trans('Import'),
+    message,
+    detail: report,
+    buttons: [
+      trans('Cancel'),
+      trans('Import')
+    ],
+    cancelId: 0,
+    defaultId: 1
+  }
+
+  let response: MessageBoxReturnValue
+  if (win !== null && [ 'darwin', 'win32' ].includes(process.platform)) {
+    response = await dialog.showMessageBox(win, options)
+  } else {
+    response = await dialog.showMessageBox(options)
+  }
+
+  // 0 = Cancel, 1 = Import
+  return response.response === 1
+}
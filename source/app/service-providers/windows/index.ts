@@ -34,6 +34,8 @@ import createStatsWindow from './create-stats-window'
 import createPreferencesWindow from './create-preferences-window'
 import createAboutWindow from './create-about-window'
 import createTagManagerWindow from './create-tag-manager-window'
+import createVersionHistoryWindow from './create-version-history-window'
+import createMergeConflictModal from './create-merge-conflict-modal'
 import createAssetsWindow from './create-assets-window'
 import createProjectPropertiesWindow from './create-project-properties-window'
 import createPasteImageModal from './create-paste-image-modal'
@@ -47,6 +49,7 @@ import { WindowPosition } from './types'
 import askFileDialog from './dialog/ask-file'
 import saveFileDialog from './dialog/save-dialog'
 import confirmRemove from './dialog/confirm-remove'
+import confirmImport from './dialog/confirm-import'
 import * as bcp47 from 'bcp-47'
 import mapFSError from './map-fs-error'
 import ProviderContract from '@providers/provider-contract'
@@ -58,6 +61,7 @@ import { trans } from '@common/i18n-main'
 import ConfigProvider from '@providers/config'
 import PersistentDataContainer from '@common/modules/persistent-data-container'
 import { getCLIArgument, LAUNCH_MINIMIZED } from '@providers/cli-provider'
+import { MergeChoice, MergeChunk } from '@common/util/three-way-merge'
 
 export default class WindowProvider extends ProviderContract {
   private readonly _mainWindows: Record<string, BrowserWindow>
@@ -70,7 +74,10 @@ export default class WindowProvider extends ProviderContract {
   private _preferences: BrowserWindow|null
   private _aboutWindow: BrowserWindow|null
   private _tagManager: BrowserWindow|null
+  private _versionHistory: BrowserWindow|null
+  private _versionHistoryFile: string|undefined
   private _pasteImageModal: BrowserWindow|null
+  private _mergeConflictModal: BrowserWindow|null
   private _errorModal: BrowserWindow|null
   private _printWindowFile: string|undefined
   private _windowState: Map<string, WindowPosition>
@@ -93,7 +100,10 @@ export default class WindowProvider extends ProviderContract {
     this._preferences = null
     this._aboutWindow = null
     this._tagManager = null
+    this._versionHistory = null
+    this._versionHistoryFile = undefined
     this._pasteImageModal = null
+    this._mergeConflictModal = null
     this._errorModal = null
     this._printWindowFile = undefined
     this._logWindow = null
@@ -748,6 +758,32 @@ export default class WindowProvider extends ProviderContract {
     }
   }
 
+  /**
+   * Shows the version history of a file
+   *
+   * @param   {string}  filePath  The file whose history to show
+   */
+  showVersionHistoryWindow (filePath: string): void {
+    if (this._versionHistory === null) {
+      const conf = this._retrieveWindowPosition('version-history', null)
+      this._versionHistory = createVersionHistoryWindow(this._logger, this._config, conf, filePath)
+      this._hookWindowResize(this._versionHistory, 'version-history')
+      this._versionHistoryFile = filePath
+
+      // Dereference the window as soon as it is closed
+      this._versionHistory.on('closed', () => {
+        this._versionHistory = null
+        this._versionHistoryFile = undefined
+      })
+    } else if (this._versionHistoryFile === filePath) {
+      this._makeVisible(this._versionHistory)
+    } else {
+      // Another file was requested, so close the window and open it again
+      this._versionHistory.close()
+      this.showVersionHistoryWindow(filePath)
+    }
+  }
+
   /**
    * Shows the paste image modal and, after closing, returns
    */
@@ -774,6 +810,48 @@ export default class WindowProvider extends ProviderContract {
     })
   }
 
+  /**
+   * Shows the merge conflict modal and, after closing, returns how the user
+   * wants to resolve each conflict.
+   *
+   * @param   {string}        filePath  The file with conflicts
+   * @param   {MergeChunk[]}  chunks    The merge, including the conflicts
+   *
+   * @return  {Promise<MergeChoice[]|undefined>}  The choices, or undefined if
+   *                                              the user has aborted
+   */
+  async showMergeConflictModal (filePath: string, chunks: MergeChunk[]): Promise<MergeChoice[]|undefined> {
+    // Only one file can be merged at a time
+    while (this._mergeConflictModal !== null) {
+      const modal = this._mergeConflictModal
+      await new Promise(resolve => modal.once('closed', resolve))
+    }
+
+    return await new Promise((resolve, reject) => {
+      const firstMainWin = this.getFirstMainWindow()
+      if (firstMainWin === undefined) {
+        return reject(new Error('[Window Manager] A merge conflict modal was requested, but there was no main window open.'))
+      }
+      this._mergeConflictModal = createMergeConflictModal(this._logger, this._config, firstMainWin, filePath)
+
+      ipcMain.handle('get-merge-conflict', () => chunks)
+
+      ipcMain.on('merge-conflict-resolved', (event, choices: MergeChoice[]) => {
+        // Resolve now
+        resolve(choices)
+        this._mergeConflictModal?.close()
+      })
+
+      // Dereference the modal as soon as it is closed
+      this._mergeConflictModal.on('closed', () => {
+        ipcMain.removeHandler('get-merge-conflict')
+        ipcMain.removeAllListeners('merge-conflict-resolved') // Not to have a dangling listener hanging around
+        resolve(undefined) // Resolve with undefined to indicate that the user has aborted
+        this._mergeConflictModal = null
+      })
+    })
+  }
+
   /**
    * Shows an error message.
    *
@@ -934,6 +1012,23 @@ export default class WindowProvider extends ProviderContract {
     return await shouldOverwriteFileDialog(firstMainWin, filename)
   }
 
+  /**
+   * Presents a report to the user prior to an import and asks for confirmation.
+   *
+   * @param   {string}            message  A short summary
+   * @param   {string}            report   The detailed report
+   *
+   * @return  {Promise<boolean>}           Resolves with true if the import should proceed
+   */
+  async confirmImport (message: string, report: string): Promise<boolean> {
+    const firstMainWin = this.getFirstMainWindow()
+    if (firstMainWin === undefined) {
+      return false
+    }
+
+    return await confirmImport(firstMainWin, message, report)
+  }
+
   /**
    * Asks the user whether or not to persist or drop changes to their files. It
    * returns the ID of the clicked button in the message box, which is 0 to
@@ -61,7 +61,9 @@ export default async function environmentCheck (): Promise<void> {
     path.join(app.getPath('userData'), 'logs'), // Log path
     path.join(app.getPath('userData'), 'defaults'), // Defaults files
     path.join(app.getPath('userData'), 'snippets'), // Snippets files
-    path.join(app.getPath('userData'), 'lua-filter') // Lua filters
+    path.join(app.getPath('userData'), 'templates'), // Note templates
+    path.join(app.getPath('userData'), 'lua-filter'), // Lua filters
+    path.join(app.getPath('userData'), 'exporter-plugins') // Custom exporter plugins
   ]
 
   /**
@@ -7,16 +7,30 @@
  * Maintainer:      Hendrik Erz
  * License:         GNU GPL v3
  *
- * Description:     This plugin manages Zettelkasten links.
+ * Description:     This plugin manages Zettelkasten links, including links
+ *                  to headings and anchors within the target file.
  *
  * END HEADER
  */
 
-import { Completion } from '@codemirror/autocomplete'
+import { Completion, CompletionContext } from '@codemirror/autocomplete'
 import { StateEffect, StateField } from '@codemirror/state'
 import { EditorView } from '@codemirror/view'
 import { AutocompletePlugin } from '.'
 import { configField } from '../util/configuration'
+import { NoteBlock } from '@common/util/block-references'
+
+const ipcRenderer = window.ipc
+
+/**
+ * How long the blocks of a target file are cached while the user types
+ *
+ * @var {number}
+ */
+const BLOCK_CACHE_TIMEOUT = 5000
+
+// The blocks of the most recently requested link target
+let blockCache: { target: string, time: number, blocks: Promise<NoteBlock[]> }|undefined
 
 /**
  * Use this effect to provide the editor state with a set of new citekeys
@@ -78,6 +92,93 @@ const apply = (filename: string, fileId: string, displayName: string) => functio
   })
 }
 
+/**
+ * Applies a reference to a block within the target file
+ *
+ * @param   {string}  reference  The heading text or the anchor (including ^)
+ */
+const applyBlock = (reference: string) => function (view: EditorView, completion: Completion, from: number, to: number) {
+  const linkEndAfterCursor = view.state.sliceDoc(to, to + 2) === ']]'
+  const insert = (linkEndAfterCursor) ? reference : `${reference}]]`
+
+  view.dispatch({
+    changes: [{ from, to, insert }],
+    selection: { anchor: from + insert.length }
+  })
+}
+
+/**
+ * Determines if the cursor is within a reference to a block of a file, i.e.
+ * after a hash within a link ([[target#...).
+ *
+ * @param   {CompletionContext}  ctx  The completion context
+ *
+ * @return  {Object|undefined}        The link target and where the reference begins
+ */
+function getBlockReference (ctx: CompletionContext): { target: string, from: number }|undefined {
+  const { text, from } = ctx.state.doc.lineAt(ctx.pos)
+  // Only the link closest to the cursor is relevant
+  const linkStart = text.lastIndexOf('[[', ctx.pos - from)
+  if (linkStart < 0 || linkStart + 2 > ctx.pos - from) {
+    return undefined
+  }
+
+  const linkContents = text.slice(linkStart + 2, ctx.pos - from)
+  const hashIndex = linkContents.indexOf('#')
+  if (hashIndex < 1 || linkContents.includes(']]')) {
+    return undefined
+  }
+
+  return {
+    target: linkContents.slice(0, hashIndex),
+    from: from + linkStart + 2 + hashIndex + 1
+  }
+}
+
+/**
+ * Retrieves the headings and anchors of the given link target from main
+ *
+ * @param   {string}               target  The link target
+ *
+ * @return  {Promise<NoteBlock[]>}         The blocks of the target file
+ */
+async function getBlocks (target: string): Promise<NoteBlock[]> {
+  if (blockCache === undefined || blockCache.target !== target || Date.now() - blockCache.time > BLOCK_CACHE_TIMEOUT) {
+    const blocks: Promise<NoteBlock[]|undefined> = ipcRenderer.invoke('application', {
+      command: 'find-blocks',
+      payload: target
+    })
+    blockCache = { target, time: Date.now(), blocks: blocks.then(blocks => blocks ?? []) }
+  }
+
+  return await blockCache.blocks
+}
+
+/**
+ * Returns the completions for all headings and anchors of the link target
+ * that match the query
+ *
+ * @param   {string}                target  The link target
+ * @param   {string}                query   The query
+ *
+ * @return  {Promise<Completion[]>}         The completions
+ */
+async function getBlockEntries (target: string, query: string): Promise<Completion[]> {
+  const blocks = await getBlocks(target)
+  return blocks
+    .map(block => {
+      const reference = (block.type === 'anchor') ? `^${block.name}` : block.name
+      return {
+        label: reference,
+        detail: (block.type === 'anchor') ? block.content.slice(0, 50) : '#'.repeat(block.level),
+        apply: applyBlock(reference)
+      }
+    })
+    .filter(entry => {
+      return entry.label.toLowerCase().includes(query) || entry.detail.toLowerCase().includes(query)
+    })
+}
+
 export const files: AutocompletePlugin = {
   applies (ctx) {
     // File autocompletion triggers as soon as we detect the start of a link
@@ -85,17 +186,27 @@ export const files: AutocompletePlugin = {
     const lineTextUntilPos = text.slice(0, ctx.pos - from)
     const linkStartBefore = lineTextUntilPos.indexOf('[[') > lineTextUntilPos.indexOf(']]')
     const linkStartRange = ctx.state.sliceDoc(ctx.pos - 2, ctx.pos)
+    const blockReference = getBlockReference(ctx)
 
     if (linkStartRange === '[[') {
       return ctx.pos
+    } else if (blockReference !== undefined) {
+      return blockReference.from
     } else if (linkStartBefore) {
       return from + text.indexOf('[[') + 2
     } else {
       return false
     }
   },
-  entries (ctx, query) {
+  entries (ctx, query): Completion[]|Promise<Completion[]> {
     query = query.toLowerCase()
+
+    // Only the blocks of a target file have to be retrieved asynchronously
+    const blockReference = getBlockReference(ctx)
+    if (blockReference !== undefined) {
+      return getBlockEntries(blockReference.target, query)
+    }
+
     const entries = ctx.state.field(filesUpdateField)
     return entries.filter(entry => {
       return entry.label.toLowerCase().includes(query) || (entry.info as string|undefined)?.toLowerCase().includes(query)
@@ -46,13 +46,14 @@ export interface AutocompletePlugin {
    * the current query the user has typed and should return a filtered list of
    * all autocompletion entries that match that query. NOTE that the query can
    * be an empty string, in which case all entries are expected to be returned.
+   * Plugins that need to retrieve their entries first can return a promise.
    *
    * @param   {CompletionContext}  ctx    The current completion context.
    * @param   {string}             query  The current query.
    *
-   * @return  {Completion[]}              The list of available completions
+   * @return  {Completion[]|Promise<Completion[]>}  The list of available completions
    */
-  entries: (ctx: CompletionContext, query: string) => Completion[]
+  entries: (ctx: CompletionContext, query: string) => Completion[]|Promise<Completion[]>
   fields?: Array<StateField<any>>
 }
 
@@ -70,7 +71,7 @@ const forbiddenTokens = [
   'MathEquation'
 ]
 
-const autocompleteSource: CompletionSource = function (ctx): CompletionResult|null {
+const autocompleteSource: CompletionSource = function (ctx): CompletionResult|Promise<CompletionResult>|null {
   // This function is called for every keystroke and shall determine whether to
   // actually start the autocomplete.
 
@@ -94,13 +95,25 @@ const autocompleteSource: CompletionSource = function (ctx): CompletionResult|nu
 
   if (plugin !== undefined) {
     const initialOptions = plugin.entries(ctx, ctx.state.doc.sliceString(startpos, ctx.pos).toLowerCase())
+    if (initialOptions instanceof Promise) {
+      // Without an update function, the source will be queried anew as soon
+      // as the user continues typing
+      return initialOptions.then(options => {
+        return { from: startpos, options, filter: false }
+      })
+    }
+
     return {
       from: startpos,
       options: initialOptions,
       filter: false,
       update: (current, from, to, ctx) => {
         const query = ctx.state.doc.sliceString(from, to).toLowerCase()
-        current.options = (plugin as AutocompletePlugin).entries(ctx, query)
+        const options = (plugin as AutocompletePlugin).entries(ctx, query)
+        if (options instanceof Promise) {
+          return null // The entries cannot be updated synchronously, so query anew
+        }
+        current.options = options
         return current
       }
     }
@@ -134,4 +147,4 @@ export const autocomplete = [
 export { citekeyUpdate } from './citations'
 export { filesUpdate } from './files'
 export { tagsUpdate } from './tags'
-export { snippetsUpdate } from './snippets'
+export { snippetsUpdate, activateTabstops } from './snippets'
@@ -22,13 +22,9 @@ import { Completion } from '@codemirror/autocomplete'
 import { StateEffect, StateField, SelectionRange, EditorSelection, EditorState } from '@codemirror/state'
 import { Decoration, EditorView, WidgetType } from '@codemirror/view'
 import { AutocompletePlugin } from '.'
-import { DateTime } from 'luxon'
-import { v4 as uuid } from 'uuid'
-import generateId from '@common/util/generate-id'
+import { getSnippetVariables, replaceSnippetVariables, extractTabstops, TabstopRange } from '@common/util/snippet-template'
 import { configField } from '../util/configuration'
 
-const path = window.path
-
 // Define a class to highlight active tabstops
 const tabstopDeco = Decoration.mark({ class: 'tabstop' })
 
@@ -177,122 +173,50 @@ export const snippetsUpdateField = StateField.define<SnippetStateField>({
  *                                          ranges (if any)
  */
 function template2snippet (state: EditorState, template: string, rangeOffset: number): [string, EditorSelection[]] {
-  const rawRanges: Array<{ position: number, ranges: SelectionRange[] }> = []
-  let finalText = replaceSnippetVariables(state, template)
-
-  // Matches $[0-9] as well as ${[0-9]:default string}
-  const tabStopRE = /(?<!\\)\$(\d+)|(?<!\\)\$\{(\d+):(.+?)\}/ // NOTE: No g flag
-
-  let match: null|RegExpExecArray = null
-  while ((match = tabStopRE.exec(finalText)) !== null) {
-    const position = parseInt(match[1] ?? match[2], 10)
-    const replacementString: string|undefined = match[3]
-    const from = rangeOffset + match.index
-    const to = (replacementString !== undefined) ? from + replacementString.length : from
-
-    finalText = finalText.replace(match[0], replacementString ?? '')
-    rawRanges.push({ position, ranges: [EditorSelection.range(from, to)] })
-  }
-
-  if (rawRanges.length === 0) {
-    return [ finalText, [] ] // Already done!
-  }
-
-  // Combine multiple ranges with the same position together
-  const combinedRanges = rawRanges.reduce<Array<{ position: number, ranges: SelectionRange[] }>>((acc, value) => {
-    const { position, ranges } = value
-    const existingRange = acc.find(v => v.position === position)
-    if (existingRange !== undefined) {
-      existingRange.ranges = existingRange.ranges.concat(ranges)
-    } else {
-      acc.push(value)
-    }
-
-    return acc
-  }, [])
-
-  // Sort the ranges ascending, except the zero, which needs at the bottom
-  combinedRanges.sort((a, b) => {
-    if (a.position === 0) {
-      return 1 // Bring to back
-    } else if (b.position === 0) {
-      return -1
-    } else {
-      return a.position - b.position
-    }
-  })
-
-  // Check that there's a zero in there. If not, add one to the back.
-  if (combinedRanges[combinedRanges.length - 1].position !== 0) {
-    combinedRanges.push({ position: 0, ranges: [EditorSelection.cursor(rangeOffset + finalText.length)] })
-  }
-
-  // For the rest of the script, it's irrelevant which position the tabs had,
-  // since it expects the array to be sorted anyways, so we can omit that info now.
-  const slections = combinedRanges.map(v => EditorSelection.create(v.ranges))
-
-  return [ finalText, slections ]
+  const config = state.field(configField)
+  const variables = getSnippetVariables(
+    config.metadata.path,
+    config.metadata.id,
+    window.clipboard.readText(),
+    window.config.get('zkn.idGen')
+  )
+
+  const { text, tabstops } = extractTabstops(replaceSnippetVariables(template, variables))
+  return [ text, tabstops2selections(tabstops, rangeOffset) ]
 }
 
 /**
-   * A utility function that replaces snippet variables with their correct values
-   * dynamically.
-   *
-   * @param   {string}             text  The text to modify
-   *
-   * @return  {string}                   The text with all variables replaced accordingly.
-   */
-function replaceSnippetVariables (state: EditorState, text: string): string {
-  // First, prepare our replacement table
-  const now = DateTime.now()
-  const month = now.month
-  const day = now.day
-  const hour = now.hour
-  const minute = now.minute
-  const second = now.second
-  const clipboard = window.clipboard.readText()
+ * Converts tabstop ranges into editor selections
+ *
+ * @param   {TabstopRange[][]}   tabstops     The tabstops, in order
+ * @param   {number}             rangeOffset  The offset of the tabstop ranges
+ *
+ * @return  {EditorSelection[]}               One selection per tabstop
+ */
+function tabstops2selections (tabstops: TabstopRange[][], rangeOffset: number): EditorSelection[] {
+  return tabstops.map(ranges => EditorSelection.create(ranges.map(range => {
+    return EditorSelection.range(rangeOffset + range.from, rangeOffset + range.to)
+  })))
+}
 
-  const config = state.field(configField)
-  const absPath = config.metadata.path
-
-  const REPLACEMENTS = {
-    CURRENT_YEAR: now.year,
-    CURRENT_YEAR_SHORT: now.year.toString().substring(2),
-    CURRENT_MONTH: (month < 10) ? '0' + month.toString() : month,
-    CURRENT_MONTH_NAME: now.monthLong,
-    CURRENT_MONTH_NAME_SHORT: now.monthShort,
-    CURRENT_DATE: (day < 10) ? '0' + day.toString() : day,
-    CURRENT_HOUR: (hour < 10) ? '0' + hour.toString() : hour,
-    CURRENT_MINUTE: (minute < 10) ? '0' + minute.toString() : minute,
-    CURRENT_SECOND: (second < 10) ? '0' + second.toString() : second,
-    CURRENT_SECONDS_UNIX: now.toSeconds(),
-    UUID: uuid(),
-    CLIPBOARD: (clipboard !== '') ? clipboard : undefined,
-    ZKN_ID: generateId(window.config.get('zkn.idGen')),
-    CURRENT_ID: config.metadata.id,
-    FILENAME: path.basename(absPath),
-    DIRECTORY: path.dirname(absPath),
-    EXTENSION: path.extname(absPath)
+/**
+ * Selects the first of the given tabstops and makes the remaining ones
+ * available to tab through, as if a snippet had just been inserted. This is
+ * used for new files that have been created from a template.
+ *
+ * @param   {EditorView}        target    The editor
+ * @param   {TabstopRange[][]}  tabstops  The tabstops, in order
+ */
+export function activateTabstops (target: EditorView, tabstops: TabstopRange[][]): void {
+  const selections = tabstops2selections(tabstops, 0)
+  const firstSelection = selections.shift()
+  if (firstSelection === undefined) {
+    return
   }
 
-  // Second: Replace those variables, and return the text. NOTE we're adding a
-  // negative lookbehind -- (?<!\\) -- to make sure we're not including escaped ones.
-  return text.replace(/(?<!\\)\$([A-Z_]+)|(?<!\\)\$\{([A-Z_]+):(.+?)\}/g, (match, p1, p2, p3) => {
-    if (p1 !== undefined) {
-      // We have a single variable, so only replace if it's a supported one
-      if (REPLACEMENTS[p1 as keyof typeof REPLACEMENTS] !== undefined) {
-        return REPLACEMENTS[p1 as keyof typeof REPLACEMENTS]
-      } else {
-        return match
-      }
-    } else {
-      // We have a variable with placeholder, so replace it potentially with the default
-      if (REPLACEMENTS[p2 as keyof typeof REPLACEMENTS] !== undefined) {
-        return REPLACEMENTS[p2 as keyof typeof REPLACEMENTS]
-      } else {
-        return p3
-      }
-    }
+  target.dispatch({
+    selection: firstSelection,
+    effects: snippetTabsEffect.of(selections)
   })
 }
 
@@ -51,7 +51,8 @@ import {
   citekeyUpdate,
   filesUpdate,
   tagsUpdate,
-  snippetsUpdate
+  snippetsUpdate,
+  activateTabstops
 } from './autocomplete'
 
 // Main configuration
@@ -88,6 +89,8 @@ import { highlightRangesEffect } from './plugins/highlight-ranges'
 
 import safeAssign from '@common/util/safe-assign'
 import countWords from '@common/util/count-words'
+import { TabstopRange } from '@common/util/snippet-template'
+import { BlockTarget, findBlock } from '@common/util/block-references'
 import { DocumentType, DP_EVENTS } from '@dts/common/documents'
 import { TagRecord } from '@providers/tags'
 import { PullUpdateCallback, PushUpdateCallback, reloadStateEffect } from './plugins/remote-doc'
@@ -124,7 +127,7 @@ export interface DocumentInfo {
   }>
 }
 
-export type FetchDoc = (filePath: string) => Promise<{ content: string, type: DocumentType, startVersion: number }>
+export type FetchDoc = (filePath: string) => Promise<{ content: string, type: DocumentType, startVersion: number, tabstops?: TabstopRange[][] }>
 
 /**
  * This interface is used to provide the editor with an API of where to fetch
@@ -365,7 +368,7 @@ export default class MarkdownEditor extends EventEmitter {
    *                                  reloading the same document again.
    */
   async swapDoc (documentPath: string, force: boolean = false): Promise<void> {
-    const { content, type, startVersion } = await this.authority.fetchDoc(documentPath)
+    const { content, type, startVersion, tabstops } = await this.authority.fetchDoc(documentPath)
     const currentDoc = this._instance.state.doc.toString()
     const isSameDoc = this.config.metadata.path === documentPath && content === currentDoc
 
@@ -428,6 +431,12 @@ export default class MarkdownEditor extends EventEmitter {
         selection: this._instance.state.selection.toJSON()
       })
     }
+
+    // Documents that have just been created from a template may contain
+    // tabstops, which the user can now tab through
+    if (tabstops !== undefined && tabstops.length > 0) {
+      activateTabstops(this._instance, tabstops)
+    }
   }
 
   /**
@@ -485,6 +494,27 @@ export default class MarkdownEditor extends EventEmitter {
     this._instance.focus()
   }
 
+  /**
+   * Jumps to a heading or an anchored paragraph, provided that the document
+   * containing it is the one currently loaded.
+   *
+   * @param   {string}       filePath  The document containing the block
+   * @param   {BlockTarget}  block     The block to jump to
+   *
+   * @return  {boolean}                False if the document is not loaded
+   */
+  jumpToBlock (filePath: string, block: BlockTarget): boolean {
+    if (this._instance.state.field(configField).metadata.path !== filePath) {
+      return false
+    }
+
+    const found = findBlock(this._instance.state.doc.toString(), block)
+    if (found !== undefined) {
+      this.jtl(found.line)
+    }
+    return true
+  }
+
   /**
    * Moves the section that starts with an ATX heading on the from-line to the
    * line identified by to
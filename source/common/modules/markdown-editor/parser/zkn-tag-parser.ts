@@ -16,7 +16,8 @@ import { InlineParser } from '@lezer/markdown'
 
 // Any character allowed before a tag (the first are space, nbsp, and tab)
 const allowedCharsBefore = '   ({['.split('')
-const tagRE = /^##?[^\s,.:;…!?"'`»«“”‘’—–@$%&*#^+~÷\\/|<=>[\](){}]+#?/u
+// Tags may be nested using slashes, e.g. #project/alpha/meeting
+const tagRE = /^##?[^\s,.:;…!?"'`»«“”‘’—–@$%&*#^+~÷\\/|<=>[\](){}]+(?:\/[^\s,.:;…!?"'`»«“”‘’—–@$%&*#^+~÷\\/|<=>[\](){}]+)*#?/u
 
 export const zknTagParser: InlineParser = {
   name: 'zkn-tags',
@@ -24,6 +24,7 @@ import { renderMermaid } from './render-mermaid'
 import { renderTables } from './render-tables'
 import { renderIframes } from './render-iframes'
 import { renderEmphasis } from './render-emphasis'
+import { renderTransclusions } from './render-transclusions'
 import { configField, EditorConfiguration } from '../util/configuration'
 
 const renderCompartment = new Compartment()
@@ -31,7 +32,7 @@ const renderCompartment = new Compartment()
 const transactionExtender = EditorState.transactionExtender.from(configField, config => transaction => {
   const ext: Extension[] = [renderMermaid]
   if (config.renderImages) ext.push(renderImages)
-  if (config.renderLinks) ext.push(renderLinks)
+  if (config.renderLinks) ext.push(renderLinks, renderTransclusions)
   if (config.renderMath) ext.push(renderMath)
   if (config.renderTasks) ext.push(renderTasks)
   if (config.renderHeadings) ext.push(renderHeadings)
@@ -65,7 +66,7 @@ const transactionExtender = EditorState.transactionExtender.from(configField, co
 export function renderers (config?: Partial<EditorConfiguration>): Extension {
   const ext: Extension[] = [renderMermaid]
   if (config?.renderImages === true) ext.push(renderImages)
-  if (config?.renderLinks === true) ext.push(renderLinks)
+  if (config?.renderLinks === true) ext.push(renderLinks, renderTransclusions)
   if (config?.renderMath === true) ext.push(renderMath)
   if (config?.renderTasks === true) ext.push(renderTasks)
   if (config?.renderHeadings === true) ext.push(renderHeadings)
@@ -0,0 +1,132 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Transclusion renderer
+ * CVM-Role:        View
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This renderer displays a collapsible, read-only preview of
+ *                  transcluded notes (![[note]] or ![[note#Heading]]).
+ *
+ * END HEADER
+ */
+
+import { renderBlockWidgets } from './base-renderer'
+import { SyntaxNodeRef } from '@lezer/common'
+import { EditorView, WidgetType } from '@codemirror/view'
+import { EditorState } from '@codemirror/state'
+import { configField } from '../util/configuration'
+import { md2html } from '@common/modules/markdown-utils'
+import { trans } from '@common/i18n-renderer'
+import { TRANSCLUSION_RE } from '@common/util/expand-transclusions'
+import extractSection from '@common/util/extract-section'
+import extractYamlFrontmatter from '@common/util/extract-yaml-frontmatter'
+import { MDFileDescriptor } from '@dts/common/fsal'
+
+const ipcRenderer = window.ipc
+
+class TransclusionWidget extends WidgetType {
+  constructor (readonly target: string, readonly heading: string|undefined) {
+    super()
+  }
+
+  eq (other: TransclusionWidget): boolean {
+    return other.target === this.target && other.heading === this.heading
+  }
+
+  toDOM (view: EditorView): HTMLElement {
+    const wrapper = document.createElement('details')
+    wrapper.classList.add('transclusion-wrapper')
+    wrapper.open = true
+
+    const summary = document.createElement('summary')
+    summary.textContent = (this.heading !== undefined) ? `${this.target} › ${this.heading}` : this.target
+
+    const openButton = document.createElement('button')
+    openButton.textContent = trans('Open…').replace('…', '')
+    openButton.addEventListener('click', (event) => {
+      event.preventDefault()
+      ipcRenderer.invoke('application', {
+        command: 'force-open',
+        payload: { linkContents: this.target, newTab: undefined }
+      })
+        .catch(err => console.error(err))
+    })
+    summary.appendChild(openButton)
+
+    const content = document.createElement('div')
+    content.classList.add('transclusion-content')
+    content.textContent = trans('Loading…')
+
+    wrapper.appendChild(summary)
+    wrapper.appendChild(content)
+
+    const { library } = view.state.field(configField).metadata
+    this.loadContent()
+      .then(markdown => { content.innerHTML = md2html(markdown, library) })
+      .catch((err: Error) => {
+        content.classList.add('error')
+        content.textContent = err.message
+      })
+
+    return wrapper
+  }
+
+  /**
+   * Retrieves the transcluded contents from the main process
+   *
+   * @return  {Promise<string>}  The Markdown to display
+   */
+  async loadContent (): Promise<string> {
+    const descriptor: MDFileDescriptor|undefined = await ipcRenderer.invoke('application', {
+      command: 'find-exact',
+      payload: this.target
+    })
+
+    if (descriptor === undefined) {
+      throw new Error(trans('File %s does not exist.', this.target))
+    }
+
+    const fileContents: string = await ipcRenderer.invoke('application', {
+      command: 'get-file-contents',
+      payload: descriptor.path
+    })
+
+    const { content } = extractYamlFrontmatter(fileContents)
+    if (this.heading === undefined) {
+      return content
+    }
+
+    const section = extractSection(content, this.heading)
+    if (section === undefined) {
+      throw new Error(trans('Section %s not found.', this.heading))
+    }
+
+    return section
+  }
+
+  ignoreEvent (event: Event): boolean {
+    // Allow collapsing and clicking the button without moving the cursor into
+    // the transclusion, which would remove the widget
+    return event instanceof MouseEvent
+  }
+}
+
+function shouldHandleNode (node: SyntaxNodeRef): boolean {
+  return node.type.name === 'Paragraph'
+}
+
+function createWidget (state: EditorState, node: SyntaxNodeRef): TransclusionWidget|undefined {
+  const paragraph = state.sliceDoc(node.from, node.to)
+  // NOTE: The exported RegExp is global, so we need a fresh, non-global copy
+  const match = new RegExp(TRANSCLUSION_RE.source).exec(paragraph)
+  if (match === null || match[0].length !== paragraph.length) {
+    return undefined
+  }
+
+  return new TransclusionWidget(match[1].trim(), match[2])
+}
+
+export const renderTransclusions = renderBlockWidgets(shouldHandleNode, createWidget)
@@ -16,6 +16,7 @@
 import { DocumentType, DP_EVENTS } from '@dts/common/documents'
 import { Update } from '@codemirror/collab'
 import { DocumentAuthorityAPI } from '..'
+import { TabstopRange } from '@common/util/snippet-template'
 
 const ipcRenderer = window.ipc
 
@@ -55,7 +56,7 @@ async function pushUpdates (filePath: string, version: number, updates: any): Pr
   })
 }
 
-async function fetchDoc (filePath: string): Promise<{ content: string, type: DocumentType, startVersion: number }> {
+async function fetchDoc (filePath: string): Promise<{ content: string, type: DocumentType, startVersion: number, tabstops?: TabstopRange[][] }> {
   // Fetches a fresh document
   return await ipcRenderer.invoke('documents-authority', {
     command: 'get-document',
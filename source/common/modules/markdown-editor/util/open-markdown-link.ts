@@ -20,6 +20,7 @@ import { configField } from './configuration'
 import { EditorView } from '@codemirror/view'
 import { tocField } from '../plugins/toc-field'
 import { hasMarkdownExt } from '@providers/fsal/util/is-md-or-code-file'
+import { findBlock } from '@common/util/block-references'
 
 const path = window.path
 const ipcRenderer = window.ipc
@@ -45,6 +46,21 @@ function findMatchingHeading (headingId: string, state: EditorState): Line|undef
   }
 }
 
+/**
+ * Determines the line descriptor of the paragraph with the given block anchor
+ *
+ * @param   {string}       anchor  The anchor (without ^)
+ * @param   {EditorState}  state   The state
+ *
+ * @return  {Line|undefined}       The line, or undefined
+ */
+function findMatchingAnchor (anchor: string, state: EditorState): Line|undefined {
+  const block = findBlock(state.doc.toString(), { type: 'anchor', name: anchor })
+  if (block !== undefined) {
+    return state.doc.line(block.line)
+  }
+}
+
 /**
  * Resolves and opens a link safely (= not inside Zettlr, except it's a local MD file)
  *
@@ -57,8 +73,11 @@ export default function (url: string, view: EditorView): void {
   const windowId = searchParams.get('window_id') as string
 
   if (url[0] === '#') {
-    // We should open an internal link, i.e. "jump to line".
-    const targetLine = findMatchingHeading(url.substring(1), view.state)
+    // We should open an internal link, i.e. "jump to line". Links to block
+    // anchors look like #^anchor, all others point to headings.
+    const targetLine = url.startsWith('#^')
+      ? findMatchingAnchor(url.substring(2), view.state)
+      : findMatchingHeading(url.substring(1), view.state)
     if (targetLine !== undefined) {
       view.dispatch({
         selection: { anchor: targetLine.from, head: targetLine.to },
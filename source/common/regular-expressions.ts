@@ -456,6 +456,6 @@ export function getUrlRE (global: boolean = false): RegExp {
  */
 export function getZknTagRE (global: boolean = false): RegExp {
   return RegExp(
-    /(?<=^|\s|[({[])#(#?[^\s,.:;…!?"'`»«“”‘’—–@$%&*#^+~÷\\/|<=>[\](){}]+#?)/.source,
+    /(?<=^|\s|[({[])#(#?[^\s,.:;…!?"'`»«“”‘’—–@$%&*#^+~÷\\/|<=>[\](){}]+(?:\/[^\s,.:;…!?"'`»«“”‘’—–@$%&*#^+~÷\\/|<=>[\](){}]+)*#?)/.source,
     (global) ? 'gi' : 'i')
 }
@@ -0,0 +1,195 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        parseBlockReference, extractBlocks, findBlock
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Utilities for links that point to a block within a note,
+ *                  i.e. a heading ([[id#Heading]]) or an anchored paragraph
+ *                  ([[id#^anchor]]).
+ *
+ * END HEADER
+ */
+
+export interface BlockTarget {
+  /**
+   * heading: An ATX heading, referenced by its text; anchor: A paragraph that
+   * ends with a block anchor (^anchor), referenced by the anchor name
+   */
+  type: 'heading'|'anchor'
+  name: string
+}
+
+export interface NoteBlock extends BlockTarget {
+  /**
+   * The line number (1-based) on which the block starts
+   */
+  line: number
+  /**
+   * The heading level, or 0 for anchored paragraphs
+   */
+  level: number
+  /**
+   * The contents of the block: The whole section for headings, and the
+   * paragraph (without its anchor) for anchors
+   */
+  content: string
+}
+
+/**
+ * Matches a block anchor at the end of a line, e.g. "Some text ^my-anchor"
+ *
+ * @var {RegExp}
+ */
+const ANCHOR_RE = /(?:^|\s+)\^([\w-]+)\s*$/
+
+/**
+ * Matches ATX headings
+ *
+ * @var {RegExp}
+ */
+const HEADING_RE = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+
+/**
+ * Splits the contents of a Zettelkasten link into the link target and an
+ * optional reference to a block within the target.
+ *
+ * @param   {string}  linkContents  The contents of the link (without brackets)
+ *
+ * @return  {Object}                The target and the block, if applicable
+ */
+export function parseBlockReference (linkContents: string): { target: string, block?: BlockTarget } {
+  const hashIndex = linkContents.indexOf('#')
+  if (hashIndex < 0) {
+    return { target: linkContents.trim() }
+  }
+
+  const target = linkContents.substring(0, hashIndex).trim()
+  const reference = linkContents.substring(hashIndex + 1).trim()
+  if (reference.startsWith('^') && reference.length > 1) {
+    return { target, block: { type: 'anchor', name: reference.substring(1) } }
+  } else if (reference !== '' && !reference.startsWith('^')) {
+    return { target, block: { type: 'heading', name: reference } }
+  } else {
+    return { target }
+  }
+}
+
+/**
+ * Extracts all headings and anchored paragraphs from the given Markdown. Code
+ * blocks and the YAML frontmatter are ignored, but are still counted for the
+ * line numbers.
+ *
+ * @param   {string}       markdown  The Markdown source
+ *
+ * @return  {NoteBlock[]}            All blocks in order of appearance
+ */
+export function extractBlocks (markdown: string): NoteBlock[] {
+  const lines = markdown.split(/\r?\n/)
+  const blocks: NoteBlock[] = []
+  // Lines that can neither start nor continue a paragraph
+  const isBoundary: boolean[] = lines.map(line => line.trim() === '')
+
+  let inFrontmatter = lines[0] === '---'
+  let inCodeBlock = false
+
+  for (let i = 0; i < lines.length; i++) {
+    if (inFrontmatter) {
+      isBoundary[i] = true
+      if (i > 0 && [ '---', '...' ].includes(lines[i])) {
+        inFrontmatter = false
+      }
+      continue
+    }
+
+    if (/^\s*(`{3,}|~{3,})/.test(lines[i])) {
+      inCodeBlock = !inCodeBlock
+      isBoundary[i] = true
+      continue
+    }
+
+    if (inCodeBlock) {
+      isBoundary[i] = true
+      continue
+    }
+
+    const heading = HEADING_RE.exec(lines[i])
+    if (heading !== null) {
+      isBoundary[i] = true
+      blocks.push({ type: 'heading', name: heading[2].trim(), line: i + 1, level: heading[1].length, content: '' })
+      continue
+    }
+
+    const anchor = ANCHOR_RE.exec(lines[i])
+    if (anchor !== null) {
+      blocks.push({ type: 'anchor', name: anchor[1], line: i + 1, level: 0, content: '' })
+    }
+  }
+
+  for (const block of blocks) {
+    const index = block.line - 1
+    if (block.type === 'heading') {
+      // A section ends right before the next heading of the same or a higher level
+      const next = blocks.find(other => other.type === 'heading' && other.line > block.line && other.level <= block.level)
+      const end = (next !== undefined) ? next.line - 1 : lines.length
+      block.content = lines.slice(index, end).join('\n').trimEnd()
+    } else {
+      let start = index
+      let end = index + 1
+      if (lines[index].replace(ANCHOR_RE, '').trim() === '') {
+        // An anchor on its own line refers to the paragraph right above it
+        start = index - 1
+        while (start >= 0 && lines[start].trim() === '') {
+          start--
+        }
+        end = start + 1
+      }
+
+      if (start < 0 || isBoundary[start]) {
+        continue
+      }
+
+      while (start > 0 && !isBoundary[start - 1]) {
+        start--
+      }
+
+      while (end < lines.length && !isBoundary[end]) {
+        end++
+      }
+
+      block.line = start + 1
+      block.content = lines.slice(start, end)
+        .map(line => line.replace(ANCHOR_RE, ''))
+        .join('\n')
+        .trim()
+    }
+  }
+
+  // Anchors without a paragraph cannot be referenced
+  return blocks.filter(block => block.type === 'heading' || block.content !== '')
+}
+
+/**
+ * Finds the referenced block within the given Markdown. Headings are matched
+ * case-insensitively, anchors exactly.
+ *
+ * @param   {string}                 markdown  The Markdown source
+ * @param   {BlockTarget}            target    The block to find
+ *
+ * @return  {NoteBlock|undefined}              The block, or undefined
+ */
+export function findBlock (markdown: string, target: BlockTarget): NoteBlock|undefined {
+  const wanted = target.name.trim().toLowerCase()
+  return extractBlocks(markdown).find(block => {
+    if (block.type !== target.type) {
+      return false
+    } else if (block.type === 'heading') {
+      return block.name.toLowerCase() === wanted
+    } else {
+      return block.name === target.name
+    }
+  })
+}
@@ -6,108 +6,296 @@
  * Maintainer:      Hendrik Erz
  * License:         GNU GPL v3
  *
- * Description:     This function compiles a string of search terms.
+ * Description:     This function compiles a search query into a tree of
+ *                  search terms.
  *
- *                  Supported operators:
+ *                  Supported syntax:
  *                  * AND (space)
- *                  * OR (pipe, |)
+ *                  * OR (pipe, |), which binds stronger than AND
  *                  * NOT (exclamation mark, !)
+ *                  * "exact phrases"
+ *                  * /regular expressions/flags
+ *                  * (grouping)
+ *                  * Fields: tag:, title:, path:, ext:, yaml:key=value,
+ *                    modified:>2024-01-01, words:>500, has:citation
  *
  * END HEADER
  */
 
-import { SearchTerm } from '@dts/common/search'
-
-export default function compileSearchTerms (term: string): SearchTerm[] {
-  // First sanitize the terms
-  const myTerms: SearchTerm[] = []
-  let curWord = ''
-  let hasExact = false
-  let operator: 'AND'|'OR'|'NOT' = 'AND'
-
-  for (let i = 0; i < term.length; i++) {
-    const c = term.charAt(i)
-    if (c === ' ' && !hasExact) {
-      // Spaces mark the end of one search term (except we're in an exact match)
-      if (curWord.trim() !== '') {
-        myTerms.push({ words: [curWord.trim()], operator })
-        curWord = ''
-        operator = 'AND' // Reset the operator
-      }
-      continue
+import { SearchField, SearchFieldTerm, SearchTerm } from '@dts/common/search'
+
+const SEARCH_FIELDS: SearchField[] = [ 'tag', 'title', 'path', 'ext', 'yaml', 'modified', 'words', 'has' ]
+
+type QueryToken = { type: 'open'|'close'|'or'|'not' } | { type: 'term', term: SearchTerm }
+
+/**
+ * Parses a `field:value` word into a field term. Returns null if the word is
+ * not a field, or undefined if it is a field without a value (which happens
+ * while the user is still typing).
+ *
+ * @param   {string}                           word  The word to parse
+ *
+ * @return  {SearchFieldTerm|null|undefined}         The field term
+ */
+function parseField (word: string): SearchFieldTerm|null|undefined {
+  const match = /^([a-z]+):(.*)$/is.exec(word)
+  if (match === null) {
+    return null
+  }
+
+  const field = match[1].toLowerCase() as SearchField
+  if (!SEARCH_FIELDS.includes(field)) {
+    return null
+  }
+
+  let key: string|undefined
+  let rest = match[2]
+  if (field === 'yaml') {
+    // yaml:author=Smith, or yaml:author to require only the key
+    const keyMatch = /^([^=<>]+)(.*)$/s.exec(rest)
+    if (keyMatch === null) {
+      return undefined
+    }
+    key = keyMatch[1]
+    rest = keyMatch[2]
+  }
+
+  const comparatorMatch = /^(<=|>=|<|>|=)?(.*)$/s.exec(rest) as RegExpExecArray
+  const comparator = comparatorMatch[1] as SearchFieldTerm['comparator']|undefined ?? ':'
+  let value = comparatorMatch[2]
+  if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) {
+    value = value.substring(1, value.length - 1)
+  }
+
+  if (value === '' && key === undefined) {
+    return undefined
+  }
+
+  const term: SearchFieldTerm = { type: 'field', field, comparator, value }
+  if (key !== undefined) {
+    term.key = key
+  }
+  return term
+}
+
+/**
+ * Checks whether a pattern and flags form a valid regular expression.
+ *
+ * @param   {string}   pattern  The pattern
+ * @param   {string}   flags    The flags
+ *
+ * @return  {boolean}           True if the expression compiles
+ */
+function isValidRegExp (pattern: string, flags: string): boolean {
+  try {
+    return new RegExp(pattern, flags) instanceof RegExp
+  } catch (err) {
+    return false
+  }
+}
+
+/**
+ * Splits the query into tokens, i.e. operators, parentheses and terms.
+ *
+ * @param   {string}        query  The query
+ *
+ * @return  {QueryToken[]}         The tokens
+ */
+function tokenise (query: string): QueryToken[] {
+  const tokens: QueryToken[] = []
+  let depth = 0
+  let i = 0
+
+  while (i < query.length) {
+    const c = query.charAt(i)
+
+    if (/\s/.test(c)) {
+      i++
+    } else if (c === '(') {
+      tokens.push({ type: 'open' })
+      depth++
+      i++
+    } else if (c === ')' && depth > 0) {
+      tokens.push({ type: 'close' })
+      depth--
+      i++
     } else if (c === '|') {
-      // We got an OR operator
-      // If the next character is a space, we can use a shortcut here
-      if (term.charAt(i + 1) === ' ') {
-        ++i
+      tokens.push({ type: 'or' })
+      i++
+    } else if (c === '!') {
+      tokens.push({ type: 'not' })
+      i++
+    } else if (c === '"') {
+      // Exact phrases are not trimmed to account for leading and trailing
+      // whitespace within the quotes
+      let end = query.indexOf('"', i + 1)
+      if (end < 0) {
+        end = query.length
+      }
+      const value = query.substring(i + 1, end)
+      if (value !== '') {
+        tokens.push({ type: 'term', term: { type: 'text', value } })
       }
+      i = end + 1
+    } else {
+      // A regular expression extends until the next unescaped slash and must
+      // be followed by the end of the word
+      if (c === '/') {
+        const regexMatch = /^\/((?:\\.|[^\\/])+)\/([a-z]*)(?=$|[\s|)])/.exec(query.substring(i))
+        if (regexMatch !== null) {
+          const [ fullMatch, pattern ] = regexMatch
+          // The global and sticky flags make expressions stateful, which would
+          // break matching the same expression against several strings
+          const flags = regexMatch[2].replace(/[gy]/g, '')
+          // Make sure the expression is valid, or else treat it as a word
+          if (isValidRegExp(pattern, flags)) {
+            tokens.push({ type: 'term', term: { type: 'regex', pattern, flags } })
+            i += fullMatch.length
+            continue
+          }
+        }
+      }
+
+      // Read a word. Quotes within a word (e.g. title:"Some title") extend the
+      // word until the closing quote.
+      let word = ''
+      while (i < query.length) {
+        const char = query.charAt(i)
+        if (/\s/.test(char) || char === '|' || (char === ')' && depth > 0)) {
+          break
+        }
 
-      // We know additionally know that the previous operator was an or. But
-      // let's check that the user hasn't accidentally deleted one OR-word and
-      // now their current search STARTS with a pipe character. If not, we will
-      // disregard this OR character and treat what's coming as an AND
-      if (myTerms.length > 0) {
-        myTerms[myTerms.length - 1].operator = 'OR'
-        operator = 'OR'
+        if (char === '"') {
+          let end = query.indexOf('"', i + 1)
+          if (end < 0) {
+            end = query.length - 1
+          }
+          word += query.substring(i, end + 1)
+          i = end + 1
+        } else {
+          word += char
+          i++
+        }
       }
-      continue
-    } else if (c === '"') {
-      if (!hasExact) {
-        // Begin an exact phrase
-        hasExact = true
-      } else {
-        hasExact = false
-        // Do not trim the word to account for trailing and
-        // ending whitespace within an exact capturing group
-        myTerms.push({ words: [curWord], operator })
-        curWord = ''
-        operator = 'AND'
+
+      const field = parseField(word)
+      if (field === null) {
+        tokens.push({ type: 'term', term: { type: 'text', value: word } })
+      } else if (field !== undefined) {
+        tokens.push({ type: 'term', term: field })
       }
-      continue
-    } else if (c === '!' && !hasExact && curWord === '') {
-      // An exclamation mark only has meaning if it is preceeded
-      // by a space and not within an exact match. Preceeded by
-      // space is indicated by an empty curWord variable.
-      operator = 'NOT'
-      continue // We don't want the ! in the term
     }
+  }
+
+  return tokens
+}
 
-    curWord += term.charAt(i)
+/**
+ * Creates a group of the given type, flattening nested groups of the same
+ * type and collapsing groups with only a single term.
+ *
+ * @param   {'and'|'or'}              type   The group type
+ * @param   {SearchTerm[]}            terms  The terms of the group
+ *
+ * @return  {SearchTerm|undefined}           The group, or undefined if empty
+ */
+function makeGroup (type: 'and'|'or', terms: SearchTerm[]): SearchTerm|undefined {
+  const flattened: SearchTerm[] = []
+  for (const term of terms) {
+    if (term.type === type) {
+      flattened.push(...term.terms)
+    } else {
+      flattened.push(term)
+    }
   }
 
-  // Now that we're through the search terms, clean up
+  if (flattened.length === 0) {
+    return undefined
+  } else if (flattened.length === 1) {
+    return flattened[0]
+  } else {
+    return { type, terms: flattened }
+  }
+}
 
-  // If there is a last word (in most cases it should be), add it to the list
-  if (curWord.trim() !== '') {
-    myTerms.push({ words: [curWord.trim()], operator })
+/**
+ * Compiles a search query into a tree of search terms. An empty query results
+ * in an empty AND-group, which matches everything.
+ *
+ * @param   {string}      query  The search query
+ *
+ * @return  {SearchTerm}         The root of the term tree
+ */
+export default function compileSearchTerms (query: string): SearchTerm {
+  const tokens = tokenise(query)
+  let pos = 0
+
+  const parseUnary = (): SearchTerm|undefined => {
+    const token = tokens[pos]
+    if (token === undefined) {
+      return undefined
+    } else if (token.type === 'term') {
+      pos++
+      return token.term
+    } else if (token.type === 'not') {
+      pos++
+      const term = parseUnary()
+      return (term === undefined) ? undefined : { type: 'not', term }
+    } else if (token.type === 'open') {
+      pos++
+      const group = parseAnd()
+      if (tokens[pos]?.type === 'close') {
+        pos++
+      }
+      return group
+    }
+
+    return undefined
   }
 
-  // Now pack together all consecutive ORs
-  // to make it easier for the search in the main process
-  let currentOr: SearchTerm = {
-    operator: 'OR',
-    words: []
+  const parseOr = (): SearchTerm|undefined => {
+    const terms: SearchTerm[] = []
+    const first = parseUnary()
+    if (first !== undefined) {
+      terms.push(first)
+    }
+
+    while (tokens[pos]?.type === 'or') {
+      pos++
+      const next = parseUnary()
+      if (next !== undefined) {
+        terms.push(next)
+      }
+    }
+
+    return makeGroup('or', terms)
   }
 
-  const newTerms: SearchTerm[] = []
+  const parseAnd = (): SearchTerm|undefined => {
+    const terms: SearchTerm[] = []
+    while (pos < tokens.length && tokens[pos].type !== 'close') {
+      const start = pos
+      const term = parseOr()
+      if (term !== undefined) {
+        terms.push(term)
+      }
 
-  for (let i = 0; i < myTerms.length; i++) {
-    if (myTerms[i].operator !== 'OR') {
-      if (currentOr.words.length > 0) {
-        // Duplicate object so that the words are retained
-        newTerms.push(currentOr)
-        currentOr = { operator: 'OR', words: [] }
+      if (pos === start) {
+        pos++ // Skip stray tokens, such as a leading pipe
       }
-      newTerms.push(myTerms[i])
-    } else {
-      currentOr.words = currentOr.words.concat(myTerms[i].words)
     }
+
+    return makeGroup('and', terms)
   }
 
-  // Now push the currentOr if not empty
-  if (currentOr.words.length > 0) {
-    newTerms.push(currentOr)
+  const terms: SearchTerm[] = []
+  while (pos < tokens.length) {
+    const term = parseAnd()
+    if (term !== undefined) {
+      terms.push(term)
+    }
+    pos++ // Skip unbalanced closing parentheses
   }
 
-  return newTerms
+  return makeGroup('and', terms) ?? { type: 'and', terms: [] }
 }
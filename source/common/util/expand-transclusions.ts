@@ -0,0 +1,151 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        expandTransclusions function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Recursively replaces transclusions (![[note]] or
+ *                  ![[note#Heading]]) with the contents of the targets.
+ *
+ * END HEADER
+ */
+
+import extractSection from './extract-section'
+import extractYamlFrontmatter from './extract-yaml-frontmatter'
+
+/**
+ * Matches a transclusion, which must stand on its own line. Group 1 contains
+ * the target (ID or filename), group 2 an optional heading.
+ *
+ * @var {RegExp}
+ */
+export const TRANSCLUSION_RE = /^!\[\[([^\]#\n]+?)(?:#([^\]\n]+?))?\]\][ \t]*$/gm
+
+/**
+ * Matches inline code spans, which may contain anything
+ *
+ * @var {RegExp}
+ */
+const INLINE_CODE_RE = /(`+)[^`]+?\1/g
+
+/**
+ * Describes a file that can be transcluded.
+ */
+export interface TransclusionTarget {
+  /**
+   * An absolute path, used to detect cycles
+   */
+  path: string
+  /**
+   * The Markdown contents of the file
+   */
+  content: string
+}
+
+/**
+ * Returns the ranges of all code blocks and inline code spans within the
+ * Markdown source, in which transclusions must not be expanded.
+ *
+ * @param   {string}                   markdown  The Markdown source
+ *
+ * @return  {Array<[number, number]>}            The start and end offsets
+ */
+function getCodeRanges (markdown: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+  const lines = markdown.split('\n')
+
+  let codeBlockStart: number|undefined
+  let lineOffset = 0
+  for (const line of lines) {
+    const offset = lineOffset
+    lineOffset += line.length + 1
+
+    if (/^\s*(`{3,}|~{3,})/.test(line)) {
+      if (codeBlockStart === undefined) {
+        codeBlockStart = offset
+      } else {
+        ranges.push([ codeBlockStart, offset + line.length ])
+        codeBlockStart = undefined
+      }
+    } else if (codeBlockStart === undefined) {
+      for (const match of line.matchAll(INLINE_CODE_RE)) {
+        const from = offset + (match.index as number)
+        ranges.push([ from, from + match[0].length ])
+      }
+    }
+  }
+
+  // An unclosed code block extends to the end of the document
+  if (codeBlockStart !== undefined) {
+    ranges.push([ codeBlockStart, markdown.length ])
+  }
+
+  return ranges
+}
+
+/**
+ * Replaces every transclusion in the document with the contents of the
+ * transcluded note (or only the given section of it). Transclusions within the
+ * transcluded contents are expanded as well. Throws an error if a target cannot
+ * be found, or if a note (indirectly) transcludes itself. Transclusions within
+ * code are left untouched.
+ *
+ * @param   {string}    markdown    The Markdown source
+ * @param   {string}    sourcePath  The absolute path of the document
+ * @param   {Function}  loadTarget  Resolves an ID or filename to a target
+ * @param   {string[]}  chain       The files that are currently being expanded
+ *
+ * @return  {Promise<string>}       The expanded document
+ */
+export default async function expandTransclusions (
+  markdown: string,
+  sourcePath: string,
+  loadTarget: (query: string) => Promise<TransclusionTarget|undefined>,
+  chain: string[] = []
+): Promise<string> {
+  const currentChain = chain.concat(sourcePath)
+  const codeRanges = getCodeRanges(markdown)
+  const matches = [...markdown.matchAll(TRANSCLUSION_RE)].filter(match => {
+    const index = match.index as number
+    return !codeRanges.some(([ from, to ]) => index >= from && index < to)
+  })
+  if (matches.length === 0) {
+    return markdown
+  }
+
+  let expanded = ''
+  let lastIndex = 0
+  for (const match of matches) {
+    const query = match[1].trim()
+    const heading = match[2]
+
+    const target = await loadTarget(query)
+    if (target === undefined) {
+      throw new Error(`Could not transclude "${match[0]}" in ${sourcePath}: The note "${query}" was not found.`)
+    }
+
+    if (currentChain.includes(target.path)) {
+      const cycle = currentChain.slice(currentChain.indexOf(target.path)).concat(target.path)
+      throw new Error(`Could not transclude "${match[0]}" in ${sourcePath}: Circular transclusion detected (${cycle.join(' → ')}).`)
+    }
+
+    let content = extractYamlFrontmatter(target.content).content
+    if (heading !== undefined) {
+      const section = extractSection(content, heading)
+      if (section === undefined) {
+        throw new Error(`Could not transclude "${match[0]}" in ${sourcePath}: The note "${query}" has no section "${heading}".`)
+      }
+      content = section
+    }
+
+    content = await expandTransclusions(content.trim(), target.path, loadTarget, currentChain)
+
+    expanded += markdown.slice(lastIndex, match.index) + content
+    lastIndex = (match.index as number) + match[0].length
+  }
+
+  return expanded + markdown.slice(lastIndex)
+}
@@ -0,0 +1,65 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        extractSection function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Extracts a section demarcated by ATX headings from a
+ *                  Markdown document.
+ *
+ * END HEADER
+ */
+
+/**
+ * Extracts a whole section (as demarcated by ATX headings) from the given
+ * Markdown source. The section begins with the first heading whose text equals
+ * the given heading (case-insensitive) and ends right before the next heading
+ * of the same or a higher level. Headings within fenced code blocks are ignored.
+ *
+ * @param   {string}            markdown  The Markdown source
+ * @param   {string}            heading   The text of the heading (without #)
+ *
+ * @return  {string|undefined}            The section including its heading, or
+ *                                        undefined if there is no such heading.
+ */
+export default function extractSection (markdown: string, heading: string): string|undefined {
+  const lines = markdown.split(/\r?\n/)
+  const wanted = heading.trim().toLowerCase()
+  const headingRE = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+
+  let inCodeBlock = false
+  let sectionStart = -1
+  let headingLevel = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+
+    if (inCodeBlock) {
+      continue
+    }
+
+    const match = headingRE.exec(lines[i])
+    if (match === null) {
+      continue
+    }
+
+    if (sectionStart < 0 && match[2].trim().toLowerCase() === wanted) {
+      sectionStart = i
+      headingLevel = match[1].length
+    } else if (sectionStart > -1 && match[1].length <= headingLevel) {
+      return lines.slice(sectionStart, i).join('\n').trimEnd()
+    }
+  }
+
+  if (sectionStart < 0) {
+    return undefined
+  }
+
+  return lines.slice(sectionStart).join('\n').trimEnd()
+}
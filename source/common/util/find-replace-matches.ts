@@ -0,0 +1,156 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        findReplaceMatches function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Finds all matches of a workspace replace within a text and
+ *                  computes their replacements, and applies a selection of
+ *                  these matches to a text.
+ *
+ * END HEADER
+ */
+
+import { WorkspaceReplaceMatch, WorkspaceReplaceOptions } from '@dts/common/search'
+
+/**
+ * Creates the regular expression for the given options. Plain text is escaped,
+ * so that it is matched literally.
+ *
+ * @throws If the options contain an invalid regular expression.
+ *
+ * @param   {WorkspaceReplaceOptions}  options  The options
+ *
+ * @return  {RegExp}                            The (global) regular expression
+ */
+export function makeReplaceRegExp (options: WorkspaceReplaceOptions): RegExp {
+  let source = options.isRegex
+    ? options.search
+    : options.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`
+  }
+
+  return new RegExp(source, options.caseSensitive ? 'gm' : 'gim')
+}
+
+/**
+ * Expands the references in a replacement template for a single match, the
+ * same way String.prototype.replace does: $$, $&, $`, $', $1 to $99, and
+ * $<name>. Unknown references are kept verbatim.
+ *
+ * @param   {string}            template  The replacement template
+ * @param   {RegExpMatchArray}  match     The match
+ *
+ * @return  {string}                      The replacement
+ */
+export function expandReplacement (template: string, match: RegExpMatchArray): string {
+  const input = match.input ?? ''
+  const index = match.index ?? 0
+
+  return template.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (ref: string, what: string, name: string|undefined) => {
+    if (what === '$') {
+      return '$'
+    } else if (what === '&') {
+      return match[0]
+    } else if (what === '`') {
+      return input.substring(0, index)
+    } else if (what === "'") {
+      return input.substring(index + match[0].length)
+    } else if (name !== undefined) {
+      return match.groups?.[name] ?? (match.groups === undefined ? ref : '')
+    }
+
+    // Two-digit references fall back to one digit if there aren't enough groups
+    let group = parseInt(what, 10)
+    let rest = ''
+    if (group >= match.length && what.length === 2) {
+      group = parseInt(what[0], 10)
+      rest = what[1]
+    }
+
+    if (group === 0 || group >= match.length) {
+      return ref
+    }
+
+    return (match[group] ?? '') + rest
+  })
+}
+
+/**
+ * Finds all matches in the content and computes their replacements. Plain
+ * text replacements are inserted literally.
+ *
+ * @throws If the options contain an invalid regular expression.
+ *
+ * @param   {string}                   content  The content to search
+ * @param   {WorkspaceReplaceOptions}  options  The options
+ *
+ * @return  {WorkspaceReplaceMatch[]}           All matches, in order
+ */
+export default function findReplaceMatches (content: string, options: WorkspaceReplaceOptions): WorkspaceReplaceMatch[] {
+  if (options.search === '') {
+    return []
+  }
+
+  const re = makeReplaceRegExp(options)
+  const matches: WorkspaceReplaceMatch[] = []
+
+  // Keep track of the line the last match was on, so that we only need to
+  // count line breaks between two matches.
+  let line = 0
+  let lineStart = 0
+  let position = 0
+
+  for (const match of content.matchAll(re)) {
+    const from = match.index as number
+    for (; position < from; position++) {
+      if (content[position] === '\n') {
+        line++
+        lineStart = position + 1
+      }
+    }
+
+    let lineEnd = content.indexOf('\n', from)
+    if (lineEnd < 0) {
+      lineEnd = content.length
+    }
+
+    matches.push({
+      from,
+      to: from + match[0].length,
+      line,
+      lineText: content.substring(lineStart, lineEnd).replace(/\r$/, ''),
+      ch: from - lineStart,
+      match: match[0],
+      replacement: options.isRegex ? expandReplacement(options.replace, match) : options.replace
+    })
+  }
+
+  return matches
+}
+
+/**
+ * Applies the given matches to the content. The matches must not overlap.
+ *
+ * @param   {string}                   content  The content
+ * @param   {WorkspaceReplaceMatch[]}  matches  The matches to replace
+ *
+ * @return  {string}                            The new content
+ */
+export function applyReplaceMatches (content: string, matches: WorkspaceReplaceMatch[]): string {
+  const sorted = [...matches].sort((a, b) => a.from - b.from)
+
+  let result = ''
+  let position = 0
+  for (const match of sorted) {
+    result += content.substring(position, match.from) + match.replacement
+    position = match.to
+  }
+
+  return result + content.substring(position)
+}
@@ -18,11 +18,14 @@ import { v4 as uuid } from 'uuid'
 
 /**
  * Generates a new filename based on the configured filename pattern.
+ * @param  {string} filenamePattern The filename pattern
+ * @param  {string} idGenPattern    The pattern for Zettelkasten IDs
+ * @param  {string} id              Optional, an already generated ID to use
  * @return {string} The new filename.
  */
-export default function generateFilename (filenamePattern: string, idGenPattern: string): string {
+export default function generateFilename (filenamePattern: string, idGenPattern: string, id?: string): string {
   let pattern = replaceStringVariables(filenamePattern)
-  pattern = pattern.replace(/%id/g, generateId(idGenPattern))
+  pattern = pattern.replace(/%id/g, id ?? generateId(idGenPattern))
   // In case a funny guy has removed the pattern from config.
   if (pattern.trim().length === 0) {
     pattern = uuid()
@@ -0,0 +1,97 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        getJournalFilename, getJournalDate, toJournalDate
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Translates between dates and the filenames of journal
+ *                  notes, based on the configured filename pattern.
+ *
+ * END HEADER
+ */
+
+import replaceStringVariables from './replace-string-variables'
+
+/**
+ * The regular expressions that the variables of a filename pattern match
+ */
+const VARIABLE_RE: Record<string, string> = {
+  uuid4: '[0-9a-f-]{36}',
+  id: '.+?',
+  Y: '(?<year>\\d{4})',
+  y: '(?<shortYear>\\d{2})',
+  M: '(?<month>\\d{2})',
+  D: '(?<day>\\d{2})',
+  W: '\\d{2}',
+  h: '\\d{2}',
+  m: '\\d{2}',
+  s: '\\d{2}',
+  X: '\\d+'
+}
+
+/**
+ * Formats a date as YYYY-MM-DD, which is how journal dates are passed around.
+ *
+ * @param   {Date}    date  The date
+ *
+ * @return  {string}        The formatted date
+ */
+export function toJournalDate (date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Returns the filename (sans extension) of the journal note for a date.
+ *
+ * @param   {string}  pattern  The journal filename pattern
+ * @param   {Date}    date     The date of the journal note
+ * @param   {string}  id       The Zettelkasten ID of the note (for %id)
+ *
+ * @return  {string}           The filename
+ */
+export function getJournalFilename (pattern: string, date: Date, id: string): string {
+  return replaceStringVariables(pattern.replace(/%id/g, id), date)
+}
+
+/**
+ * Determines the date of a journal note from its filename. This requires the
+ * pattern to contain the year, month, and day.
+ *
+ * @param   {string}            pattern   The journal filename pattern
+ * @param   {string}            filename  The filename, with or without extension
+ *
+ * @return  {string|undefined}            The date as YYYY-MM-DD, or undefined if
+ *                                        the filename does not match the pattern
+ */
+export function getJournalDate (pattern: string, filename: string): string|undefined {
+  let expression = ''
+  let index = 0
+  for (const match of pattern.matchAll(/%(uuid4|id|Y|y|M|D|W|h|m|s|X)/g)) {
+    // Named groups may only appear once, so repetitions must simply match
+    const variable = match[1]
+    const group = VARIABLE_RE[variable]
+    const isRepeated = expression.includes(group)
+    expression += pattern.slice(index, match.index).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    expression += isRepeated ? group.replace(/\?<\w+>/, '?:') : group
+    index = (match.index as number) + match[0].length
+  }
+  expression += pattern.slice(index).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+  const result = new RegExp(`^${expression}(?:\\.\\w+)?$`).exec(filename)
+  if (result?.groups === undefined) {
+    return undefined
+  }
+
+  const { year, shortYear, month, day } = result.groups
+  const fullYear = year ?? (shortYear !== undefined ? '20' + shortYear : undefined)
+  if (fullYear === undefined || month === undefined || day === undefined) {
+    return undefined
+  }
+
+  return `${fullYear}-${month}-${day}`
+}
@@ -0,0 +1,202 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        computeLineDiff, getDiffHunks, getSideBySideRows
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Computes a line-based diff between two versions of a text.
+ *
+ * END HEADER
+ */
+
+/**
+ * A single line of a diff
+ */
+export interface DiffLine {
+  type: 'context'|'added'|'removed'
+  text: string
+  /**
+   * The (1-based) line number in the old text, if the line exists there
+   */
+  oldLine?: number
+  /**
+   * The (1-based) line number in the new text, if the line exists there
+   */
+  newLine?: number
+}
+
+/**
+ * The maximum size of the table used to compute the longest common
+ * subsequence. Larger changed regions are treated as replaced as a whole.
+ *
+ * @var {number}
+ */
+const MAX_LCS_CELLS = 4000000
+
+/**
+ * Computes a line-based diff between two texts.
+ *
+ * @param   {string}      oldText  The old text
+ * @param   {string}      newText  The new text
+ *
+ * @return  {DiffLine[]}           All lines of both texts, marked as unchanged
+ *                                 (context), added, or removed.
+ */
+export function computeLineDiff (oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split(/\r?\n/)
+  const b = newText.split(/\r?\n/)
+
+  // Only the region between common prefix and suffix needs to be compared
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const diff: DiffLine[] = []
+  for (let i = 0; i < start; i++) {
+    diff.push({ type: 'context', text: a[i], oldLine: i + 1, newLine: i + 1 })
+  }
+
+  const n = endA - start
+  const m = endB - start
+  if (n * m <= MAX_LCS_CELLS) {
+    // lcs[i * (m + 1) + j] holds the length of the longest common subsequence
+    // of a[start + i ..] and b[start + j ..]
+    const lcs = new Uint32Array((n + 1) * (m + 1))
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        diff.push({ type: 'context', text: a[start + i], oldLine: start + i + 1, newLine: start + j + 1 })
+        i++
+        j++
+      } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        // On ties, removed lines come first, as in any common diff output
+        diff.push({ type: 'removed', text: a[start + i], oldLine: start + i + 1 })
+        i++
+      } else {
+        diff.push({ type: 'added', text: b[start + j], newLine: start + j + 1 })
+        j++
+      }
+    }
+  } else {
+    for (let i = start; i < endA; i++) {
+      diff.push({ type: 'removed', text: a[i], oldLine: i + 1 })
+    }
+    for (let j = start; j < endB; j++) {
+      diff.push({ type: 'added', text: b[j], newLine: j + 1 })
+    }
+  }
+
+  for (let i = endA, j = endB; i < a.length; i++, j++) {
+    diff.push({ type: 'context', text: a[i], oldLine: i + 1, newLine: j + 1 })
+  }
+
+  return diff
+}
+
+/**
+ * Groups the changes of a diff into hunks that only contain a few unchanged
+ * lines of context around each change.
+ *
+ * @param   {DiffLine[]}    diff     The full diff
+ * @param   {number}        context  How many unchanged lines to keep around
+ *                                   each change
+ *
+ * @return  {DiffLine[][]}           The hunks, empty if nothing has changed
+ */
+export function getDiffHunks (diff: DiffLine[], context: number = 3): DiffLine[][] {
+  const hunks: DiffLine[][] = []
+  let hunkEnd = -1 // The index after the last line of the current hunk
+
+  for (let i = 0; i < diff.length; i++) {
+    if (diff[i].type === 'context') {
+      continue
+    }
+
+    const from = Math.max(0, i - context)
+    if (hunks.length === 0 || from > hunkEnd) {
+      hunks.push([])
+      hunkEnd = from
+    }
+
+    // Find the end of this run of changes
+    let to = i
+    while (to < diff.length && diff[to].type !== 'context') {
+      to++
+    }
+
+    const end = Math.min(diff.length, to + context)
+    hunks[hunks.length - 1].push(...diff.slice(hunkEnd, end))
+    hunkEnd = end
+    i = to - 1
+  }
+
+  return hunks
+}
+
+/**
+ * A row of a side-by-side diff. A side is undefined if the line only exists
+ * in the other version.
+ */
+export interface SideBySideRow {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+/**
+ * Arranges the lines of a diff side by side, so that removed lines appear
+ * next to the lines that replaced them.
+ *
+ * @param   {DiffLine[]}       diff  The diff (or a hunk thereof)
+ *
+ * @return  {SideBySideRow[]}        The rows, old version on the left
+ */
+export function getSideBySideRows (diff: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let removed: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = (): void => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const line of diff) {
+    if (line.type === 'removed') {
+      if (added.length > 0) {
+        flush() // A new change begins
+      }
+      removed.push(line)
+    } else if (line.type === 'added') {
+      added.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  }
+
+  flush()
+  return rows
+}
@@ -0,0 +1,232 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        getProseLines, parseLocalLinkTarget, findLocalLinks,
+ *                  extractLocalLinks
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Finds the Markdown links and images of a document that
+ *                  point to local files, together with their positions.
+ *
+ * END HEADER
+ */
+
+/**
+ * A line of a Markdown document outside of the frontmatter and code blocks
+ */
+export interface ProseLine {
+  /**
+   * The line (without linebreak), in which inline code has been replaced with
+   * spaces, so that positions within the line remain the same
+   */
+  text: string
+  /**
+   * The line number (1-based)
+   */
+  line: number
+  /**
+   * The offset of the line within the document
+   */
+  offset: number
+}
+
+/**
+ * The target of a Markdown link or image that points to a local file
+ */
+export interface LocalLinkTarget {
+  /**
+   * The (decoded) path to the file, without anchors or queries
+   */
+  path: string
+  /**
+   * Whether the target is wrapped in angle brackets, e.g. <my file.md>
+   */
+  isWrapped: boolean
+  /**
+   * Whether the target is URL-encoded, e.g. my%20file.md
+   */
+  isEncoded: boolean
+  /**
+   * Either file:// or an empty string
+   */
+  protocol: string
+  /**
+   * Any anchor or query following the path
+   */
+  suffix: string
+}
+
+/**
+ * A Markdown link or image that points to a local file
+ */
+export interface LocalLink extends LocalLinkTarget {
+  /**
+   * The link target as written
+   */
+  target: string
+  /**
+   * The offsets of the whole link or image
+   */
+  from: number
+  to: number
+  /**
+   * The offsets of the link target
+   */
+  targetFrom: number
+  targetTo: number
+}
+
+/**
+ * Matches Markdown links and images, e.g. [text](path) or ![alt](<path> "Title")
+ *
+ * @var {RegExp}
+ */
+const MD_LINK_RE = /!?\[[^\]]*\]\((<[^>\n]+>|[^)\s]+)(?:\s+"[^"\n]*")?\)/g
+
+/**
+ * Matches inline code spans, which may contain anything
+ *
+ * @var {RegExp}
+ */
+const INLINE_CODE_RE = /(`+)[^`]+?\1/g
+
+/**
+ * Returns all lines of a Markdown document that are neither part of the YAML
+ * frontmatter nor of a code block. Inline code is blanked out.
+ *
+ * @param   {string}        markdown  The Markdown source
+ *
+ * @return  {ProseLine[]}             The lines
+ */
+export function getProseLines (markdown: string): ProseLine[] {
+  const proseLines: ProseLine[] = []
+  const lines = markdown.split('\n')
+
+  let inFrontmatter = lines[0].trimEnd() === '---'
+  let inCodeBlock = false
+  let offset = 0
+
+  for (let i = 0; i < lines.length; offset += lines[i].length + 1, i++) {
+    const line = lines[i].replace(/\r$/, '')
+
+    if (inFrontmatter) {
+      if (i > 0 && [ '---', '...' ].includes(line.trimEnd())) {
+        inFrontmatter = false
+      }
+      continue
+    }
+
+    if (/^\s*(`{3,}|~{3,})/.test(line)) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+
+    if (!inCodeBlock) {
+      const text = line.replace(INLINE_CODE_RE, (match) => ' '.repeat(match.length))
+      proseLines.push({ text, line: i + 1, offset })
+    }
+  }
+
+  return proseLines
+}
+
+/**
+ * Parses the target of a Markdown link or image, or returns undefined if the
+ * link points somewhere else (a website, an anchor, a Zettelkasten link, etc.)
+ *
+ * @param   {string}                    linkTarget  The link target as written
+ *
+ * @return  {LocalLinkTarget|undefined}             The parsed target
+ */
+export function parseLocalLinkTarget (linkTarget: string): LocalLinkTarget|undefined {
+  const isWrapped = linkTarget.startsWith('<') && linkTarget.endsWith('>')
+  let target = isWrapped ? linkTarget.slice(1, -1) : linkTarget
+
+  // Anchors, Zettelkasten links and protocols (except for file://)
+  if (target.startsWith('#') || target.startsWith('[[')) {
+    return undefined
+  }
+
+  let protocol = ''
+  if (/^[a-z][a-z0-9+.-]+:/i.test(target) && !/^[a-z]:[\\/]/i.test(target)) {
+    if (!target.startsWith('file://')) {
+      return undefined
+    }
+    protocol = 'file://'
+    target = target.substring(protocol.length)
+  }
+
+  const suffix = /[#?].*$/.exec(target)?.[0] ?? ''
+  target = target.substring(0, target.length - suffix.length)
+  if (target === '') {
+    return undefined
+  }
+
+  let decoded = target
+  try {
+    decoded = decodeURI(target)
+  } catch (err) {
+    // Keep the target as it is
+  }
+
+  return { path: decoded, isWrapped, isEncoded: decoded !== target, protocol, suffix }
+}
+
+/**
+ * Finds all links and images pointing to local files within a single line.
+ *
+ * @param   {string}       line  The line, e.g. the text of a ProseLine
+ *
+ * @return  {LocalLink[]}        The links, with offsets relative to the line
+ */
+export function findLocalLinks (line: string): LocalLink[] {
+  const links: LocalLink[] = []
+  for (const match of line.matchAll(MD_LINK_RE)) {
+    const target = match[1]
+    const parsed = parseLocalLinkTarget(target)
+    if (parsed === undefined) {
+      continue
+    }
+
+    const from = match.index as number
+    const targetFrom = from + match[0].indexOf('](') + 2
+    links.push({
+      ...parsed,
+      target,
+      from,
+      to: from + match[0].length,
+      targetFrom,
+      targetTo: targetFrom + target.length
+    })
+  }
+  return links
+}
+
+/**
+ * Extracts all links and images pointing to local files from a Markdown
+ * document. Code blocks, inline code and the YAML frontmatter are ignored.
+ *
+ * @param   {string}                                markdown  The Markdown source
+ *
+ * @return  {Array<LocalLink & { line: number }>}             The links with
+ *                                                            their line numbers
+ */
+export default function extractLocalLinks (markdown: string): Array<LocalLink & { line: number }> {
+  const links: Array<LocalLink & { line: number }> = []
+  for (const { text, line, offset } of getProseLines(markdown)) {
+    for (const link of findLocalLinks(text)) {
+      links.push({
+        ...link,
+        line,
+        from: offset + link.from,
+        to: offset + link.to,
+        targetFrom: offset + link.targetFrom,
+        targetTo: offset + link.targetTo
+      })
+    }
+  }
+  return links
+}
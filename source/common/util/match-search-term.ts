@@ -0,0 +1,276 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        matchSearchTerm function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Evaluates a compiled search term tree against a descriptor.
+ *                  Field terms are matched against the descriptor's metadata,
+ *                  while the caller decides where text and regular expression
+ *                  terms are looked up, so that both the global search and the
+ *                  file list filter interpret queries identically.
+ *
+ * END HEADER
+ */
+
+import { AnyDescriptor } from '@dts/common/fsal'
+import { SearchFieldTerm, SearchRegexTerm, SearchTerm, SearchTextTerm } from '@dts/common/search'
+
+export type SearchTextMatcher = (term: SearchTextTerm|SearchRegexTerm) => boolean
+
+/**
+ * Creates a regular expression for a text or regular expression term. Text
+ * terms are always matched case-insensitively.
+ *
+ * @param   {SearchTextTerm|SearchRegexTerm}  term        The term
+ * @param   {string}                          extraFlags  Additional flags
+ *
+ * @return  {RegExp}                                      The expression
+ */
+export function makeTermRegExp (term: SearchTextTerm|SearchRegexTerm, extraFlags: string = ''): RegExp {
+  if (term.type === 'text') {
+    const escaped = term.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    return new RegExp(escaped, [...new Set('i' + extraFlags)].join(''))
+  } else {
+    return new RegExp(term.pattern, [...new Set(term.flags + extraFlags)].join(''))
+  }
+}
+
+/**
+ * Returns all text and regular expression terms that contribute to a match,
+ * i.e. that are not negated. These are the ones that should be highlighted.
+ *
+ * @param   {SearchTerm}                        term  The term tree
+ *
+ * @return  {Array<SearchTextTerm|SearchRegexTerm>}   The terms
+ */
+export function getPositiveTextTerms (term: SearchTerm): Array<SearchTextTerm|SearchRegexTerm> {
+  switch (term.type) {
+    case 'text':
+    case 'regex':
+      return [term]
+    case 'and':
+    case 'or':
+      return term.terms.flatMap(child => getPositiveTextTerms(child))
+    default:
+      return []
+  }
+}
+
+/**
+ * Matches a text or regular expression term against the filename and the tags
+ * of a descriptor. A text term starting with a "#" matches tags that contain
+ * it, and a single "#" matches any file with tags.
+ *
+ * @param   {SearchTextTerm|SearchRegexTerm}  term        The term
+ * @param   {AnyDescriptor}                   descriptor  The descriptor
+ *
+ * @return  {boolean}                                     Whether it matched
+ */
+export function matchDescriptorText (term: SearchTextTerm|SearchRegexTerm, descriptor: AnyDescriptor): boolean {
+  if (makeTermRegExp(term).test(descriptor.name)) {
+    return true
+  }
+
+  if (descriptor.type !== 'file') {
+    return false
+  }
+
+  if (term.type === 'regex') {
+    const re = makeTermRegExp(term)
+    return descriptor.tags.some(tag => re.test(tag))
+  }
+
+  const value = term.value.toLowerCase()
+  if (value === '#') {
+    return descriptor.tags.length > 0
+  } else if (value.startsWith('#')) {
+    return descriptor.tags.some(tag => tag.includes(value.substring(1)))
+  } else {
+    return descriptor.tags.includes(value)
+  }
+}
+
+/**
+ * Compares two numbers using the comparator of a field term.
+ *
+ * @param   {number}                           a           The actual value
+ * @param   {SearchFieldTerm['comparator']}    comparator  The comparator
+ * @param   {number}                           b           The value from the query
+ *
+ * @return  {boolean}                                      The comparison result
+ */
+function compareNumbers (a: number, comparator: SearchFieldTerm['comparator'], b: number): boolean {
+  if (Number.isNaN(b)) {
+    return false
+  }
+
+  switch (comparator) {
+    case '<':
+      return a < b
+    case '<=':
+      return a <= b
+    case '>':
+      return a > b
+    case '>=':
+      return a >= b
+    default:
+      return a === b
+  }
+}
+
+/**
+ * Compares a timestamp with a (partial) ISO date, such as 2024, 2024-01, or
+ * 2024-01-31. The date is interpreted as a period, so that "=" means "within"
+ * and ">" means "after".
+ *
+ * @param   {number}                         timestamp   The timestamp in ms
+ * @param   {SearchFieldTerm['comparator']}  comparator  The comparator
+ * @param   {string}                         date        The date
+ *
+ * @return  {boolean}                                    The comparison result
+ */
+function compareDate (timestamp: number, comparator: SearchFieldTerm['comparator'], date: string): boolean {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(date.trim())
+  if (match === null) {
+    return false
+  }
+
+  const year = parseInt(match[1], 10)
+  const month = (match[2] !== undefined) ? parseInt(match[2], 10) - 1 : undefined
+  const day = (match[3] !== undefined) ? parseInt(match[3], 10) : undefined
+
+  const start = new Date(year, month ?? 0, day ?? 1).getTime()
+  let end: number
+  if (day !== undefined) {
+    end = new Date(year, month as number, day + 1).getTime()
+  } else if (month !== undefined) {
+    end = new Date(year, month + 1, 1).getTime()
+  } else {
+    end = new Date(year + 1, 0, 1).getTime()
+  }
+
+  switch (comparator) {
+    case '<':
+      return timestamp < start
+    case '<=':
+      return timestamp < end
+    case '>':
+      return timestamp >= end
+    case '>=':
+      return timestamp >= start
+    default:
+      return timestamp >= start && timestamp < end
+  }
+}
+
+/**
+ * Matches a field term against the metadata of a descriptor.
+ *
+ * @param   {SearchFieldTerm}  term        The field term
+ * @param   {AnyDescriptor}    descriptor  The descriptor
+ *
+ * @return  {boolean}                      Whether it matched
+ */
+function matchField (term: SearchFieldTerm, descriptor: AnyDescriptor): boolean {
+  const value = term.value.toLowerCase()
+
+  switch (term.field) {
+    case 'path':
+      return descriptor.path.toLowerCase().includes(value)
+    case 'modified':
+      return compareDate(descriptor.modtime, term.comparator, value)
+    case 'ext':
+      return descriptor.type !== 'directory' && descriptor.ext.toLowerCase().replace(/^\./, '') === value.replace(/^\./, '')
+    case 'title': {
+      const titles = [descriptor.name]
+      if (descriptor.type === 'file') {
+        titles.push(descriptor.yamlTitle ?? '', descriptor.firstHeading ?? '')
+      }
+      return titles.some(title => title.toLowerCase().includes(value))
+    }
+  }
+
+  // The remaining fields only apply to Markdown files
+  if (descriptor.type !== 'file') {
+    return false
+  }
+
+  switch (term.field) {
+    case 'tag': {
+      const tag = value.replace(/^#/, '')
+      return descriptor.tags.some(fileTag => fileTag.includes(tag))
+    }
+    case 'words':
+      return compareNumbers(descriptor.wordCount, term.comparator, parseInt(value, 10))
+    case 'yaml': {
+      if (descriptor.frontmatter === null || term.key === undefined) {
+        return false
+      }
+
+      const key = Object.keys(descriptor.frontmatter).find(key => key.toLowerCase() === term.key?.toLowerCase())
+      if (key === undefined) {
+        return false
+      } else if (value === '') {
+        return true // Only the key is required
+      }
+
+      const fieldValue = descriptor.frontmatter[key]
+      const values: any[] = Array.isArray(fieldValue) ? fieldValue : [fieldValue]
+      return values.some(val => {
+        if ([ '<', '<=', '>', '>=' ].includes(term.comparator)) {
+          return compareNumbers(Number(val), term.comparator, Number(value))
+        }
+        return String(val).toLowerCase().includes(value)
+      })
+    }
+    case 'has':
+      switch (value.replace(/s$/, '')) {
+        case 'citation':
+          return descriptor.citekeys.length > 0
+        case 'tag':
+          return descriptor.tags.length > 0
+        case 'link':
+          return descriptor.links.length > 0
+        case 'id':
+          return descriptor.id !== ''
+        case 'heading':
+          return descriptor.firstHeading !== null
+        case 'yaml':
+        case 'frontmatter':
+          return descriptor.frontmatter !== null
+        default:
+          return false
+      }
+  }
+
+  return false
+}
+
+/**
+ * Evaluates a search term tree against a descriptor.
+ *
+ * @param   {SearchTerm}         term        The (root) term
+ * @param   {AnyDescriptor}      descriptor  The descriptor to match
+ * @param   {SearchTextMatcher}  matchText   Decides whether a text or regular
+ *                                           expression term matches
+ *
+ * @return  {boolean}                        Whether the descriptor matches
+ */
+export default function matchSearchTerm (term: SearchTerm, descriptor: AnyDescriptor, matchText: SearchTextMatcher): boolean {
+  switch (term.type) {
+    case 'and':
+      return term.terms.every(child => matchSearchTerm(child, descriptor, matchText))
+    case 'or':
+      return term.terms.some(child => matchSearchTerm(child, descriptor, matchText))
+    case 'not':
+      return !matchSearchTerm(term.term, descriptor, matchText)
+    case 'field':
+      return matchField(term, descriptor)
+    default:
+      return matchText(term)
+  }
+}
@@ -37,23 +37,52 @@ export default function replaceLinks (markdown: string, oldContent: string, newC
     return markdown
   }
 
+  return mapLinks(markdown, (linkContent: string) => {
+    if (linkContent === oldContent) {
+      return newContent
+    } else if (linkContent === oldWithoutExtension) {
+      return newWithoutExtension
+    } else {
+      return linkContent
+    }
+  })
+}
+
+/**
+ * Walks over every internal (Wiki/Zettelkasten) link in the document and
+ * replaces its contents with whatever the replacer returns. By default, the
+ * replacement will again be wrapped in link brackets. If the replacer returns
+ * an object with a raw property, its contents will replace the full link
+ * instead. The replacer also receives the label of "fancy" links, i.e.
+ * `[label]([[link]])`. Links in a YAML frontmatter are left untouched.
+ *
+ * @param   {string}    markdown  The document in question
+ * @param   {Function}  replacer  Receives the link contents and returns the replacement
+ *
+ * @return  {string}              The new document
+ */
+export function mapLinks (
+  markdown: string,
+  replacer: (linkContent: string, label?: string) => string|{ raw: string }
+): string {
   // Finding (Wiki/Zettelkasten) links is easy ...
-  const linkRE = /\[\[(.+?)\]\]/g
+  const linkRE = /\[([^\]\n]*)\]\(\[\[(.+?)\]\]\)|\[\[(.+?)\]\]/g
   // ... but we need to ensure we don't arbitrarily parse anything in a
   // potential frontmatter
   const { frontmatter, content } = extractYamlFrontmatter(markdown)
-  if (frontmatter !== null) {
-    linkRE.lastIndex = markdown.indexOf(content)
+  let prefix = ''
+  if (frontmatter !== null && markdown.endsWith(content)) {
+    prefix = markdown.slice(0, markdown.length - content.length)
   }
 
   // After that precaution, it's a simple matter of going through the document
-  return markdown.replace(linkRE, (_, content: string) => {
-    if (content === oldContent) {
-      return `[[${newContent}]]`
-    } else if (content === oldWithoutExtension) {
-      return `[[${newWithoutExtension}]]`
-    } else {
-      return `[[${content}]]`
+  return prefix + markdown.slice(prefix.length).replace(linkRE, (_, label?: string, fancyContent?: string, linkContent?: string) => {
+    if (label !== undefined && fancyContent !== undefined) {
+      const replacement = replacer(fancyContent, label)
+      return (typeof replacement === 'string') ? `[${label}]([[${replacement}]])` : replacement.raw
     }
+
+    const replacement = replacer(linkContent as string)
+    return (typeof replacement === 'string') ? `[[${replacement}]]` : replacement.raw
   })
 }
@@ -18,11 +18,12 @@ import moment from 'moment'
  * A utility function that can replace a bunch of variables in strings, used
  * for the pattern generators (ID and filename)
  * @param       {string} string The input string
+ * @param       {Date}   date   Optional, the date to use instead of the current one
  * @return      {string}        The output string, with all %-variables replaced
  */
-export default function replaceStringVariables (string: string): string {
+export default function replaceStringVariables (string: string, date?: Date): string {
   // Get the current date
-  const d = moment()
+  const d = moment(date)
 
   // Now generate the id by replacing all placeholders in the pattern
   return string
@@ -15,9 +15,12 @@
 import { getZknTagRE } from '@common/regular-expressions'
 import { parseDocument, YAMLSeq } from 'yaml'
 import extractYamlFrontmatter from './extract-yaml-frontmatter'
+import { isTagOrDescendant } from './tag-hierarchy'
 
 /**
  * Takes a Markdown document and replaces all occurrences of oldTag with newTag.
+ * Nested tags below oldTag are renamed as well, i.e. renaming project/alpha to
+ * archive/alpha turns project/alpha/meeting into archive/alpha/meeting.
  * Returns the new document after replacing.
  *
  * @param   {string}        markdown  The document in question
@@ -45,11 +48,13 @@ export default function replaceTags (markdown: string, oldTag: string, newTag: s
     const prop = ast.get('keywords', true) ?? ast.get('tags', true)
 
     if (prop !== undefined && prop instanceof YAMLSeq) {
-      for (const item of prop.items) {
-        if (item.value === oldTag) {
+      // Go backwards so that the ranges of the remaining items stay valid
+      for (const item of [...prop.items].reverse()) {
+        const value: unknown = item.value
+        if (typeof value === 'string' && isTagOrDescendant(value, oldTag)) {
           const [ start, valueEnd ] = item.range
           // Slice the correct position
-          markdown = markdown.slice(0, start) + newTag + markdown.slice(valueEnd)
+          markdown = markdown.slice(0, start) + newTag + value.slice(oldTag.length) + markdown.slice(valueEnd)
         }
       }
 
@@ -66,7 +71,7 @@ export default function replaceTags (markdown: string, oldTag: string, newTag: s
   const newTagHasSpaces = /\s/.test(newTag)
   let match
   while ((match = tagRE.exec(markdown)) !== null) {
-    if (match[1] === oldTag) {
+    if (isTagOrDescendant(match[1], oldTag)) {
       // Ensure that the tag is not an in-document link ([Title](#tag))
       const beforeMatch = markdown.slice(match.index - 2, match.index)
       if (beforeMatch === '](') {
@@ -79,10 +84,90 @@ export default function replaceTags (markdown: string, oldTag: string, newTag: s
       // is a space, "eat" that.
       const after = markdown.slice(match.index + match[0].length)
       // If the new tag contains spaces, we have to remove the tag here
-      markdown = before + (newTagHasSpaces ? '' : `#${newTag}`) + after
-      tagRE.lastIndex = match.index + newTag.length + 1
+      const replacement = newTagHasSpaces ? '' : `#${newTag}${match[1].slice(oldTag.length)}`
+      markdown = before + replacement + after
+      tagRE.lastIndex = match.index + replacement.length
     }
   }
 
   return markdown
 }
+
+/**
+ * Takes a Markdown document and removes all occurrences of a tag, including
+ * all tags nested below it. Returns the new document after removing.
+ *
+ * @param   {string}  markdown  The document in question
+ * @param   {string}  tag       The tag to be removed
+ *
+ * @return  {string}            The new document
+ */
+export function removeTag (markdown: string, tag: string): string {
+  if (!markdown.includes(tag)) {
+    return markdown
+  }
+
+  const { frontmatter, content } = extractYamlFrontmatter(markdown)
+
+  if (frontmatter !== null) {
+    const stringFrontmatter = markdown.slice(0, markdown.indexOf(content))
+    const ast = parseDocument(stringFrontmatter)
+    const prop = ast.get('keywords', true) ?? ast.get('tags', true)
+
+    if (prop !== undefined && prop instanceof YAMLSeq) {
+      // Go backwards so that the ranges of the remaining items stay valid
+      for (const item of [...prop.items].reverse()) {
+        const value: unknown = item.value
+        if (typeof value !== 'string' || !isTagOrDescendant(value, tag)) {
+          continue
+        }
+
+        let [ start, end ] = item.range as [number, number]
+        const lineStart = markdown.lastIndexOf('\n', start - 1) + 1
+        let lineEnd = markdown.indexOf('\n', end)
+        lineEnd = lineEnd < 0 ? markdown.length : lineEnd + 1
+
+        const followingComma = /^\s*,\s*/.exec(markdown.slice(end))
+        const precedingComma = /\s*,\s*$/.exec(markdown.slice(0, start))
+        if (/^\s*-\s*$/.test(markdown.slice(lineStart, start)) && markdown.slice(end, lineEnd).trim() === '') {
+          // Block sequence: Remove the entire line
+          start = lineStart
+          end = lineEnd
+        } else if (followingComma !== null) {
+          // Flow sequence: Remove the item including the separator
+          end += followingComma[0].length
+        } else if (precedingComma !== null) {
+          start -= precedingComma[0].length
+        }
+
+        markdown = markdown.slice(0, start) + markdown.slice(end)
+      }
+
+      if (/\s/.test(tag)) {
+        return markdown
+      }
+    }
+  }
+
+  const tagRE = getZknTagRE(true)
+  let match
+  while ((match = tagRE.exec(markdown)) !== null) {
+    if (!isTagOrDescendant(match[1], tag) || markdown.slice(match.index - 2, match.index) === '](') {
+      continue
+    }
+
+    // Remove the tag, and one of the surrounding spaces
+    let from = match.index
+    let to = match.index + match[0].length
+    if (markdown[to] === ' ') {
+      to++
+    } else if (markdown[from - 1] === ' ') {
+      from--
+    }
+
+    markdown = markdown.slice(0, from) + markdown.slice(to)
+    tagRE.lastIndex = from
+  }
+
+  return markdown
+}
@@ -0,0 +1,115 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        rewriteFileLinks function
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Computes how the Markdown links and images of a document
+ *                  have to change after the document itself or the files it
+ *                  points to have been moved.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import extractLocalLinks, { LocalLinkTarget } from './local-links'
+
+/**
+ * Describes a single link target that needs to be replaced
+ */
+export interface FileLinkRewrite {
+  /**
+   * The character offsets of the link target within the document
+   */
+  from: number
+  to: number
+  oldTarget: string
+  newTarget: string
+}
+
+/**
+ * Computes the new link target for a local link, or returns undefined if the
+ * link does not need to change.
+ *
+ * @param   {LocalLinkTarget}             link     The parsed link target
+ * @param   {string}                      oldDir   The directory of the
+ *                                                 document before the move
+ * @param   {string}                      newDir   ... and after the move
+ * @param   {(absPath: string) => string} mapPath  Maps old absolute paths
+ *                                                 to their new location
+ *
+ * @return  {string|undefined}                     The new link target
+ */
+function rewriteTarget (link: LocalLinkTarget, oldDir: string, newDir: string, mapPath: (absPath: string) => string): string|undefined {
+  const { path: decoded, isWrapped, isEncoded, protocol, suffix } = link
+
+  const isAbsolute = path.isAbsolute(decoded)
+  const oldAbsPath = path.resolve(oldDir, decoded)
+  const newAbsPath = mapPath(oldAbsPath)
+
+  let newTarget: string
+  if (isAbsolute) {
+    if (newAbsPath === oldAbsPath) {
+      return undefined
+    }
+    newTarget = newAbsPath
+  } else {
+    // The link remains valid if it still resolves to the (moved) target
+    if (path.resolve(newDir, decoded) === newAbsPath) {
+      return undefined
+    }
+
+    newTarget = path.relative(newDir, newAbsPath).split(path.sep).join('/')
+    if (decoded.startsWith('./') && !newTarget.startsWith('.')) {
+      newTarget = './' + newTarget
+    }
+  }
+
+  if (isEncoded) {
+    newTarget = encodeURI(newTarget)
+  } else if (!isWrapped) {
+    // Unwrapped link targets cannot contain spaces
+    newTarget = newTarget.replace(/ /g, '%20')
+  }
+
+  newTarget = protocol + newTarget + suffix
+  return isWrapped ? `<${newTarget}>` : newTarget
+}
+
+/**
+ * Determines which Markdown links and images of a document need to be
+ * rewritten after files have been moved. Both the document itself and the
+ * files it links to may have moved. Code blocks, inline code and the YAML
+ * frontmatter are left untouched.
+ *
+ * @param   {string}                      markdown  The document
+ * @param   {string}                      oldDir    The directory of the
+ *                                                  document before the move
+ * @param   {string}                      newDir    ... and after the move
+ * @param   {(absPath: string) => string} mapPath   Maps old absolute paths to
+ *                                                  their new location. Paths
+ *                                                  that have not been moved
+ *                                                  must be returned as is.
+ *
+ * @return  {FileLinkRewrite[]}                     All necessary rewrites
+ */
+export default function rewriteFileLinks (
+  markdown: string,
+  oldDir: string,
+  newDir: string,
+  mapPath: (absPath: string) => string
+): FileLinkRewrite[] {
+  const rewrites: FileLinkRewrite[] = []
+
+  for (const link of extractLocalLinks(markdown)) {
+    const newTarget = rewriteTarget(link, oldDir, newDir, mapPath)
+    if (newTarget !== undefined) {
+      rewrites.push({ from: link.targetFrom, to: link.targetTo, oldTarget: link.target, newTarget })
+    }
+  }
+
+  return rewrites
+}
@@ -0,0 +1,160 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        getSnippetVariables, replaceSnippetVariables, extractTabstops
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Expands the variables and tabstops of snippets and note
+ *                  templates. These use a Textmate-compatible syntax.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import { DateTime } from 'luxon'
+import { v4 as uuid } from 'uuid'
+import generateId from './generate-id'
+
+/**
+ * The values of all supported variables. Variables without a value are not
+ * replaced.
+ */
+export type SnippetVariables = Record<string, string|undefined>
+
+/**
+ * A tabstop range within an expanded template
+ */
+export interface TabstopRange {
+  from: number
+  to: number
+}
+
+/**
+ * Two-digit padding for date components
+ *
+ * @param   {number}  value  The number
+ *
+ * @return  {string}         The padded number
+ */
+function pad (value: number): string {
+  return (value < 10) ? '0' + value.toString() : value.toString()
+}
+
+/**
+ * Returns the values of all variables that snippets and templates may use.
+ *
+ * @param   {string}  filePath      The file into which the text is inserted
+ * @param   {string}  id            The ID of that file
+ * @param   {string}  clipboard     The current clipboard contents
+ * @param   {string}  idGenPattern  The pattern for new Zettelkasten IDs
+ *
+ * @return  {SnippetVariables}      The variables
+ */
+export function getSnippetVariables (filePath: string, id: string, clipboard: string, idGenPattern: string): SnippetVariables {
+  const now = DateTime.now()
+
+  return {
+    CURRENT_YEAR: now.year.toString(),
+    CURRENT_YEAR_SHORT: now.year.toString().substring(2),
+    CURRENT_MONTH: pad(now.month),
+    CURRENT_MONTH_NAME: now.monthLong,
+    CURRENT_MONTH_NAME_SHORT: now.monthShort,
+    CURRENT_DATE: pad(now.day),
+    CURRENT_HOUR: pad(now.hour),
+    CURRENT_MINUTE: pad(now.minute),
+    CURRENT_SECOND: pad(now.second),
+    CURRENT_SECONDS_UNIX: now.toSeconds().toString(),
+    UUID: uuid(),
+    CLIPBOARD: (clipboard !== '') ? clipboard : undefined,
+    ZKN_ID: generateId(idGenPattern),
+    CURRENT_ID: id,
+    FILENAME: path.basename(filePath),
+    DIRECTORY: path.dirname(filePath),
+    EXTENSION: path.extname(filePath)
+  }
+}
+
+/**
+ * Replaces all variables ($NAME or ${NAME:default}) in the text. Unknown
+ * variables without a default, as well as escaped ones, are left untouched.
+ *
+ * @param   {string}            text       The text to modify
+ * @param   {SnippetVariables}  variables  The variable values
+ *
+ * @return  {string}                       The text with all variables replaced
+ */
+export function replaceSnippetVariables (text: string, variables: SnippetVariables): string {
+  // NOTE we're adding a negative lookbehind -- (?<!\\) -- to make sure we're
+  // not including escaped ones.
+  return text.replace(/(?<!\\)\$([A-Z_]+)|(?<!\\)\$\{([A-Z_]+):(.+?)\}/g, (match, p1, p2, p3) => {
+    if (p1 !== undefined) {
+      // We have a single variable, so only replace if it's a supported one
+      return variables[p1] ?? match
+    } else {
+      // We have a variable with placeholder, so replace it potentially with the default
+      return variables[p2] ?? p3
+    }
+  })
+}
+
+/**
+ * Removes all tabstops ($1 or ${1:default}) from the text and returns their
+ * ranges in the order in which they should be visited. Tabstops with the same
+ * number are combined, and the final tabstop ($0) always comes last. If there
+ * is no final tabstop, one is added at the end of the text.
+ *
+ * @param   {string}  text  The text containing tabstops
+ *
+ * @return  {{ text: string, tabstops: TabstopRange[][] }}  The final text and
+ *                                                           the tabstops (if any)
+ */
+export function extractTabstops (text: string): { text: string, tabstops: TabstopRange[][] } {
+  const rawRanges: Array<{ position: number, ranges: TabstopRange[] }> = []
+
+  // Matches $[0-9] as well as ${[0-9]:default string}
+  const tabStopRE = /(?<!\\)\$(\d+)|(?<!\\)\$\{(\d+):(.+?)\}/ // NOTE: No g flag
+
+  let finalText = text
+  let match: null|RegExpExecArray = null
+  while ((match = tabStopRE.exec(finalText)) !== null) {
+    const position = parseInt(match[1] ?? match[2], 10)
+    const replacementString: string = match[3] ?? ''
+    const from = match.index
+
+    finalText = finalText.slice(0, from) + replacementString + finalText.slice(from + match[0].length)
+
+    // Combine multiple ranges with the same position
+    const range = { from, to: from + replacementString.length }
+    const existing = rawRanges.find(entry => entry.position === position)
+    if (existing !== undefined) {
+      existing.ranges.push(range)
+    } else {
+      rawRanges.push({ position, ranges: [range] })
+    }
+  }
+
+  if (rawRanges.length === 0) {
+    return { text: finalText, tabstops: [] } // Already done!
+  }
+
+  // Sort the ranges ascending, except the zero, which needs at the bottom
+  rawRanges.sort((a, b) => {
+    if (a.position === 0) {
+      return 1 // Bring to back
+    } else if (b.position === 0) {
+      return -1
+    } else {
+      return a.position - b.position
+    }
+  })
+
+  // Check that there's a zero in there. If not, add one to the back.
+  if (rawRanges[rawRanges.length - 1].position !== 0) {
+    rawRanges.push({ position: 0, ranges: [{ from: finalText.length, to: finalText.length }] })
+  }
+
+  return { text: finalText, tabstops: rawRanges.map(entry => entry.ranges) }
+}
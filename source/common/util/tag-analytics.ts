@@ -0,0 +1,171 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Tag analytics utilities
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Functions that help keeping the tags of a workspace tidy:
+ *                  finding tags that are likely duplicates of each other, and
+ *                  finding tags that are frequently used together.
+ *
+ * END HEADER
+ */
+
+/**
+ * Describes how often two tags are used together
+ */
+export interface TagCooccurrence {
+  tags: [ string, string ]
+  /**
+   * The number of files that contain both tags
+   */
+  files: number
+}
+
+/**
+ * Computes the Levenshtein distance between two strings.
+ *
+ * @param   {string}  a  The first string
+ * @param   {string}  b  The second string
+ *
+ * @return  {number}     The number of edits to turn a into b
+ */
+export function editDistance (a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Returns a crude singular form of an (English) tag, so that plural variants
+ * such as "meeting" and "meetings" can be detected.
+ *
+ * @param   {string}  tag  The tag
+ *
+ * @return  {string}       The singular form
+ */
+function singularize (tag: string): string {
+  if (/[^aeiou]ies$/.test(tag)) {
+    return tag.slice(0, -3) + 'y'
+  } else if (/(?:ss|sh|ch|x|z)es$/.test(tag)) {
+    return tag.slice(0, -2)
+  } else if (/[^s]s$/.test(tag)) {
+    return tag.slice(0, -1)
+  }
+  return tag
+}
+
+/**
+ * Determines whether two tags are likely variants of each other: They only
+ * differ in case, one is the plural of the other, or they differ by a typo.
+ *
+ * @param   {string}   a  The first tag
+ * @param   {string}   b  The second tag
+ *
+ * @return  {boolean}     True if the tags are similar
+ */
+function areSimilar (a: string, b: string): boolean {
+  a = a.toLowerCase()
+  b = b.toLowerCase()
+  if (a === b || singularize(a) === singularize(b)) {
+    return true
+  }
+
+  // Tags such as years (2021, 2022) differ by a single character by design,
+  // and very short tags are too often similar by chance.
+  const minLength = Math.min(a.length, b.length)
+  if (minLength < 4 || /\d/.test(a) || /\d/.test(b)) {
+    return false
+  }
+
+  const maxDistance = minLength >= 8 ? 2 : 1
+  return Math.abs(a.length - b.length) <= maxDistance && editDistance(a, b) <= maxDistance
+}
+
+/**
+ * Finds groups of tags that are likely duplicates of each other.
+ *
+ * @param   {string[]}    tags  All tags
+ *
+ * @return  {string[][]}        Groups of at least two similar tags
+ */
+export function findSimilarTags (tags: string[]): string[][] {
+  // Union-find, so that chains of similar tags end up in the same group
+  const parent = tags.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  for (let i = 0; i < tags.length; i++) {
+    for (let j = i + 1; j < tags.length; j++) {
+      if (find(i) !== find(j) && areSimilar(tags[i], tags[j])) {
+        parent[find(j)] = find(i)
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>()
+  for (let i = 0; i < tags.length; i++) {
+    const group = groups.get(find(i)) ?? []
+    group.push(tags[i])
+    groups.set(find(i), group)
+  }
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => group.sort((a, b) => a.localeCompare(b)))
+}
+
+/**
+ * Computes which tags are used together in the same files.
+ *
+ * @param   {Array<{ name: string, files: string[] }>}  tags   All tags
+ * @param   {number}                                    limit  The maximum
+ *                                                             number of pairs
+ *
+ * @return  {TagCooccurrence[]}  The pairs of tags, most frequent first
+ */
+export function computeCooccurrence (tags: Array<{ name: string, files: string[] }>, limit: number): TagCooccurrence[] {
+  const tagsPerFile = new Map<string, string[]>()
+  for (const tag of tags) {
+    for (const file of tag.files) {
+      const fileTags = tagsPerFile.get(file) ?? []
+      fileTags.push(tag.name)
+      tagsPerFile.set(file, fileTags)
+    }
+  }
+
+  const counts = new Map<string, TagCooccurrence>()
+  for (const fileTags of tagsPerFile.values()) {
+    fileTags.sort((a, b) => a.localeCompare(b))
+    for (let i = 0; i < fileTags.length; i++) {
+      for (let j = i + 1; j < fileTags.length; j++) {
+        const key = fileTags[i] + '\n' + fileTags[j]
+        const pair = counts.get(key)
+        if (pair !== undefined) {
+          pair.files++
+        } else {
+          counts.set(key, { tags: [ fileTags[i], fileTags[j] ], files: 1 })
+        }
+      }
+    }
+  }
+
+  return [...counts.values()]
+    .sort((a, b) => b.files - a.files)
+    .slice(0, limit)
+}
@@ -0,0 +1,145 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Tag hierarchy utilities
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Tags can be nested using slashes, e.g. project/alpha/meeting.
+ *                  These functions help with working with such a hierarchy.
+ *
+ * END HEADER
+ */
+
+/**
+ * A single level within the tag hierarchy
+ */
+export interface TagTreeNode {
+  /**
+   * The last segment of the tag, e.g. "meeting"
+   */
+  name: string
+  /**
+   * The full tag, e.g. "project/alpha/meeting"
+   */
+  fullName: string
+  /**
+   * Whether the full tag is used by itself, or only exists as a parent
+   */
+  isTag: boolean
+  /**
+   * All files that contain this tag or any of its children
+   */
+  files: string[]
+  /**
+   * The color of this tag, if it or one of its parents has one assigned
+   */
+  color?: string
+  desc?: string
+  children: TagTreeNode[]
+}
+
+/**
+ * Returns whether tag is the same as parent, or nested somewhere below it.
+ *
+ * @param   {string}   tag     The tag to check
+ * @param   {string}   parent  The potential parent
+ *
+ * @return  {boolean}          True if tag is parent or one of its children
+ */
+export function isTagOrDescendant (tag: string, parent: string): boolean {
+  return tag === parent || tag.startsWith(parent + '/')
+}
+
+/**
+ * Returns the tag itself and all its parents, starting with the tag itself,
+ * e.g. [ 'a/b/c', 'a/b', 'a' ].
+ *
+ * @param   {string}    tag  The tag
+ *
+ * @return  {string[]}       The tag and its ancestors
+ */
+export function getTagAncestors (tag: string): string[] {
+  const segments = tag.split('/')
+  const ancestors: string[] = []
+  for (let i = segments.length; i > 0; i--) {
+    ancestors.push(segments.slice(0, i).join('/'))
+  }
+  return ancestors
+}
+
+/**
+ * Finds the colored tag that applies to a tag. If the tag itself has no
+ * color, it inherits the color of its closest parent.
+ *
+ * @param   {T[]}             coloredTags  The colored tags
+ * @param   {string}          tagName      The tag
+ *
+ * @return  {T|undefined}                  The applicable colored tag, if any
+ */
+export function findTagColor<T extends { name: string }> (coloredTags: T[], tagName: string): T|undefined {
+  for (const ancestor of getTagAncestors(tagName)) {
+    const coloredTag = coloredTags.find(tag => tag.name === ancestor)
+    if (coloredTag !== undefined) {
+      return coloredTag
+    }
+  }
+  return undefined
+}
+
+/**
+ * Builds a tree from a flat list of (possibly nested) tags. Each level contains
+ * the files of all its children, counting every file only once.
+ *
+ * @param   {Array<{ name: string, files: string[] }>}  tags  The tags
+ *
+ * @return  {TagTreeNode[]}                                   The top-level tags
+ */
+export function buildTagTree (tags: Array<{ name: string, files: string[] }>): TagTreeNode[] {
+  const root: TagTreeNode[] = []
+  // Collect the files in sets first so that we don't count them twice
+  const fileSets = new Map<TagTreeNode, Set<string>>()
+
+  for (const tag of tags) {
+    const segments = tag.name.split('/').filter(segment => segment !== '')
+    let level = root
+    for (let i = 0; i < segments.length; i++) {
+      let node = level.find(child => child.name === segments[i])
+      if (node === undefined) {
+        node = {
+          name: segments[i],
+          fullName: segments.slice(0, i + 1).join('/'),
+          isTag: false,
+          files: [],
+          children: []
+        }
+        level.push(node)
+        fileSets.set(node, new Set())
+      }
+
+      const files = fileSets.get(node) as Set<string>
+      for (const file of tag.files) {
+        files.add(file)
+      }
+
+      if (i === segments.length - 1) {
+        node.isTag = true
+      }
+
+      level = node.children
+    }
+  }
+
+  const finalize = (nodes: TagTreeNode[]): void => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name))
+    for (const node of nodes) {
+      node.files = [...fileSets.get(node) as Set<string>]
+      finalize(node.children)
+    }
+  }
+
+  finalize(root)
+  return root
+}
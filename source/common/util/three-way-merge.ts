@@ -0,0 +1,220 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        threeWayMerge, hasConflicts, applyMergeChoices
+ * CVM-Role:        Utility function
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     Merges two versions of a text that have both been derived
+ *                  from a common base version.
+ *
+ * END HEADER
+ */
+
+import { computeLineDiff } from './line-diff'
+
+/**
+ * A part of a merged text. Stable chunks could be merged automatically, while
+ * conflicts contain changes of both versions to the same lines.
+ */
+export type MergeChunk = {
+  type: 'stable'
+  lines: string[]
+}|{
+  type: 'conflict'
+  base: string[]
+  ours: string[]
+  theirs: string[]
+}
+
+/**
+ * How to resolve a conflict: Keep our lines, their lines, or both (ours first)
+ */
+export type MergeChoice = 'ours'|'theirs'|'both'
+
+/**
+ * A change relative to the base version: The base lines from start to end
+ * (exclusive) are replaced with the given lines.
+ */
+interface BaseChange {
+  start: number
+  end: number
+  lines: string[]
+  side: 'ours'|'theirs'
+}
+
+/**
+ * Extracts the changes that turn the base version into another version.
+ *
+ * @param   {string}        base     The base version
+ * @param   {string}        text     The changed version
+ * @param   {'ours'|'theirs'} side   Which version this is
+ *
+ * @return  {BaseChange[]}           The changes, in order
+ */
+function getChanges (base: string, text: string, side: 'ours'|'theirs'): BaseChange[] {
+  const changes: BaseChange[] = []
+  let baseIndex = 0
+  let current: BaseChange|undefined
+
+  for (const line of computeLineDiff(base, text)) {
+    if (line.type === 'context') {
+      current = undefined
+      baseIndex++
+      continue
+    }
+
+    if (current === undefined) {
+      current = { start: baseIndex, end: baseIndex, lines: [], side }
+      changes.push(current)
+    }
+
+    if (line.type === 'removed') {
+      baseIndex++
+      current.end = baseIndex
+    } else {
+      current.lines.push(line.text)
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Applies a group of changes of one side to the given range of the base.
+ *
+ * @param   {string[]}      base     The base lines
+ * @param   {number}        start    The start of the range
+ * @param   {number}        end      The end of the range (exclusive)
+ * @param   {BaseChange[]}  changes  The changes within that range, in order
+ *
+ * @return  {string[]}               The resulting lines
+ */
+function applyChanges (base: string[], start: number, end: number, changes: BaseChange[]): string[] {
+  const lines: string[] = []
+  let index = start
+  for (const change of changes) {
+    lines.push(...base.slice(index, change.start), ...change.lines)
+    index = change.end
+  }
+  lines.push(...base.slice(index, end))
+  return lines
+}
+
+/**
+ * Merges two versions of a text line by line. Changes that only one side has
+ * made, or that both sides have made identically, are merged automatically.
+ * Changes of both sides to the same or adjacent lines are conflicts.
+ *
+ * @param   {string}        base    The common base version
+ * @param   {string}        ours    Our version
+ * @param   {string}        theirs  Their version
+ *
+ * @return  {MergeChunk[]}          The merged text, in chunks
+ */
+export function threeWayMerge (base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = base.split(/\r?\n/)
+  const changes = [ ...getChanges(base, ours, 'ours'), ...getChanges(base, theirs, 'theirs') ]
+    .sort((a, b) => a.start !== b.start ? a.start - b.start : a.end - b.end)
+
+  const chunks: MergeChunk[] = []
+  const pushStable = (lines: string[]): void => {
+    if (lines.length === 0) {
+      return
+    }
+
+    const last = chunks[chunks.length - 1]
+    if (last?.type === 'stable') {
+      last.lines.push(...lines)
+    } else {
+      chunks.push({ type: 'stable', lines })
+    }
+  }
+
+  let baseIndex = 0
+  let i = 0
+  while (i < changes.length) {
+    // Collect all changes that overlap or touch each other
+    const group = [changes[i]]
+    const start = changes[i].start
+    let end = changes[i].end
+    i++
+    while (i < changes.length && changes[i].start <= end) {
+      group.push(changes[i])
+      end = Math.max(end, changes[i].end)
+      i++
+    }
+
+    pushStable(baseLines.slice(baseIndex, start))
+    baseIndex = end
+
+    const ourChanges = group.filter(change => change.side === 'ours')
+    const theirChanges = group.filter(change => change.side === 'theirs')
+    const ourLines = applyChanges(baseLines, start, end, ourChanges)
+    const theirLines = applyChanges(baseLines, start, end, theirChanges)
+
+    if (ourChanges.length === 0) {
+      pushStable(theirLines)
+    } else if (theirChanges.length === 0 || ourLines.join('\n') === theirLines.join('\n')) {
+      pushStable(ourLines)
+    } else {
+      chunks.push({
+        type: 'conflict',
+        base: baseLines.slice(start, end),
+        ours: ourLines,
+        theirs: theirLines
+      })
+    }
+  }
+
+  pushStable(baseLines.slice(baseIndex))
+  return chunks
+}
+
+/**
+ * Determines whether a merge contains any conflicts.
+ *
+ * @param   {MergeChunk[]}  chunks  The merge
+ *
+ * @return  {boolean}               True if there are conflicts
+ */
+export function hasConflicts (chunks: MergeChunk[]): boolean {
+  return chunks.some(chunk => chunk.type === 'conflict')
+}
+
+/**
+ * Produces the merged text, resolving the conflicts as chosen.
+ *
+ * @param   {MergeChunk[]}   chunks   The merge
+ * @param   {MergeChoice[]}  choices  One choice per conflict, in order
+ *
+ * @return  {string}                  The merged text
+ */
+export function applyMergeChoices (chunks: MergeChunk[], choices: MergeChoice[]): string {
+  const lines: string[] = []
+  let conflictIndex = 0
+
+  for (const chunk of chunks) {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines)
+      continue
+    }
+
+    const choice = choices[conflictIndex++]
+    if (choice === undefined) {
+      throw new Error('Cannot merge the texts: Not all conflicts have been resolved.')
+    }
+
+    if (choice !== 'theirs') {
+      lines.push(...chunk.ours)
+    }
+
+    if (choice !== 'ours') {
+      lines.push(...chunk.theirs)
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -62,6 +62,10 @@ declare const UPDATE_PRELOAD_WEBPACK_ENTRY: string
 declare const UPDATE_WEBPACK_ENTRY: string
 declare const PROJECT_PROPERTIES_PRELOAD_WEBPACK_ENTRY: string
 declare const PROJECT_PROPERTIES_WEBPACK_ENTRY: string
+declare const VERSION_HISTORY_PRELOAD_WEBPACK_ENTRY: string
+declare const VERSION_HISTORY_WEBPACK_ENTRY: string
+declare const MERGE_CONFLICT_PRELOAD_WEBPACK_ENTRY: string
+declare const MERGE_CONFLICT_WEBPACK_ENTRY: string
 
 /**
  * Declare and extend the global NodeJS object to enable the globals
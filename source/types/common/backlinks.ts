@@ -0,0 +1,45 @@
+/**
+ * The paragraph surrounding a link or a mention, for display purposes
+ */
+export interface ReferenceContext {
+  /**
+   * The paragraph, shortened around the reference if it is very long
+   */
+  text: string
+  /**
+   * Where the link or mention begins and ends within the text
+   */
+  from: number
+  to: number
+}
+
+/**
+ * A link from another note to the current note
+ */
+export interface Backlink {
+  /**
+   * The line (1-based) on which the link occurs
+   */
+  line: number
+  context: ReferenceContext
+}
+
+/**
+ * A plain-text mention of the current note's title within another note
+ */
+export interface UnlinkedMention {
+  /**
+   * The line (1-based) on which the mention occurs
+   */
+  line: number
+  /**
+   * The offsets of the mention within the file
+   */
+  from: number
+  to: number
+  /**
+   * The mention as written in the file
+   */
+  match: string
+  context: ReferenceContext
+}
@@ -9,6 +9,8 @@ export interface ProjectSettings {
     tex: string
     html: string
   }
+  liveExport: boolean
+  smartFolder: string // If set, the project exports this smart folder instead of its own files
 }
 
 /**
@@ -47,6 +49,7 @@ export interface DirDescriptor extends FSMetaInfo {
     sorting: SortMethod
     icon: string|null
     project: ProjectSettings|null
+    template: string|null
   }
   type: 'directory'
   isGitRepository: boolean
@@ -54,6 +57,17 @@ export interface DirDescriptor extends FSMetaInfo {
   dirNotFoundFlag?: boolean // If the flag is set & true this directory has not been found
 }
 
+/**
+ * A task (i.e., a list item with a checkbox) within a Markdown file
+ */
+export interface MDFileTask {
+  text: string // The task without checkbox and due date
+  done: boolean
+  line: number // 1-based
+  due: string|null // An optional due date (YYYY-MM-DD)
+  tags: string[]
+}
+
 /**
  * The FSAL Markdown file descriptor
  */
@@ -63,6 +77,8 @@ export interface MDFileDescriptor extends FSMetaInfo {
   type: 'file'
   tags: string[]
   links: string[] // Any outlinks declared in the file
+  citekeys: string[] // All citekeys cited in the file
+  tasks: MDFileTask[] // All tasks in the file
   bom: string // An optional BOM
   wordCount: number
   charCount: number
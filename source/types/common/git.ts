@@ -0,0 +1,42 @@
+/**
+ * The state of a changed file within a Git repository
+ */
+export type GitFileState = 'modified'|'added'|'deleted'|'renamed'|'untracked'|'conflicted'
+
+export interface GitFileStatus {
+  /**
+   * The absolute path to the file
+   */
+  path: string
+  state: GitFileState
+  /**
+   * Whether the file has changes in the index (i.e. it is staged)
+   */
+  staged: boolean
+  /**
+   * Whether the file has changes in the working tree that are not staged
+   */
+  unstaged: boolean
+}
+
+/**
+ * The status of a Git repository that is loaded as a workspace
+ */
+export interface GitRepositoryStatus {
+  /**
+   * The absolute path to the repository
+   */
+  root: string
+  branch: string
+  files: GitFileStatus[]
+}
+
+export interface GitCommit {
+  hash: string
+  author: string
+  /**
+   * The commit date as a millisecond timestamp
+   */
+  date: number
+  message: string
+}
@@ -3,13 +3,18 @@ export interface GraphVertex {
   label?: string
   component: string // Can be used to differentiate groups of vertices (by color, etc)
   isolate: boolean
+  inDegree: number // Number of other vertices linking to this one
+  outDegree: number // Number of other vertices this one links to
+  centrality: number // PageRank of the vertex; all centralities sum to 1
+  hub: boolean // Whether the vertex is far more connected than the average
+  orphan: boolean // Whether no other vertex links to this one
 }
 
 // NOTE: This is a single Arc. To create a two-way link, apply two mutual arcs
 export interface GraphArc {
   source: string
   target: string
-  weight: number // For weighted graphs
+  weight: number // How often the source links to the target
 }
 
 export interface LinkGraph {
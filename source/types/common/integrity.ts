@@ -0,0 +1,33 @@
+/**
+ * The kinds of problems the integrity report can find:
+ *
+ * * dangling-link: A Zettelkasten link to a note that does not exist
+ * * ambiguous-link: A Zettelkasten link that matches several notes (duplicate
+ *   IDs or duplicate filenames)
+ * * broken-file-link: A link or image pointing to a local file that does not exist
+ * * missing-citation: A citekey that is not contained in any loaded library
+ */
+export type IntegrityIssueType = 'dangling-link'|'ambiguous-link'|'broken-file-link'|'missing-citation'
+
+/**
+ * A single problem within a single file.
+ */
+export interface IntegrityIssue {
+  type: IntegrityIssueType
+  /**
+   * The file containing the problem
+   */
+  file: string
+  /**
+   * The line (1-based) on which the problem occurs
+   */
+  line: number
+  /**
+   * The link target, file path, or citekey as written in the file
+   */
+  target: string
+  /**
+   * For ambiguous links, all notes the link could refer to
+   */
+  candidates?: string[]
+}
@@ -1,11 +1,63 @@
 /**
- * A search term consists of a list of words and an operator. An AND-operator
- * means that all words are required, a NOT operator the opposite, and an OR
- * operator means that any of the words may match.
+ * A search query is parsed into a tree of search terms. Plain words and quoted
+ * phrases become text terms, `/.../` become regular expressions, and `field:`
+ * prefixes become field terms, which are matched against the file metadata
+ * instead of its contents.
  */
-export interface SearchTerm {
-  operator: 'OR'|'AND'|'NOT'
-  words: string[]
+export type SearchTerm = SearchTextTerm|SearchRegexTerm|SearchFieldTerm|SearchNotTerm|SearchGroupTerm
+
+/**
+ * A word or phrase that must occur in the file (case-insensitive)
+ */
+export interface SearchTextTerm {
+  type: 'text'
+  value: string
+}
+
+/**
+ * A regular expression that must match somewhere in the file
+ */
+export interface SearchRegexTerm {
+  type: 'regex'
+  pattern: string
+  flags: string
+}
+
+/**
+ * All fields that can be used to restrict a query, e.g. `tag:method`
+ */
+export type SearchField = 'tag'|'title'|'path'|'ext'|'yaml'|'modified'|'words'|'has'
+
+/**
+ * A condition on the metadata of a file. The comparator is `:` if the user
+ * did not specify one. Both `:` and `=` mean "contains" for text and "equals"
+ * for numbers and dates.
+ */
+export interface SearchFieldTerm {
+  type: 'field'
+  field: SearchField
+  /**
+   * Only used by the yaml field: the frontmatter key, e.g. `author`
+   */
+  key?: string
+  comparator: ':'|'='|'<'|'>'|'<='|'>='
+  value: string
+}
+
+/**
+ * Negates a term: the file must not match it
+ */
+export interface SearchNotTerm {
+  type: 'not'
+  term: SearchTerm
+}
+
+/**
+ * An AND-group requires all terms to match, an OR-group any of them
+ */
+export interface SearchGroupTerm {
+  type: 'and'|'or'
+  terms: SearchTerm[]
 }
 
 /**
@@ -57,3 +109,69 @@ export interface SearchResultWrapper {
   hideResultSet: boolean
   weight: number
 }
+
+/**
+ * Describes what a workspace-wide replace should look for and what it should
+ * replace matches with.
+ */
+export interface WorkspaceReplaceOptions {
+  /**
+   * The text or regular expression to find
+   */
+  search: string
+  /**
+   * The replacement. For regular expressions, it may contain references to
+   * capture groups ($1, $<name>, $&).
+   */
+  replace: string
+  isRegex: boolean
+  caseSensitive: boolean
+  wholeWord: boolean
+}
+
+/**
+ * A single match of a workspace replace, including its replacement
+ */
+export interface WorkspaceReplaceMatch {
+  /**
+   * The character offsets of the match within the file
+   */
+  from: number
+  to: number
+  /**
+   * The (zero-based) line on which the match begins, the full text of that
+   * line, and the offset of the match within the line.
+   */
+  line: number
+  lineText: string
+  ch: number
+  /**
+   * The matched text and what it will be replaced with
+   */
+  match: string
+  replacement: string
+}
+
+/**
+ * All matches of a workspace replace within a single file
+ */
+export interface WorkspaceReplaceFile {
+  path: string
+  matches: WorkspaceReplaceMatch[]
+}
+
+/**
+ * Reports back what a workspace replace (or its undo) has done
+ */
+export interface WorkspaceReplaceResult {
+  /**
+   * The number of replaced matches and the number of changed files
+   */
+  replacements: number
+  files: number
+  /**
+   * Files that could not be changed, e.g. because they have been modified
+   * since the preview was generated.
+   */
+  skipped: string[]
+}
@@ -0,0 +1,25 @@
+import { SortMethod } from './fsal'
+
+/**
+ * A smart folder is a saved search whose matching files are displayed like a
+ * directory in the file tree.
+ */
+export interface SmartFolder {
+  /**
+   * The name, which also identifies the smart folder
+   */
+  name: string
+  /**
+   * The search query (see compile-search-terms.ts)
+   */
+  query: string
+  sorting: SortMethod
+}
+
+/**
+ * A smart folder together with the (sorted) paths of all files that currently
+ * match its query.
+ */
+export interface SmartFolderContents extends SmartFolder {
+  files: string[]
+}
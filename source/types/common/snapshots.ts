@@ -0,0 +1,19 @@
+/**
+ * A snapshot of a file, taken whenever it is saved
+ */
+export interface Snapshot {
+  id: string
+  /**
+   * When the snapshot has been taken, as a millisecond timestamp
+   */
+  timestamp: number
+  /**
+   * The hash of the contents. Snapshots with identical contents share the
+   * same stored copy.
+   */
+  hash: string
+  /**
+   * The number of words in the snapshot
+   */
+  words: number
+}
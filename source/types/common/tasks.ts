@@ -0,0 +1,11 @@
+import { MDFileTask } from './fsal'
+
+/**
+ * A task together with the file in which it is defined
+ */
+export interface WorkspaceTask extends MDFileTask {
+  /**
+   * The absolute path to the file
+   */
+  file: string
+}
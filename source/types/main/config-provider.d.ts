@@ -111,6 +111,22 @@ export interface ConfigOptions {
     activatePolling: boolean
     stabilityThreshold: number
   }
+  git: {
+    autoCommit: boolean
+    autoCommitInterval: number
+  }
+  snapshots: {
+    enabled: boolean
+    retentionDays: number
+  }
+  journal: {
+    directory: string
+    filenamePattern: string
+    template: string
+  }
+  tasks: {
+    notifyOverdue: boolean
+  }
   system: {
     deleteOnFail: boolean
     leaveAppRunning: boolean
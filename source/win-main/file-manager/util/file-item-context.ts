@@ -34,6 +34,12 @@ export default function displayFileContext (event: MouseEvent, fileObject: MDFil
       type: 'normal',
       enabled: true
     },
+    {
+      label: trans('Version history'),
+      id: 'menu.version_history',
+      type: 'normal',
+      enabled: true
+    },
     {
       type: 'separator'
     },
@@ -112,6 +118,13 @@ export default function displayFileContext (event: MouseEvent, fileObject: MDFil
           payload: fileObject.path
         })
         break
+      case 'menu.version_history':
+        ipcRenderer.invoke('application', {
+          command: 'open-version-history',
+          payload: fileObject.path
+        })
+          .catch(err => console.error(err))
+        break
     }
   })
 }
@@ -22,6 +22,7 @@ import fileContextMenu from './file-item-context'
 import dirContextMenu from './dir-item-context'
 import PopoverFileProps from './PopoverFileProps.vue'
 import PopoverDirProps from './PopoverDirProps.vue'
+import { trans } from '@common/i18n-renderer'
 
 import { nextTick } from 'vue'
 
@@ -52,6 +53,40 @@ export default {
     },
     selectedDir: function () {
       return this.$store.state.selectedDirectory
+    },
+    gitStatus: function () {
+      // Only set if the file has changed within a Git repository
+      return this.$store.state.gitFiles[this.obj.path]
+    },
+    gitStatusLetter: function () {
+      if (this.gitStatus === undefined) {
+        return ''
+      }
+
+      const letters = {
+        modified: 'M',
+        added: 'A',
+        deleted: 'D',
+        renamed: 'R',
+        untracked: 'U',
+        conflicted: '!'
+      }
+      return letters[this.gitStatus.state]
+    },
+    gitStatusLabel: function () {
+      if (this.gitStatus === undefined) {
+        return ''
+      }
+
+      const labels = {
+        modified: trans('Modified'),
+        added: trans('Added'),
+        deleted: trans('Deleted'),
+        renamed: trans('Renamed'),
+        untracked: trans('Untracked'),
+        conflicted: trans('Conflicted')
+      }
+      return labels[this.gitStatus.state]
     }
   },
   watch: {
@@ -200,7 +235,8 @@ export default {
               isProject: this.obj.type === 'directory' && this.obj.settings.project !== null,
               fullPath: this.obj.path,
               isGitRepository: this.obj.isGitRepository,
-              icon: this.obj.icon
+              icon: this.obj.icon,
+              template: this.obj.settings.template ?? ''
             }
 
             ;[ data.sortingType, data.sortingDirection ] = this.obj.settings.sorting.split('-')
@@ -243,6 +279,17 @@ export default {
                   }
                 }).catch(e => console.error(e))
               }
+
+              // Set the default template for new files if it has changed
+              if (data.template !== this.obj.settings.template) {
+                ipcRenderer.invoke('application', {
+                  command: 'dir-set-template',
+                  payload: {
+                    path: this.obj.path,
+                    template: data.template
+                  }
+                }).catch(e => console.error(e))
+              }
             })
           }
         })
@@ -91,6 +91,27 @@ function afterRegister (): void {
 
   // -----------------------------------------------------------------------------
 
+  /**
+   * Listen to changes in Git repositories
+   */
+  function updateGitStatus (): void {
+    ipcRenderer.invoke('git-provider', { command: 'get-status' })
+      .then(status => {
+        app.$store.commit('updateGitStatus', status)
+      })
+      .catch(e => console.error(e))
+  }
+
+  ipcRenderer.on('git-provider', (event, message) => {
+    if (message === 'status-updated') {
+      updateGitStatus()
+    }
+  })
+
+  updateGitStatus()
+
+  // -----------------------------------------------------------------------------
+
   // Update the configuration if some value changes
   ipcRenderer.on('config-provider', (event, { command, payload }) => {
     if (command === 'update') {
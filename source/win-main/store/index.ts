@@ -36,6 +36,7 @@ import updateBibliographyAction from './actions/update-bibliography'
 import documentTreeUpdateAction from './actions/document-tree-update'
 import { AnyDescriptor, DirDescriptor, MaybeRootDescriptor } from '@dts/common/fsal'
 import { WritingTarget } from '@providers/targets'
+import { GitFileStatus, GitRepositoryStatus } from '@dts/common/git'
 import updateSnippetsAction from './actions/update-snippets'
 
 const ipcRenderer = window.ipc
@@ -89,6 +90,14 @@ export interface ZettlrState {
    * Holds all current writing targets
    */
   writingTargets: WritingTarget[]
+  /**
+   * The status of all workspace roots that are Git repositories
+   */
+  gitRepositories: GitRepositoryStatus[]
+  /**
+   * The Git status of every changed file, keyed by path, for quick access
+   */
+  gitFiles: Record<string, GitFileStatus>
   /**
    * Holds all configuration options. These need to be stored here separately
    * to make use of the reactivity of Vue. We'll basically be binding the config
@@ -158,6 +167,8 @@ function getConfig (): StoreOptions<ZettlrState> {
         selectedDirectory: null,
         colouredTags: [],
         writingTargets: [],
+        gitRepositories: [],
+        gitFiles: {},
         config: configToArrayMapper(window.config.get()),
         activeDocumentInfo: null,
         modifiedDocuments: [],
@@ -249,6 +260,17 @@ function getConfig (): StoreOptions<ZettlrState> {
       colouredTags: function (state, tags) {
         state.colouredTags = tags
       },
+      updateGitStatus: function (state, repositories: GitRepositoryStatus[]) {
+        const files: Record<string, GitFileStatus> = {}
+        for (const repository of repositories) {
+          for (const file of repository.files) {
+            files[file.path] = file
+          }
+        }
+
+        state.gitRepositories = repositories
+        state.gitFiles = files
+      },
       updateWritingTargets: function (state, targets: WritingTarget[]) {
         state.writingTargets = targets
       },
@@ -271,6 +293,10 @@ function getConfig (): StoreOptions<ZettlrState> {
         // b-a reversal, since we want a descending sort)
         state.searchResults.sort((a, b) => b.weight - a.weight)
       },
+      addSearchResults: function (state, results: SearchResultWrapper[]) {
+        state.searchResults.push(...results)
+        state.searchResults.sort((a, b) => b.weight - a.weight)
+      },
       snippets: function (state, snippets) {
         state.snippets = snippets
       },
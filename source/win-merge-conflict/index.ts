@@ -0,0 +1,27 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Merge conflict modal entry file
+ * CVM-Role:        <none>
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file is the merge conflict modal's procedural file.
+ *                  It is the main entry point for the window. It simply loads
+ *                  the renderer process and initialises everything.
+ *
+ * END HEADER
+ */
+
+import { createApp } from 'vue'
+import App from './App.vue'
+import windowRegister from '@common/modules/window-register'
+
+// The first thing we have to do is run the window controller
+windowRegister()
+  .then(() => {
+    const app = createApp(App)
+    app.mount('#app')
+  })
+  .catch(e => console.error(e))
@@ -108,6 +108,32 @@ export default function (): any {
           model: 'watchdog.stabilityThreshold',
           disabled: window.config.get('watchdog.activatePolling') === false
         }
+      ],
+      [
+        {
+          type: 'checkbox',
+          label: trans('Automatically commit all changes in Git repositories'),
+          model: 'git.autoCommit'
+        },
+        {
+          type: 'number',
+          label: trans('Interval between automatic commits (in minutes)'),
+          model: 'git.autoCommitInterval',
+          disabled: window.config.get('git.autoCommit') === false
+        }
+      ],
+      [
+        {
+          type: 'checkbox',
+          label: trans('Keep a version history of every file'),
+          model: 'snapshots.enabled'
+        },
+        {
+          type: 'number',
+          label: trans('Keep versions for this many days'),
+          model: 'snapshots.retentionDays',
+          disabled: window.config.get('snapshots.enabled') === false
+        }
       ]
     ]
   }
@@ -71,6 +71,42 @@ export default function (): any {
           model: 'zkn.customDirectory',
           reset: ''
         }
+      ],
+      [
+        {
+          type: 'fieldset-label',
+          text: trans('Journal')
+        },
+        {
+          type: 'directory',
+          label: trans('Keep journal notes in this directory (must be loaded in Zettlr)'),
+          model: 'journal.directory',
+          reset: ''
+        },
+        {
+          type: 'text',
+          label: trans('Pattern used to name journal notes'),
+          model: 'journal.filenamePattern',
+          reset: '%Y-%M-%D',
+          info: 'Variables: %Y, %y, %M, %D, %W, %id, %uuid4'
+        },
+        {
+          type: 'text',
+          label: trans('Template for new journal notes (see the assets manager)'),
+          model: 'journal.template',
+          reset: ''
+        }
+      ],
+      [
+        {
+          type: 'fieldset-label',
+          text: trans('Tasks')
+        },
+        {
+          type: 'checkbox',
+          label: trans('Show a notification for overdue tasks'),
+          model: 'tasks.notifyOverdue'
+        }
       ]
     ]
   }
@@ -0,0 +1,99 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Block references tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { extractBlocks, findBlock, parseBlockReference } from '../source/common/util/block-references'
+import assert from 'assert'
+
+const markdown = `---
+title: "# Not a heading"
+---
+
+# Introduction
+
+Some text that can be
+referenced. ^intro-text
+
+## Details
+
+\`\`\`
+# Not a heading either ^not-an-anchor
+\`\`\`
+
+- First item
+- Second item
+
+^list
+
+# Conclusion
+
+Footnotes[^1] are no anchors.`
+
+describe('Utility#parseBlockReference', function () {
+  it('should return links without block unchanged', function () {
+    assert.deepStrictEqual(parseBlockReference('20230307123456'), { target: '20230307123456' })
+  })
+
+  it('should parse heading references', function () {
+    assert.deepStrictEqual(parseBlockReference('Some note#Some heading'), {
+      target: 'Some note',
+      block: { type: 'heading', name: 'Some heading' }
+    })
+  })
+
+  it('should parse anchor references', function () {
+    assert.deepStrictEqual(parseBlockReference('Some note.md#^anchor'), {
+      target: 'Some note.md',
+      block: { type: 'anchor', name: 'anchor' }
+    })
+  })
+
+  it('should ignore empty references', function () {
+    assert.deepStrictEqual(parseBlockReference('Some note#'), { target: 'Some note' })
+    assert.deepStrictEqual(parseBlockReference('Some note#^'), { target: 'Some note' })
+  })
+})
+
+describe('Utility#extractBlocks', function () {
+  it('should extract headings and anchors outside of code and frontmatter', function () {
+    const blocks = extractBlocks(markdown).map(({ type, name, line, level }) => ({ type, name, line, level }))
+    assert.deepStrictEqual(blocks, [
+      { type: 'heading', name: 'Introduction', line: 5, level: 1 },
+      { type: 'anchor', name: 'intro-text', line: 7, level: 0 },
+      { type: 'heading', name: 'Details', line: 10, level: 2 },
+      { type: 'anchor', name: 'list', line: 16, level: 0 },
+      { type: 'heading', name: 'Conclusion', line: 21, level: 1 }
+    ])
+  })
+
+  it('should return the paragraph of an anchor without the anchor', function () {
+    const block = findBlock(markdown, { type: 'anchor', name: 'intro-text' })
+    assert.strictEqual(block?.content, 'Some text that can be\nreferenced.')
+  })
+
+  it('should refer anchors on their own line to the paragraph above', function () {
+    const block = findBlock(markdown, { type: 'anchor', name: 'list' })
+    assert.strictEqual(block?.content, '- First item\n- Second item')
+  })
+
+  it('should return the whole section of a heading', function () {
+    const block = findBlock(markdown, { type: 'heading', name: 'details' })
+    assert.strictEqual(block?.content, '## Details\n\n```\n# Not a heading either ^not-an-anchor\n```\n\n- First item\n- Second item\n\n^list')
+  })
+
+  it('should return undefined for missing blocks', function () {
+    assert.strictEqual(findBlock(markdown, { type: 'anchor', name: 'not-an-anchor' }), undefined)
+    assert.strictEqual(findBlock(markdown, { type: 'heading', name: 'Missing' }), undefined)
+  })
+})
@@ -20,52 +20,126 @@ const testSearches = [
   // First the searches from the docs
   {
     'terms': 'boat ship',
-    'expected': [{ words: ['boat'], operator: 'AND' }, { words: ['ship'], operator: 'AND' }]
+    'expected': { type: 'and', terms: [{ type: 'text', value: 'boat' }, { type: 'text', value: 'ship' }] }
   },
   {
     'terms': 'boat | ship',
-    'expected': [{ words: [ 'boat', 'ship' ], operator: 'OR' }]
+    'expected': { type: 'or', terms: [{ type: 'text', value: 'boat' }, { type: 'text', value: 'ship' }] }
   },
   {
     'terms': '"boat ship"',
-    'expected': [{ words: ['boat ship'], operator: 'AND' }]
+    'expected': { type: 'text', value: 'boat ship' }
   },
   {
     'terms': 'test | done rendering',
-    expected: [
-      { words: [ 'test', 'done' ], operator: 'OR' },
-      { words: ['rendering'], operator: 'AND' }
-    ]
+    expected: {
+      type: 'and',
+      terms: [
+        { type: 'or', terms: [{ type: 'text', value: 'test' }, { type: 'text', value: 'done' }] },
+        { type: 'text', value: 'rendering' }
+      ]
+    }
   },
   // Now some fancy ones!
   {
     'terms': 'sovereignty | "state of exception" Agamben',
-    'expected': [
-      { words: [ 'sovereignty', 'state of exception' ], operator: 'OR' },
-      { words: ['Agamben'], operator: 'AND' }
-    ]
+    'expected': {
+      type: 'and',
+      terms: [
+        { type: 'or', terms: [{ type: 'text', value: 'sovereignty' }, { type: 'text', value: 'state of exception' }] },
+        { type: 'text', value: 'Agamben' }
+      ]
+    }
   },
   {
     'terms': '"sovereign decision" !"Carl Schmitt"',
-    'expected': [
-      { words: ['sovereign decision'], operator: 'AND' },
-      { words: ['Carl Schmitt'], operator: 'NOT' }
-    ]
+    'expected': {
+      type: 'and',
+      terms: [
+        { type: 'text', value: 'sovereign decision' },
+        { type: 'not', term: { type: 'text', value: 'Carl Schmitt' } }
+      ]
+    }
   },
   {
     'terms': 'this should turn out "really" boring!',
-    'expected': [
-      { words: ['this'], operator: 'AND' },
-      { words: ['should'], operator: 'AND' },
-      { words: ['turn'], operator: 'AND' },
-      { words: ['out'], operator: 'AND' },
-      { words: ['really'], operator: 'AND' },
-      { words: ['boring!'], operator: 'AND' }
-    ]
+    'expected': {
+      type: 'and',
+      terms: [
+        { type: 'text', value: 'this' },
+        { type: 'text', value: 'should' },
+        { type: 'text', value: 'turn' },
+        { type: 'text', value: 'out' },
+        { type: 'text', value: 'really' },
+        { type: 'text', value: 'boring!' }
+      ]
+    }
   },
   {
     'terms': '',
-    'expected': []
+    'expected': { type: 'and', terms: [] }
+  },
+  // Grouping
+  {
+    'terms': '(boat | ship) !(sea river)',
+    'expected': {
+      type: 'and',
+      terms: [
+        { type: 'or', terms: [{ type: 'text', value: 'boat' }, { type: 'text', value: 'ship' }] },
+        { type: 'not', term: { type: 'and', terms: [{ type: 'text', value: 'sea' }, { type: 'text', value: 'river' }] } }
+      ]
+    }
+  },
+  {
+    'terms': '| (boat',
+    'expected': { type: 'text', value: 'boat' }
+  },
+  // Regular expressions
+  {
+    'terms': '/colou?r/i f(x)',
+    'expected': {
+      type: 'and',
+      terms: [
+        { type: 'regex', pattern: 'colou?r', flags: 'i' },
+        { type: 'text', value: 'f(x)' }
+      ]
+    }
+  },
+  {
+    'terms': '/colou?r/gyi',
+    'expected': { type: 'regex', pattern: 'colou?r', flags: 'i' }
+  },
+  {
+    'terms': '/[unclosed/',
+    'expected': { type: 'text', value: '/[unclosed/' }
+  },
+  // Fields
+  {
+    'terms': 'tag:method title:"Some title" ext:md path:',
+    'expected': {
+      type: 'and',
+      terms: [
+        { type: 'field', field: 'tag', comparator: ':', value: 'method' },
+        { type: 'field', field: 'title', comparator: ':', value: 'Some title' },
+        { type: 'field', field: 'ext', comparator: ':', value: 'md' }
+      ]
+    }
+  },
+  {
+    'terms': 'yaml:author=Smith modified:>2024-01-01 words:<=500 has:citation',
+    'expected': {
+      type: 'and',
+      terms: [
+        { type: 'field', field: 'yaml', key: 'author', comparator: '=', value: 'Smith' },
+        { type: 'field', field: 'modified', comparator: '>', value: '2024-01-01' },
+        { type: 'field', field: 'words', comparator: '<=', value: '500' },
+        { type: 'field', field: 'has', comparator: ':', value: 'citation' }
+      ]
+    }
+  },
+  {
+    'terms': 'https://zettlr.com',
+    'expected': { type: 'text', value: 'https://zettlr.com' }
   }
 ]
 
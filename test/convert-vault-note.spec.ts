@@ -0,0 +1,79 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        convertVaultNote tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import convertVaultNote, { VaultConversionContext, VaultNoteTarget } from '@providers/commands/importer/convert-vault-note'
+import { deepStrictEqual, strictEqual } from 'assert'
+
+const NOTES: Record<string, VaultNoteTarget> = {
+  'page one': { filename: 'Page One', title: 'Page One' },
+  'zettel': { filename: '20220101120000 Zettel', id: '20220101120000', title: 'Zettel' }
+}
+
+const ATTACHMENTS: Record<string, string> = {
+  'image.png': '../assets/image.png',
+  'my file.pdf': 'attachments/my file.pdf'
+}
+
+const ctx: VaultConversionContext = {
+  resolveNote: (name) => NOTES[name.toLowerCase()],
+  resolveAttachment: (name) => ATTACHMENTS[name.toLowerCase()],
+  linkFilenameOnly: false,
+  linkWithFilename: 'never'
+}
+
+const convertTesters = [
+  { input: 'See [[Page One]].', expected: 'See [[Page One]].' },
+  { input: 'See [[Page One|the first page]].', expected: 'See [the first page]([[Page One]]).' },
+  { input: 'See [[Page One#Some heading]].', expected: 'See [[Page One]].' },
+  { input: 'See [[Zettel]].', expected: 'See [[20220101120000]].' },
+  { input: '![[image.png]]', expected: '![image.png](../assets/image.png)' },
+  { input: '![[image.png|A figure]]', expected: '![A figure](../assets/image.png)' },
+  { input: '[[My File.pdf]]', expected: '[My File.pdf](<attachments/my file.pdf>)' },
+  { input: '![[Page One#Section]]', expected: '![[Page One#Section]]' },
+  { input: '{{embed: [[Zettel]]}}', expected: '![[20220101120000]]' },
+  { input: 'A #[[multi word]] tag', expected: 'A #multi-word tag' },
+  { input: '```\n[[Page One]]\n```', expected: '```\n[[Page One]]\n```' }
+]
+
+describe('Utility#convertVaultNote()', function () {
+  for (const test of convertTesters) {
+    it(`should convert "${test.input}" correctly`, function () {
+      strictEqual(convertVaultNote(test.input, ctx).content, test.expected)
+    })
+  }
+
+  it('should respect zkn.linkFilenameOnly and zkn.linkWithFilename', function () {
+    strictEqual(convertVaultNote('[[Zettel]]', { ...ctx, linkFilenameOnly: true }).content, '[[20220101120000 Zettel]]')
+    strictEqual(convertVaultNote('[[Zettel]]', { ...ctx, linkWithFilename: 'withID' }).content, '[[20220101120000]] Zettel')
+  })
+
+  it('should report unresolved links and block references', function () {
+    const { content, unresolvedLinks } = convertVaultNote('[[Missing]] ![[missing.png]] ((abc123def)) [[Missing]]', ctx)
+    strictEqual(content, '[[Missing]] ![[missing.png]] ((abc123def)) [[Missing]]')
+    deepStrictEqual(unresolvedLinks, [ 'Missing', 'missing.png', '((abc123def))' ])
+  })
+
+  it('should turn Logseq properties into a YAML frontmatter', function () {
+    const input = 'title:: My Page\ntags:: [[one]], #two, multi word\n\n- First block'
+    const expected = '---\ntitle: My Page\ntags:\n  - one\n  - two\n  - multi-word\n---\n\n- First block'
+    strictEqual(convertVaultNote(input, ctx).content, expected)
+  })
+
+  it('should merge properties with an existing frontmatter', function () {
+    const input = '---\nauthor: Jane\ntags: one two\n---\nstatus:: draft\nBody'
+    const expected = '---\nauthor: Jane\ntags:\n  - one\n  - two\nstatus: draft\n---\n\nBody'
+    strictEqual(convertVaultNote(input, ctx).content, expected)
+  })
+})
@@ -0,0 +1,60 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        expandTransclusions tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import expandTransclusions, { TransclusionTarget } from '@common/util/expand-transclusions'
+import { strictEqual, rejects } from 'assert'
+
+const NOTES: Record<string, string> = {
+  '20220101120000': '---\ntitle: First\n---\n\nFirst note.\n\n![[20220101120001#Part]]',
+  '20220101120001': '# Second\n\nSkipped.\n\n## Part\n\nSecond note.\n\n## Other\n\nNot included.',
+  'cycle-a': 'A\n\n![[cycle-b]]',
+  'cycle-b': 'B\n\n![[cycle-a]]'
+}
+
+async function loadTarget (query: string): Promise<TransclusionTarget|undefined> {
+  if (!(query in NOTES)) {
+    return undefined
+  }
+  return { path: `/notes/${query}.md`, content: NOTES[query] }
+}
+
+describe('Utility#expandTransclusions()', function () {
+  it('should recursively expand notes and sections', async function () {
+    const output = await expandTransclusions('Intro\n\n![[20220101120000]]\n\nOutro', '/notes/main.md', loadTarget)
+    strictEqual(output, 'Intro\n\nFirst note.\n\n## Part\n\nSecond note.\n\nOutro')
+  })
+
+  it('should leave inline occurrences untouched', async function () {
+    const input = 'This ![[20220101120000]] is not on its own line.'
+    strictEqual(await expandTransclusions(input, '/notes/main.md', loadTarget), input)
+  })
+
+  it('should leave transclusions in code blocks untouched', async function () {
+    const input = '```markdown\n![[missing]]\n```\n\n~~~\n![[20220101120000]]'
+    strictEqual(await expandTransclusions(input, '/notes/main.md', loadTarget), input)
+  })
+
+  it('should throw if a target does not exist', async function () {
+    await rejects(expandTransclusions('![[missing]]', '/notes/main.md', loadTarget), /"missing" was not found/)
+  })
+
+  it('should throw if a section does not exist', async function () {
+    await rejects(expandTransclusions('![[20220101120001#Missing]]', '/notes/main.md', loadTarget), /no section "Missing"/)
+  })
+
+  it('should detect circular transclusions', async function () {
+    await rejects(expandTransclusions('![[cycle-a]]', '/notes/main.md', loadTarget), /Circular transclusion/)
+  })
+})
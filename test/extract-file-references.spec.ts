@@ -0,0 +1,67 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        extractFileReferences tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import extractFileReferences from '@providers/links/extract-file-references'
+import { deepStrictEqual } from 'assert'
+
+const tests = [
+  {
+    description: 'Zettelkasten links',
+    input: 'A link to [[20220101120000]] and one to [[Some note#Heading]].',
+    expected: [
+      { type: 'link', target: '20220101120000', line: 1, from: 10, to: 28 },
+      { type: 'link', target: 'Some note#Heading', line: 1, from: 40, to: 61 }
+    ]
+  },
+  {
+    description: 'local files, but not websites and anchors',
+    input: '![Image](img/figure%20one.png)\n[Website](https://example.com) [Anchor](#top) [PDF](<docs/a file.pdf> "Title")',
+    expected: [
+      { type: 'file', target: 'img/figure one.png', line: 1, from: 0, to: 30 },
+      { type: 'file', target: 'docs/a file.pdf', line: 2, from: 77, to: 109 }
+    ]
+  },
+  {
+    description: 'citations',
+    input: 'As @Doe2020 shows [see @Smith2019, p. 3; @Miller2018].',
+    expected: [
+      { type: 'citation', target: 'Doe2020', line: 1, from: 3, to: 11 },
+      { type: 'citation', target: 'Smith2019', line: 1, from: 18, to: 53 },
+      { type: 'citation', target: 'Miller2018', line: 1, from: 18, to: 53 }
+    ]
+  },
+  {
+    description: 'references outside of frontmatter and code',
+    input: '---\ntitle: "[[Not a link]]"\n---\n\n```\n[[Not a link]]\n```\n`[[Not a link]]` but [[A link]]',
+    expected: [
+      { type: 'link', target: 'A link', line: 8, from: 77, to: 87 }
+    ]
+  },
+  {
+    description: 'positions with Windows linebreaks',
+    input: 'First line\r\nA [[link]]',
+    expected: [
+      { type: 'link', target: 'link', line: 2, from: 14, to: 22 }
+    ]
+  }
+]
+
+describe('Utility#extractFileReferences()', function () {
+  for (const test of tests) {
+    it(`should extract ${test.description}`, function () {
+      deepStrictEqual(extractFileReferences(test.input), test.expected)
+    })
+  }
+})
@@ -0,0 +1,51 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        extractSection tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import extractSection from '@common/util/extract-section'
+import { strictEqual } from 'assert'
+
+const DOCUMENT = `# Title
+
+Introduction.
+
+## Method
+
+We did things.
+
+### Details
+
+\`\`\`
+# Not a heading
+\`\`\`
+
+## Results
+
+It worked.`
+
+const extractSectionTesters = [
+  { heading: 'Method', expected: '## Method\n\nWe did things.\n\n### Details\n\n```\n# Not a heading\n```' },
+  { heading: 'results', expected: '## Results\n\nIt worked.' },
+  { heading: 'Details', expected: '### Details\n\n```\n# Not a heading\n```' },
+  { heading: 'Not a heading', expected: undefined },
+  { heading: 'Discussion', expected: undefined }
+]
+
+describe('Utility#extractSection()', function () {
+  for (const test of extractSectionTesters) {
+    it(`should extract the section "${test.heading}"`, function () {
+      strictEqual(extractSection(DOCUMENT, test.heading), test.expected)
+    })
+  }
+})
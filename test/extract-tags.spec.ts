@@ -29,6 +29,10 @@ const tests = [
     input: 'Here is an \\#escaped tag and a #regular tag',
     expected: ['regular']
   },
+  {
+    input: 'A #project/alpha/meeting tag, a #Nested/Tag and a #trailing/ slash',
+    expected: [ 'project/alpha/meeting', 'nested/tag', 'trailing' ]
+  },
   {
     input: `---
 title: "Here is some title"
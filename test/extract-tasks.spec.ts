@@ -0,0 +1,52 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        extractTasks test
+ * CVM-Role:        Unit Test
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This tests the ability of Zettlr to extract tasks
+ *
+ * END HEADER
+ */
+
+import assert from 'assert'
+import extractTasks from '../source/app/service-providers/fsal/util/extract-tasks'
+
+const tests = [
+  {
+    input: 'Just something without any tasks.\n- A list item\n- [link](./file.md)',
+    expected: []
+  },
+  {
+    input: '# Todo\n\n- [ ] Open task\n* [x] Done task\n1. [X] Numbered task',
+    expected: [
+      { text: 'Open task', done: false, line: 3, due: null, tags: [] },
+      { text: 'Done task', done: true, line: 4, due: null, tags: [] },
+      { text: 'Numbered task', done: true, line: 5, due: null, tags: [] }
+    ]
+  },
+  {
+    input: '  - [ ] Write #Draft for #project/alpha @due(2024-05-01)\r\n- [ ] Send mail@due(2024-05-01)',
+    expected: [
+      { text: 'Write #Draft for #project/alpha', done: false, line: 1, due: '2024-05-01', tags: [ 'draft', 'project/alpha' ] },
+      { text: 'Send mail@due(2024-05-01)', done: false, line: 2, due: null, tags: [] }
+    ]
+  },
+  {
+    input: '---\ntitle: "- [ ] Not a task"\n---\n```\n- [ ] Not a task\n```\n- [ ] A task',
+    expected: [
+      { text: 'A task', done: false, line: 7, due: null, tags: [] }
+    ]
+  }
+]
+
+describe('extractTasks()', function () {
+  for (const test of tests) {
+    it(`extracts ${test.expected.length} task(s)`, function () {
+      assert.deepStrictEqual(extractTasks(test.input), test.expected)
+    })
+  }
+})
@@ -0,0 +1,80 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        findReplaceMatches tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import findReplaceMatches, { applyReplaceMatches } from '../source/common/util/find-replace-matches'
+import { WorkspaceReplaceOptions } from '../source/types/common/search'
+import assert from 'assert'
+
+function options (search: string, replace: string, extra: Partial<WorkspaceReplaceOptions> = {}): WorkspaceReplaceOptions {
+  return { search, replace, isRegex: false, caseSensitive: false, wholeWord: false, ...extra }
+}
+
+const content = 'The cat sat.\nA Cat and a category.\r\nDone: $1 (cat)'
+
+describe('Utility#findReplaceMatches()', function () {
+  it('should find plain text case-insensitively and compute positions', function () {
+    const matches = findReplaceMatches(content, options('cat', 'dog'))
+    assert.deepStrictEqual(matches.map(m => [ m.from, m.line, m.ch, m.match ]), [
+      [ 4, 0, 4, 'cat' ],
+      [ 15, 1, 2, 'Cat' ],
+      [ 25, 1, 12, 'cat' ],
+      [ 46, 2, 10, 'cat' ]
+    ])
+    assert.strictEqual(matches[1].lineText, 'A Cat and a category.')
+  })
+
+  it('should respect case sensitivity and whole words', function () {
+    assert.strictEqual(findReplaceMatches(content, options('Cat', '', { caseSensitive: true })).length, 1)
+    assert.strictEqual(findReplaceMatches(content, options('cat', '', { wholeWord: true })).length, 3)
+  })
+
+  it('should treat plain text and its replacement literally', function () {
+    const matches = findReplaceMatches(content, options('$1 (cat)', '$&'))
+    assert.strictEqual(matches.length, 1)
+    assert.strictEqual(matches[0].replacement, '$&')
+  })
+
+  it('should expand capture groups in regular expressions', function () {
+    const matches = findReplaceMatches('Smith, John; Doe, Jane', options('(\\w+), (?<first>\\w+)', '$<first> $1 ($$)', { isRegex: true }))
+    assert.deepStrictEqual(matches.map(m => m.replacement), [ 'John Smith ($)', 'Jane Doe ($)' ])
+  })
+
+  it('should keep unknown group references verbatim', function () {
+    const matches = findReplaceMatches('abc', options('(b)', '$2-$1-$10', { isRegex: true }))
+    assert.strictEqual(matches[0].replacement, '$2-b-b0')
+  })
+
+  it('should throw on invalid regular expressions', function () {
+    assert.throws(() => findReplaceMatches(content, options('(unclosed', '', { isRegex: true })))
+  })
+
+  it('should return no matches for an empty search', function () {
+    assert.deepStrictEqual(findReplaceMatches(content, options('', 'x')), [])
+  })
+})
+
+describe('Utility#applyReplaceMatches()', function () {
+  it('should apply only the given matches', function () {
+    const matches = findReplaceMatches(content, options('cat', 'dog', { wholeWord: true }))
+    const result = applyReplaceMatches(content, [ matches[2], matches[0] ])
+    assert.strictEqual(result, 'The dog sat.\nA Cat and a category.\r\nDone: $1 (dog)')
+  })
+
+  it('should equal String.replace when applying all matches', function () {
+    const opts = options('(\\w)(\\w*)', '$2$1ay', { isRegex: true })
+    const result = applyReplaceMatches(content, findReplaceMatches(content, opts))
+    assert.strictEqual(result, content.replace(/(\w)(\w*)/gim, '$2$1ay'))
+  })
+})
@@ -0,0 +1,79 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        FSALSearchIndex tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import FSALSearchIndex, { tokenise } from '@providers/fsal/fsal-search-index'
+import compileSearchTerms from '@common/util/compile-search-terms'
+import { deepStrictEqual, strictEqual } from 'assert'
+import path from 'path'
+
+const DIR = path.resolve('/notes')
+const A = path.join(DIR, 'a.md')
+const B = path.join(DIR, 'b.md')
+const C = path.join(DIR, 'sub', 'c.md')
+
+function makeIndex (): FSALSearchIndex {
+  // The index is never loaded or persisted in this test
+  const index = new FSALSearchIndex(path.join(DIR, 'search-index.json'))
+  index.update(A, 1, 'a.md method\nThe Zettelkasten method is useful.')
+  index.update(B, 1, 'b.md theory\nSome theory about methods, e.g. grounded theory.')
+  index.update(C, 1, 'c.md\nNothing to see here.')
+  return index
+}
+
+const candidateTesters: Array<{ query: string, expected: string[]|undefined }> = [
+  { query: 'method', expected: [ A, B ] },
+  { query: 'ETHOD', expected: [ A, B ] },
+  { query: 'kasten', expected: [A] },
+  { query: 'or', expected: [B] },
+  { query: 'method theory', expected: [B] },
+  { query: 'zettelkasten | nothing', expected: [ A, C ] },
+  { query: '"grounded theory"', expected: [B] },
+  { query: 'missing', expected: [] },
+  { query: '(zettelkasten | nothing) !useful', expected: [ A, C ] },
+  // Negations, regular expressions, fields and terms without tokens cannot
+  // narrow down the files
+  { query: '!method', expected: undefined },
+  { query: '/meth.d/', expected: undefined },
+  { query: 'tag:method', expected: undefined },
+  { query: 'method | /theory/', expected: undefined },
+  { query: '—', expected: undefined }
+]
+
+describe('FSALSearchIndex', function () {
+  it('should tokenise text into unique lowercase tokens', function () {
+    deepStrictEqual(tokenise('The cat, the Hat — 42 times!'), [ 'the', 'cat', 'hat', '42', 'times' ])
+  })
+
+  for (const test of candidateTesters) {
+    it(`should return the candidates for »${test.query}«`, function () {
+      const candidates = makeIndex().candidates(compileSearchTerms(test.query))
+      deepStrictEqual(candidates === undefined ? undefined : [...candidates].sort(), test.expected)
+    })
+  }
+
+  it('should update and remove files', function () {
+    const index = makeIndex()
+    strictEqual(index.isCurrent(A, 1), true)
+
+    index.update(A, 2, 'a.md\nCompletely different.')
+    strictEqual(index.isCurrent(A, 1), false)
+    deepStrictEqual([...index.candidates(compileSearchTerms('method')) ?? []], [B])
+
+    // Removing a directory removes all files within it
+    index.remove(path.join(DIR, 'sub'))
+    strictEqual(index.size, 2)
+    deepStrictEqual([...index.candidates(compileSearchTerms('nothing')) ?? []], [])
+  })
+})
@@ -80,4 +80,31 @@ describe('DirectedGraph', function () {
     DG.addVertex('A')
     assert.strictEqual(DG.countComponents, before)
   })
+
+  it('should compute in- and out-degrees', function () {
+    const B = DG.vertices.find(V => V.id === 'B')
+    assert.strictEqual(B?.inDegree, 2)
+    assert.strictEqual(B?.outDegree, 5)
+  })
+
+  it('should identify B as the only hub', function () {
+    assert.deepStrictEqual(DG.hubs.map(V => V.id), ['B'])
+  })
+
+  it('should contain 2 orphans', function () {
+    // Nothing links to H and I
+    assert.strictEqual(DG.countOrphans, 2)
+  })
+
+  it('should compute centralities that sum to 1', function () {
+    const sum = DG.vertices.reduce((prev, V) => prev + V.centrality, 0)
+    assert.ok(Math.abs(sum - 1) < 1e-6)
+  })
+
+  it('should weight arcs by link multiplicity', function () {
+    const before = DG.countArcs
+    DG.addArc('A', 'B')
+    assert.strictEqual(DG.countArcs, before)
+    assert.strictEqual(DG.graph.links.find(arc => arc.source === 'A' && arc.target === 'B')?.weight, 2)
+  })
 })
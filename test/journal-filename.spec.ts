@@ -0,0 +1,51 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Journal filename tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { getJournalDate, getJournalFilename, toJournalDate } from '../source/common/util/journal-filename'
+import assert from 'assert'
+
+describe('Utility#journalFilename', function () {
+  const date = new Date(2023, 2, 7) // March 7th, 2023
+
+  it('should format journal dates', function () {
+    assert.strictEqual(toJournalDate(date), '2023-03-07')
+  })
+
+  it('should generate the filename for a date', function () {
+    assert.strictEqual(getJournalFilename('%Y-%M-%D', date, '20230307120000'), '2023-03-07')
+    assert.strictEqual(getJournalFilename('Journal %D.%M.%y', date, '20230307120000'), 'Journal 07.03.23')
+    assert.strictEqual(getJournalFilename('%Y%M%D-%id', date, '20230307120000'), '20230307-20230307120000')
+  })
+
+  it('should determine the date of a journal note', function () {
+    assert.strictEqual(getJournalDate('%Y-%M-%D', '2023-03-07.md'), '2023-03-07')
+    assert.strictEqual(getJournalDate('Journal %D.%M.%y', 'Journal 07.03.23.md'), '2023-03-07')
+    assert.strictEqual(getJournalDate('%Y%M%D-%id', '20230307-abc.md'), '2023-03-07')
+  })
+
+  it('should ignore files that do not match the pattern', function () {
+    assert.strictEqual(getJournalDate('%Y-%M-%D', 'Some note.md'), undefined)
+    assert.strictEqual(getJournalDate('%Y-%M-%D', '2023-03-07 draft.md'), undefined)
+  })
+
+  it('should require the year, month, and day in the pattern', function () {
+    assert.strictEqual(getJournalDate('%Y-%M', '2023-03.md'), undefined)
+  })
+
+  it('should round-trip dates', function () {
+    const pattern = 'Week %W, %Y-%M-%D (%h%m)'
+    assert.strictEqual(getJournalDate(pattern, getJournalFilename(pattern, date, '20230307120000')), '2023-03-07')
+  })
+})
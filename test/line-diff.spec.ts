@@ -0,0 +1,68 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Line diff tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { computeLineDiff, getDiffHunks, getSideBySideRows } from '../source/common/util/line-diff'
+import assert from 'assert'
+
+describe('Utility#lineDiff', function () {
+  it('should mark identical texts as unchanged', function () {
+    const diff = computeLineDiff('one\ntwo', 'one\ntwo')
+    assert.deepStrictEqual(diff, [
+      { type: 'context', text: 'one', oldLine: 1, newLine: 1 },
+      { type: 'context', text: 'two', oldLine: 2, newLine: 2 }
+    ])
+    assert.deepStrictEqual(getDiffHunks(diff), [])
+  })
+
+  it('should detect added, removed and changed lines', function () {
+    const diff = computeLineDiff('one\ntwo\nthree\nfour', 'one\nthree\nFOUR\nfive')
+    assert.deepStrictEqual(diff, [
+      { type: 'context', text: 'one', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'two', oldLine: 2 },
+      { type: 'context', text: 'three', oldLine: 3, newLine: 2 },
+      { type: 'removed', text: 'four', oldLine: 4 },
+      { type: 'added', text: 'FOUR', newLine: 3 },
+      { type: 'added', text: 'five', newLine: 4 }
+    ])
+  })
+
+  it('should ignore different line endings', function () {
+    const diff = computeLineDiff('one\r\ntwo', 'one\ntwo')
+    assert.ok(diff.every(line => line.type === 'context'))
+  })
+
+  it('should group changes into hunks with context', function () {
+    const oldText = [ 'a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j' ].join('\n')
+    const newText = [ 'A', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'J' ].join('\n')
+    const hunks = getDiffHunks(computeLineDiff(oldText, newText), 2)
+
+    assert.strictEqual(hunks.length, 2)
+    assert.deepStrictEqual(hunks[0].map(line => line.text), [ 'a', 'A', 'b', 'c' ])
+    assert.deepStrictEqual(hunks[1].map(line => line.text), [ 'h', 'i', 'j', 'J' ])
+
+    // Nearby changes end up in the same hunk
+    assert.strictEqual(getDiffHunks(computeLineDiff(oldText, newText), 4).length, 1)
+  })
+
+  it('should arrange changed lines side by side', function () {
+    const rows = getSideBySideRows(computeLineDiff('one\ntwo\nthree', 'one\nTWO\nthree\nfour'))
+    assert.deepStrictEqual(rows.map(row => [ row.left?.text, row.right?.text ]), [
+      [ 'one', 'one' ],
+      [ 'two', 'TWO' ],
+      [ 'three', 'three' ],
+      [ undefined, 'four' ]
+    ])
+  })
+})
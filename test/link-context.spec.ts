@@ -0,0 +1,73 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Link context tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { findUnlinkedMentions, getReferenceContext } from '@providers/links/link-context'
+import { deepStrictEqual } from 'assert'
+
+describe('Utility#getReferenceContext()', function () {
+  it('should return the paragraph containing the reference', function () {
+    const markdown = '# Heading\n\nFirst line\nsee [[link]] here\n\nNext paragraph'
+    const from = markdown.indexOf('[[')
+    deepStrictEqual(getReferenceContext(markdown, from, from + 8), {
+      text: 'First line\nsee [[link]] here',
+      from: 15,
+      to: 23
+    })
+  })
+
+  it('should handle references at the start and end of the file', function () {
+    deepStrictEqual(getReferenceContext('[[link]]', 0, 8), { text: '[[link]]', from: 0, to: 8 })
+  })
+
+  it('should remove carriage returns', function () {
+    const markdown = 'Intro\r\n\r\nSome\r\n[[link]]\r\n\r\nOutro'
+    const from = markdown.indexOf('[[')
+    deepStrictEqual(getReferenceContext(markdown, from, from + 8), {
+      text: 'Some\n[[link]]',
+      from: 5,
+      to: 13
+    })
+  })
+
+  it('should shorten long paragraphs around the reference', function () {
+    const markdown = 'a'.repeat(200) + '[[link]]' + 'b'.repeat(200)
+    const context = getReferenceContext(markdown, 200, 208)
+    deepStrictEqual(context.text, '…' + 'a'.repeat(150) + '[[link]]' + 'b'.repeat(150) + '…')
+    deepStrictEqual(context.text.substring(context.from, context.to), '[[link]]')
+  })
+})
+
+describe('Utility#findUnlinkedMentions()', function () {
+  it('should find case-insensitive mentions of whole words', function () {
+    const markdown = 'About my note.\nMy Note again, but not MyNotes or my notebook.'
+    deepStrictEqual(findUnlinkedMentions(markdown, ['My note']), [
+      { line: 1, from: 6, to: 13, match: 'my note' },
+      { line: 2, from: 15, to: 22, match: 'My Note' }
+    ])
+  })
+
+  it('should ignore links, code and the frontmatter', function () {
+    const markdown = '---\ntitle: My note\n---\n[[My note]] [My note](my-note.md) `My note`\n```\nMy note\n```\nMy note'
+    deepStrictEqual(findUnlinkedMentions(markdown, ['My note']), [
+      { line: 8, from: markdown.length - 7, to: markdown.length, match: 'My note' }
+    ])
+  })
+
+  it('should prefer the longer of several titles', function () {
+    deepStrictEqual(findUnlinkedMentions('On zettelkasten methods', [ 'Zettelkasten', 'Zettelkasten methods', '' ]), [
+      { line: 1, from: 3, to: 23, match: 'zettelkasten methods' }
+    ])
+  })
+})
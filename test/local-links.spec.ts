@@ -0,0 +1,44 @@
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Local link tests
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import extractLocalLinks, { parseLocalLinkTarget } from '@common/util/local-links'
+import { deepStrictEqual, strictEqual } from 'assert'
+
+describe('Utility#parseLocalLinkTarget()', function () {
+  it('should parse local targets', function () {
+    deepStrictEqual(parseLocalLinkTarget('img/my%20figure.png#top'), {
+      path: 'img/my figure.png', isWrapped: false, isEncoded: true, protocol: '', suffix: '#top'
+    })
+    deepStrictEqual(parseLocalLinkTarget('<file:///ws/a file.md>'), {
+      path: '/ws/a file.md', isWrapped: true, isEncoded: false, protocol: 'file://', suffix: ''
+    })
+  })
+
+  it('should ignore websites, anchors and Zettelkasten links', function () {
+    strictEqual(parseLocalLinkTarget('https://example.com'), undefined)
+    strictEqual(parseLocalLinkTarget('#heading'), undefined)
+    strictEqual(parseLocalLinkTarget('[[20220101120000]]'), undefined)
+  })
+})
+
+describe('Utility#extractLocalLinks()', function () {
+  it('should return the positions of the links and their targets', function () {
+    const markdown = '---\nimage: "![](a.png)"\n---\r\n`![](b.png)` ![Alt](<c d.png> "Title")'
+    const links = extractLocalLinks(markdown)
+    strictEqual(links.length, 1)
+    strictEqual(links[0].line, 4)
+    strictEqual(markdown.substring(links[0].from, links[0].to), '![Alt](<c d.png> "Title")')
+    strictEqual(markdown.substring(links[0].targetFrom, links[0].targetTo), '<c d.png>')
+  })
+})
@@ -0,0 +1,87 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        matchSearchTerm tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import compileSearchTerms from '@common/util/compile-search-terms'
+import matchSearchTerm, { makeTermRegExp, matchDescriptorText } from '@common/util/match-search-term'
+import { MDFileDescriptor } from '@dts/common/fsal'
+import { strictEqual } from 'assert'
+
+const file: MDFileDescriptor = {
+  root: false,
+  dir: '/notes/research',
+  path: '/notes/research/Methods.md',
+  name: 'Methods.md',
+  ext: '.md',
+  size: 1024,
+  id: '20240115120000',
+  type: 'file',
+  tags: [ 'method', 'qualitative' ],
+  links: ['20240101120000'],
+  citekeys: ['Smith2020'],
+  tasks: [],
+  bom: '',
+  wordCount: 750,
+  charCount: 4500,
+  firstHeading: 'On grounded theory',
+  yamlTitle: 'Research Methods',
+  frontmatter: { title: 'Research Methods', author: [ 'John Smith', 'Jane Doe' ] },
+  linefeed: '\n',
+  modified: false,
+  modtime: new Date(2024, 2, 15, 12).getTime(),
+  creationtime: new Date(2024, 0, 15, 12).getTime()
+}
+
+const content = 'The Zettelkasten method is useful.\nSee also the colour theory.'
+
+const tests = [
+  { query: 'zettelkasten method', expected: true },
+  { query: 'zettelkasten missing', expected: false },
+  { query: 'zettelkasten | missing', expected: true },
+  { query: 'method !useful', expected: false },
+  { query: '(missing | colour) !(useless | absent)', expected: true },
+  { query: '/colou?r theory/', expected: true },
+  { query: '/^See/', expected: true },
+  { query: '#qual', expected: true },
+  { query: 'tag:qual', expected: true },
+  { query: 'tag:quantitative', expected: false },
+  { query: 'title:research', expected: true },
+  { query: 'title:"grounded theory"', expected: true },
+  { query: 'path:research/', expected: true },
+  { query: 'ext:md', expected: true },
+  { query: 'ext:tex', expected: false },
+  { query: 'yaml:author=smith', expected: true },
+  { query: 'yaml:author=Miller', expected: false },
+  { query: 'yaml:title', expected: true },
+  { query: 'yaml:status', expected: false },
+  { query: 'modified:>2024-01-01', expected: true },
+  { query: 'modified:2024-03', expected: true },
+  { query: 'modified:<2024-03-15', expected: false },
+  { query: 'modified:<=2024-03-15', expected: true },
+  { query: 'words:>500', expected: true },
+  { query: 'words:<500', expected: false },
+  { query: 'has:citation has:links', expected: true },
+  { query: 'has:unknown', expected: false }
+]
+
+describe('Utility#matchSearchTerm()', function () {
+  for (const test of tests) {
+    it(`should ${test.expected ? '' : 'not '}match »${test.query}«`, function () {
+      const result = matchSearchTerm(compileSearchTerms(test.query), file, term => {
+        return matchDescriptorText(term, file) || makeTermRegExp(term, 'm').test(content)
+      })
+      strictEqual(result, test.expected)
+    })
+  }
+})
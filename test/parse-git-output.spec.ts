@@ -0,0 +1,70 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Git output parser tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { parseGitLog, parseGitStatus } from '../source/app/service-providers/git/util/parse-git-output'
+import assert from 'assert'
+import path from 'path'
+
+const root = path.join(path.sep, 'workspace')
+
+describe('GitProvider#parseGitOutput', function () {
+  it('should parse the branch and the changed files', function () {
+    const output = [
+      '## main...origin/main [ahead 1]',
+      ' M notes/one.md',
+      'M  two.md',
+      'MM three.md',
+      'A  new.md',
+      ' D gone.md',
+      '?? untracked.md',
+      'UU conflict.md',
+      ''
+    ].join('\0')
+
+    const status = parseGitStatus(output, root)
+    assert.strictEqual(status.root, root)
+    assert.strictEqual(status.branch, 'main')
+    assert.deepStrictEqual(status.files, [
+      { path: path.join(root, 'notes', 'one.md'), state: 'modified', staged: false, unstaged: true },
+      { path: path.join(root, 'two.md'), state: 'modified', staged: true, unstaged: false },
+      { path: path.join(root, 'three.md'), state: 'modified', staged: true, unstaged: true },
+      { path: path.join(root, 'new.md'), state: 'added', staged: true, unstaged: false },
+      { path: path.join(root, 'gone.md'), state: 'deleted', staged: false, unstaged: true },
+      { path: path.join(root, 'untracked.md'), state: 'untracked', staged: false, unstaged: true },
+      { path: path.join(root, 'conflict.md'), state: 'conflicted', staged: true, unstaged: true }
+    ])
+  })
+
+  it('should skip the original path of renamed files', function () {
+    const output = [ '## No commits yet on main', 'R  renamed.md', 'original.md', ' M other.md', '' ].join('\0')
+    const status = parseGitStatus(output, root)
+    assert.strictEqual(status.branch, 'main')
+    assert.deepStrictEqual(status.files.map(file => [ file.path, file.state ]), [
+      [ path.join(root, 'renamed.md'), 'renamed' ],
+      [ path.join(root, 'other.md'), 'modified' ]
+    ])
+  })
+
+  it('should parse the commits of git log', function () {
+    const output = 'abc123\x1fJane Doe\x1f1600000000\x1fSecond commit\x1e\n' +
+      'def456\x1fJohn Doe\x1f1500000000\x1fFirst commit\x1e\n'
+
+    assert.deepStrictEqual(parseGitLog(output), [
+      { hash: 'abc123', author: 'Jane Doe', date: 1600000000000, message: 'Second commit' },
+      { hash: 'def456', author: 'John Doe', date: 1500000000000, message: 'First commit' }
+    ])
+    assert.deepStrictEqual(parseGitLog(''), [])
+  })
+})
@@ -0,0 +1,77 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        parsePandocDiagnostics tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import parsePandocDiagnostics from '@providers/commands/exporter/parse-pandoc-diagnostics'
+import { deepStrictEqual } from 'assert'
+
+const parserTesters = [
+  {
+    input: ['[WARNING] Citeproc: citation doe2020 not found'],
+    expected: [{ severity: 'warning', kind: 'citation', message: 'Citeproc: citation doe2020 not found' }]
+  },
+  {
+    input: ['[WARNING] Could not fetch resource img/figure.png: replacing image with description'],
+    expected: [{ severity: 'warning', kind: 'resource', message: 'Could not fetch resource img/figure.png: replacing image with description' }]
+  },
+  {
+    input: ['[WARNING] Duplicate link reference \'[a]\' at notes.md line 12 column 1'],
+    expected: [{
+      severity: 'warning',
+      kind: 'syntax',
+      message: 'Duplicate link reference \'[a]\' at notes.md line 12 column 1',
+      file: 'notes.md',
+      line: 12,
+      column: 1
+    }]
+  },
+  {
+    input: [ 'Error at "notes.md" (line 3, column 5):', 'unexpected end of input' ],
+    expected: [{
+      severity: 'error',
+      kind: 'syntax',
+      message: 'unexpected end of input',
+      file: 'notes.md',
+      line: 3,
+      column: 5
+    }]
+  },
+  {
+    input: [
+      'Error producing PDF.',
+      '! Undefined control sequence.',
+      'l.42 \\foo'
+    ],
+    expected: [
+      { severity: 'error', kind: 'latex', message: 'Error producing PDF.' },
+      { severity: 'error', kind: 'latex', message: 'Undefined control sequence.\nl.42 \\foo' }
+    ]
+  },
+  {
+    input: ['pandoc: template.tex: openBinaryFile: does not exist (No such file or directory)'],
+    expected: [{ severity: 'error', kind: 'resource', message: 'template.tex: openBinaryFile: does not exist (No such file or directory)' }]
+  },
+  {
+    input: [],
+    expected: []
+  }
+]
+
+describe('Utility#parsePandocDiagnostics()', function () {
+  for (const test of parserTesters) {
+    it(`should parse ${test.input.length} line(s) of stderr correctly`, function () {
+      deepStrictEqual(parsePandocDiagnostics(test.input), test.expected)
+    })
+  }
+})
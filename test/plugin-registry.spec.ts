@@ -0,0 +1,90 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Exporter plugin registry tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import os from 'os'
+import { promises as fs } from 'fs'
+import { getCustomProfiles, getPluginForWriter, isBuiltinPlugin, loadUserPlugins } from '@providers/commands/exporter/plugin-registry'
+import { deepStrictEqual, strictEqual } from 'assert'
+
+const VALID_PLUGIN = `module.exports.plugin = {
+  id: 'test-plugin',
+  profiles: [{ writer: 'test-writer', name: 'Test format' }],
+  run: async function () { return { code: 0, stdout: [], stderr: [], targetFile: '' } }
+}`
+
+const INVALID_PLUGIN = `module.exports.plugin = {
+  id: 'invalid-plugin',
+  run: async function () {}
+}`
+
+const THROWING_PLUGIN = 'throw new Error(\'Broken plugin\')'
+
+describe('Exporter#loadUserPlugins()', function () {
+  let pluginDirectory = ''
+  let errors: string[] = []
+
+  const logger: any = {
+    info: () => {},
+    warning: (message: string) => errors.push(message),
+    error: (message: string) => errors.push(message)
+  }
+
+  beforeEach(async function () {
+    pluginDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'zettlr-plugins-'))
+    errors = []
+  })
+
+  afterEach(async function () {
+    await fs.rm(pluginDirectory, { recursive: true, force: true })
+    // Unregister all plugins again
+    await loadUserPlugins(pluginDirectory, logger)
+  })
+
+  it('should load a valid plugin', async function () {
+    await fs.writeFile(path.join(pluginDirectory, 'valid.js'), VALID_PLUGIN)
+    await loadUserPlugins(pluginDirectory, logger)
+
+    deepStrictEqual(errors, [])
+    const plugin = getPluginForWriter('test-writer')
+    strictEqual(plugin.id, 'test-plugin')
+    strictEqual(isBuiltinPlugin(plugin), false)
+    deepStrictEqual(getCustomProfiles().find(profile => profile.writer === 'test-writer'), {
+      name: 'Test format.yaml',
+      writer: 'test-writer',
+      reader: 'markdown',
+      isInvalid: false
+    })
+  })
+
+  it('should skip plugins that lack required fields', async function () {
+    await fs.writeFile(path.join(pluginDirectory, 'invalid.js'), INVALID_PLUGIN)
+    await loadUserPlugins(pluginDirectory, logger)
+
+    strictEqual(errors.length, 1)
+    strictEqual(errors[0].includes('does not declare any profiles'), true)
+    strictEqual(getCustomProfiles().some(profile => profile.name === 'invalid-plugin.yaml'), false)
+  })
+
+  it('should skip plugins that throw on load, but load the others', async function () {
+    await fs.writeFile(path.join(pluginDirectory, 'broken.js'), THROWING_PLUGIN)
+    await fs.writeFile(path.join(pluginDirectory, 'valid.js'), VALID_PLUGIN)
+    await loadUserPlugins(pluginDirectory, logger)
+
+    strictEqual(errors.length, 1)
+    strictEqual(errors[0].includes('Broken plugin'), true)
+    strictEqual(getPluginForWriter('test-writer').id, 'test-plugin')
+  })
+})
@@ -0,0 +1,103 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Export preprocessor tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import path from 'path'
+import os from 'os'
+import { promises as fs } from 'fs'
+import { preprocessFiles } from '@providers/commands/exporter/preprocess'
+import { MDFileDescriptor } from '@dts/common/fsal'
+import { deepStrictEqual, strictEqual } from 'assert'
+
+const FILES: Record<string, string> = {
+  'a.md': '---\ntitle: Note A\n---\n\nSee [[b]].\n\n![[c]]\n',
+  'b.md': '# Note B\n\nNo links here.\n',
+  'c.md': 'Transcluded text linking to [[b]] and [[missing]].\n'
+}
+
+describe('Exporter#preprocessFiles()', function () {
+  let dir = ''
+  let workingDir = ''
+
+  function getDescriptor (name: string): MDFileDescriptor {
+    return {
+      path: path.join(dir, name),
+      dir,
+      name,
+      ext: '.md',
+      id: '',
+      yamlTitle: undefined,
+      firstHeading: (name === 'b.md') ? 'Note B' : null
+    } as any
+  }
+
+  function findFile (query: string): MDFileDescriptor|undefined {
+    const name = query.endsWith('.md') ? query : query + '.md'
+    return (name in FILES) ? getDescriptor(name) : undefined
+  }
+
+  function getOptions (): any {
+    return {
+      profile: { name: 'html.yaml', writer: 'html', reader: 'markdown', isInvalid: false },
+      sourceFiles: [ getDescriptor('a.md'), getDescriptor('b.md') ],
+      targetDirectory: dir
+    }
+  }
+
+  before(async function () {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zettlr-preprocess-'))
+    workingDir = path.join(dir, 'working')
+    await fs.mkdir(workingDir)
+    for (const [ name, content ] of Object.entries(FILES)) {
+      await fs.writeFile(path.join(dir, name), content)
+    }
+  })
+
+  after(async function () {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should pass files on as-is if there is nothing to do', async function () {
+    const options = getOptions()
+    options.sourceFiles = [getDescriptor('b.md')]
+    deepStrictEqual(await preprocessFiles(options, 'none', findFile, workingDir), [path.join(dir, 'b.md')])
+  })
+
+  it('should transclude notes, insert anchors, and resolve links in that order', async function () {
+    const files = await preprocessFiles(getOptions(), 'anchor', findFile, workingDir)
+    deepStrictEqual(files, [
+      path.join(workingDir, '0-a.intermediary.md'),
+      path.join(workingDir, '1-b.intermediary.md')
+    ])
+
+    const a = await fs.readFile(files[0], 'utf-8')
+    // The anchor goes below the frontmatter
+    strictEqual(a.startsWith('---\ntitle: Note A\n---\n\n[]{#note-a}\n\n'), true)
+    strictEqual(a.includes('See [Note B](#note-b).'), true)
+    // Links within the transcluded note have been resolved as well, unless
+    // their target does not exist
+    strictEqual(a.includes('Transcluded text linking to [Note B](#note-b) and [[missing]].'), true)
+    strictEqual(a.includes('![[c]]'), false)
+
+    const b = await fs.readFile(files[1], 'utf-8')
+    strictEqual(b, '[]{#note-b}\n\n' + FILES['b.md'])
+  })
+
+  it('should link to the exported files of the targets', async function () {
+    const files = await preprocessFiles(getOptions(), 'relative', findFile, workingDir)
+    strictEqual(files[1], path.join(dir, 'b.md'))
+    const a = await fs.readFile(files[0], 'utf-8')
+    strictEqual(a.includes('See [Note B](<b.html>).'), true)
+  })
+})
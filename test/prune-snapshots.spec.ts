@@ -0,0 +1,48 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Snapshot retention tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import pruneSnapshots from '../source/app/service-providers/snapshots/util/prune-snapshots'
+import assert from 'assert'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const NOW = 1700000000000
+
+function snapshot (id: string, age: number): { id: string, timestamp: number, hash: string, words: number } {
+  return { id, timestamp: NOW - age, hash: id, words: 0 }
+}
+
+describe('SnapshotProvider#pruneSnapshots', function () {
+  it('should keep all snapshots of the last 24 hours', function () {
+    const snapshots = [ snapshot('a', HOUR), snapshot('b', 2 * HOUR), snapshot('c', 23 * HOUR) ]
+    assert.deepStrictEqual(pruneSnapshots(snapshots, NOW, 30), snapshots)
+  })
+
+  it('should keep only the newest snapshot of each older day', function () {
+    const snapshots = [
+      snapshot('a', HOUR),
+      snapshot('b', DAY + HOUR),
+      snapshot('c', DAY + 2 * HOUR),
+      snapshot('d', 2 * DAY + HOUR),
+      snapshot('e', 5 * DAY)
+    ]
+    assert.deepStrictEqual(pruneSnapshots(snapshots, NOW, 30).map(s => s.id), [ 'a', 'b', 'd', 'e' ])
+  })
+
+  it('should remove snapshots older than the retention period', function () {
+    const snapshots = [ snapshot('a', HOUR), snapshot('b', 6 * DAY), snapshot('c', 7 * DAY), snapshot('d', 40 * DAY) ]
+    assert.deepStrictEqual(pruneSnapshots(snapshots, NOW, 7).map(s => s.id), [ 'a', 'b' ])
+  })
+})
@@ -13,7 +13,7 @@
  * END HEADER
  */
 
-import replaceLinks from '@common/util/replace-links'
+import replaceLinks, { mapLinks } from '@common/util/replace-links'
 import { strictEqual } from 'assert'
 
 // The initial document contains links to both Zettelkasten as well as
@@ -96,3 +96,32 @@ describe('Utility#replaceLinks()', function () {
     })
   }
 })
+
+const mapLinksTesters = [
+  {
+    input: 'A link to [[20220101120000]] in a sentence.',
+    output: 'A link to [Some note](some-note.html) in a sentence.'
+  },
+  {
+    input: 'A [fancy link]([[20220101120000]]) and [[Unknown]].',
+    output: 'A [fancy link](some-note.html) and [[Unknown]].'
+  },
+  {
+    input: '---\ntitle: "[[20220101120000]]"\n---\n\nSee [[20220101120000]].',
+    output: '---\ntitle: "[[20220101120000]]"\n---\n\nSee [Some note](some-note.html).'
+  }
+]
+
+describe('Utility#mapLinks()', function () {
+  for (const test of mapLinksTesters) {
+    it(`should map the links in "${test.input}"`, function () {
+      const output = mapLinks(test.input, (linkContent, label) => {
+        if (linkContent !== '20220101120000') {
+          return linkContent
+        }
+        return { raw: `[${label ?? 'Some note'}](some-note.html)` }
+      })
+      strictEqual(output, test.output)
+    })
+  }
+})
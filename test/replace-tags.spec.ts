@@ -13,7 +13,7 @@
  * END HEADER
  */
 
-import replaceTags from '@common/util/replace-tags'
+import replaceTags, { removeTag } from '@common/util/replace-tags'
 import { strictEqual } from 'assert'
 
 const testDocument = `---
@@ -127,10 +127,44 @@ Similarly with [link](example.com#second-tag).`
   }
 ]
 
+const nestedDocument = `---
+keywords:
+  - project/alpha
+  - project/alpha/meeting
+  - project/alphabet
+---
+
+Notes on #project/alpha/meeting and #project/alpha, but not #project/alphabet.`
+
+const nestedExpected = `---
+keywords:
+  - archive/alpha
+  - archive/alpha/meeting
+  - project/alphabet
+---
+
+Notes on #archive/alpha/meeting and #archive/alpha, but not #project/alphabet.`
+
 describe('Utility#replaceTags()', function () {
+  it('should rename nested tags along with their parent', function () {
+    strictEqual(replaceTags(nestedDocument, 'project/alpha', 'archive/alpha'), nestedExpected)
+  })
+
   for (const test of replaceTagsTesters) {
     it(`should replace the tag ${test.oldTag} with ${test.newTag}`, function () {
       strictEqual(replaceTags(testDocument, test.oldTag, test.newTag), test.expected)
     })
   }
 })
+
+describe('Utility#removeTag()', function () {
+  it('should remove a tag from the frontmatter and the text', function () {
+    const markdown = '---\nkeywords:\n  - one\n  - two\n---\n\nThis has #two tags, #two/nested and #twofold.\n#two'
+    strictEqual(removeTag(markdown, 'two'), '---\nkeywords:\n  - one\n---\n\nThis has tags, and #twofold.\n')
+  })
+
+  it('should remove a tag from a flow sequence', function () {
+    strictEqual(removeTag('---\ntags: [one, two, three]\n---\nText', 'two'), '---\ntags: [one, three]\n---\nText')
+    strictEqual(removeTag('---\ntags: [one, two]\n---\nText', 'two'), '---\ntags: [one]\n---\nText')
+  })
+})
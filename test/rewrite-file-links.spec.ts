@@ -0,0 +1,93 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        rewriteFileLinks tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import rewriteFileLinks from '../source/common/util/rewrite-file-links'
+import assert from 'assert'
+
+/**
+ * Returns a mapping function that moves oldPath (and everything within it) to
+ * newPath
+ */
+function move (oldPath: string, newPath: string): (absPath: string) => string {
+  return (absPath: string) => {
+    if (absPath === oldPath || absPath.startsWith(oldPath + '/')) {
+      return newPath + absPath.substring(oldPath.length)
+    }
+    return absPath
+  }
+}
+
+function apply (markdown: string, oldDir: string, newDir: string, mapPath: (absPath: string) => string): string {
+  let result = markdown
+  for (const rewrite of rewriteFileLinks(markdown, oldDir, newDir, mapPath).reverse()) {
+    result = result.substring(0, rewrite.from) + rewrite.newTarget + result.substring(rewrite.to)
+  }
+  return result
+}
+
+describe('Utility#rewriteFileLinks()', function () {
+  it('should update the links of a moved file', function () {
+    const markdown = 'See ![Image](../img/x.png) and [a note](other.md#section).'
+    const mapPath = move('/ws/notes/file.md', '/ws/notes/sub/file.md')
+    assert.strictEqual(
+      apply(markdown, '/ws/notes', '/ws/notes/sub', mapPath),
+      'See ![Image](../../img/x.png) and [a note](../other.md#section).'
+    )
+  })
+
+  it('should update links pointing to a moved directory', function () {
+    const markdown = '![](./img/x.png) [Doc](<img/my file.pdf> "Title") [Other](imgs/y.png)'
+    const mapPath = move('/ws/img', '/ws/assets/images')
+    assert.strictEqual(
+      apply(markdown, '/ws', '/ws', mapPath),
+      '![](./assets/images/x.png) [Doc](<assets/images/my file.pdf> "Title") [Other](imgs/y.png)'
+    )
+  })
+
+  it('should keep links that remain valid', function () {
+    // Both the file and the image move together
+    const markdown = '![](img/x.png)'
+    const mapPath = move('/ws/dir', '/ws/other/dir')
+    assert.deepStrictEqual(rewriteFileLinks(markdown, '/ws/dir', '/ws/other/dir', mapPath), [])
+  })
+
+  it('should retain the encoding and absolute links', function () {
+    const markdown = '[A](my%20dir/a.md) [B](/ws/my%20dir/b.md) [C](file:///ws/my%20dir/c.md)'
+    const mapPath = move('/ws/my dir', '/ws/your dir')
+    assert.strictEqual(
+      apply(markdown, '/ws', '/ws', mapPath),
+      '[A](your%20dir/a.md) [B](/ws/your%20dir/b.md) [C](file:///ws/your%20dir/c.md)'
+    )
+  })
+
+  it('should encode spaces in unwrapped links', function () {
+    const mapPath = move('/ws/img', '/ws/my images')
+    assert.strictEqual(apply('![](img/x.png)', '/ws', '/ws', mapPath), '![](my%20images/x.png)')
+  })
+
+  it('should ignore web links, anchors, code and the frontmatter', function () {
+    const markdown = '---\nlink: "[a](img/x.png)"\n---\n[Web](https://example.com/img/x.png) [Anchor](#img)\n`[a](img/x.png)`\n```\n[a](img/x.png)\n```\n[a](img/x.png)'
+    const rewrites = rewriteFileLinks(markdown, '/ws', '/ws', move('/ws/img', '/ws/assets'))
+    assert.strictEqual(rewrites.length, 1)
+    assert.strictEqual(markdown.substring(rewrites[0].from, rewrites[0].to), 'img/x.png')
+    assert.strictEqual(rewrites[0].from, markdown.lastIndexOf('img/x.png'))
+  })
+
+  it('should compute correct offsets with Windows line endings', function () {
+    const markdown = 'Line\r\n![](img/x.png)'
+    const rewrites = rewriteFileLinks(markdown, '/ws', '/ws', move('/ws/img', '/ws/assets'))
+    assert.strictEqual(markdown.substring(rewrites[0].from, rewrites[0].to), 'img/x.png')
+  })
+})
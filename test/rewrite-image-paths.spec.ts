@@ -0,0 +1,69 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        rewriteImagePaths tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import rewriteImagePaths from '@providers/commands/importer/rewrite-image-paths'
+import { strictEqual } from 'assert'
+import path from 'path'
+
+const SOURCE_DIR = path.resolve('/downloads/article')
+const TARGET_DIR = path.resolve('/notes')
+
+// The files that "exist" on disk
+const EXISTING_FILES = [
+  path.resolve(TARGET_DIR, 'assets/20220101120000/media/image1.png'),
+  path.resolve(SOURCE_DIR, 'img/figure one.jpg'),
+  path.resolve(TARGET_DIR, '../shared/logo.svg')
+]
+
+const exists = (absPath: string): boolean => EXISTING_FILES.includes(absPath)
+
+const rewriteTesters = [
+  {
+    input: '![](assets/20220101120000/media/image1.png)',
+    expected: '![](assets/20220101120000/media/image1.png)'
+  },
+  {
+    input: '![A figure](<img/figure one.jpg> "Title")',
+    expected: '![A figure](<../downloads/article/img/figure one.jpg> "Title")'
+  },
+  {
+    input: '![A figure](img/figure%20one.jpg)',
+    expected: '![A figure](<../downloads/article/img/figure one.jpg>)'
+  },
+  {
+    input: `![Logo](${path.resolve(TARGET_DIR, '../shared/logo.svg')})`,
+    expected: '![Logo](../shared/logo.svg)'
+  },
+  {
+    input: '<img src="img/figure one.jpg" width="50%">',
+    expected: '<img src="../downloads/article/img/figure one.jpg" width="50%">'
+  },
+  {
+    input: '![Remote](https://example.com/image.png) and ![Inline](data:image/png;base64,AAAA)',
+    expected: '![Remote](https://example.com/image.png) and ![Inline](data:image/png;base64,AAAA)'
+  },
+  {
+    input: '![Missing](img/missing.png)',
+    expected: '![Missing](img/missing.png)'
+  }
+]
+
+describe('Utility#rewriteImagePaths()', function () {
+  for (const test of rewriteTesters) {
+    it(`should rewrite "${test.input}" correctly`, function () {
+      strictEqual(rewriteImagePaths(test.input, SOURCE_DIR, TARGET_DIR, exists), test.expected)
+    })
+  }
+})
@@ -0,0 +1,76 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Snippet template tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { extractTabstops, getSnippetVariables, replaceSnippetVariables } from '../source/common/util/snippet-template'
+import assert from 'assert'
+
+// Snippets use the same syntax as JavaScript template strings
+/* eslint-disable no-template-curly-in-string */
+
+describe('Utility#replaceSnippetVariables', function () {
+  const variables = { CURRENT_YEAR: '2023', FILENAME: 'note.md', CLIPBOARD: undefined }
+
+  it('should replace known variables', function () {
+    assert.strictEqual(replaceSnippetVariables('$CURRENT_YEAR: $FILENAME', variables), '2023: note.md')
+  })
+
+  it('should leave unknown and escaped variables untouched', function () {
+    assert.strictEqual(replaceSnippetVariables('$UNKNOWN \\$FILENAME', variables), '$UNKNOWN \\$FILENAME')
+  })
+
+  it('should fall back to the default of variables without a value', function () {
+    assert.strictEqual(replaceSnippetVariables('${CLIPBOARD:nothing} ${FILENAME:x}', variables), 'nothing note.md')
+  })
+})
+
+describe('Utility#getSnippetVariables', function () {
+  it('should derive the file variables from the path', function () {
+    const variables = getSnippetVariables('/notes/ideas/note.md', '123', '', '%Y')
+    assert.strictEqual(variables.FILENAME, 'note.md')
+    assert.strictEqual(variables.DIRECTORY, '/notes/ideas')
+    assert.strictEqual(variables.EXTENSION, '.md')
+    assert.strictEqual(variables.CURRENT_ID, '123')
+    assert.strictEqual(variables.CLIPBOARD, undefined)
+    assert.strictEqual(variables.ZKN_ID, new Date().getFullYear().toString())
+  })
+})
+
+describe('Utility#extractTabstops', function () {
+  it('should return text without tabstops unchanged', function () {
+    assert.deepStrictEqual(extractTabstops('Hello'), { text: 'Hello', tabstops: [] })
+  })
+
+  it('should remove tabstops and keep their default text', function () {
+    assert.deepStrictEqual(extractTabstops('# ${1:Title}\n\n$2'), {
+      text: '# Title\n\n',
+      tabstops: [
+        [{ from: 2, to: 7 }],
+        [{ from: 9, to: 9 }],
+        [{ from: 9, to: 9 }]
+      ]
+    })
+  })
+
+  it('should combine tabstops with the same number and visit $0 last', function () {
+    assert.deepStrictEqual(extractTabstops('$0 ${2:b} $1 $1'), {
+      text: ' b  ',
+      tabstops: [
+        [{ from: 3, to: 3 }, { from: 4, to: 4 }],
+        [{ from: 1, to: 2 }],
+        [{ from: 0, to: 0 }]
+      ]
+    })
+  })
+})
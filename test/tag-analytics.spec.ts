@@ -0,0 +1,47 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Tag analytics tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { computeCooccurrence, editDistance, findSimilarTags } from '../source/common/util/tag-analytics'
+import assert from 'assert'
+
+describe('Utility#tagAnalytics', function () {
+  it('should compute the edit distance', function () {
+    assert.strictEqual(editDistance('kitten', 'sitting'), 3)
+    assert.strictEqual(editDistance('', 'abc'), 3)
+    assert.strictEqual(editDistance('same', 'same'), 0)
+  })
+
+  it('should find case, plural and spelling variants', function () {
+    const tags = [ 'Meeting', 'meetings', 'philosophy', 'philosphy', 'category', 'categories', 'todo', 'done', '2021', '2022' ]
+    assert.deepStrictEqual(findSimilarTags(tags), [
+      [ 'Meeting', 'meetings' ],
+      [ 'philosophy', 'philosphy' ],
+      [ 'categories', 'category' ]
+    ])
+  })
+
+  it('should count the files tags share', function () {
+    const tags = [
+      { name: 'a', files: [ '1.md', '2.md', '3.md' ] },
+      { name: 'b', files: [ '1.md', '2.md' ] },
+      { name: 'c', files: ['3.md'] }
+    ]
+    assert.deepStrictEqual(computeCooccurrence(tags, 10), [
+      { tags: [ 'a', 'b' ], files: 2 },
+      { tags: [ 'a', 'c' ], files: 1 }
+    ])
+    assert.strictEqual(computeCooccurrence(tags, 1).length, 1)
+  })
+})
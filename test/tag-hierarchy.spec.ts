@@ -0,0 +1,59 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Tag hierarchy tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { buildTagTree, findTagColor, getTagAncestors, isTagOrDescendant } from '../source/common/util/tag-hierarchy'
+import assert from 'assert'
+
+describe('Utility#tagHierarchy', function () {
+  it('should detect nested tags', function () {
+    assert.strictEqual(isTagOrDescendant('project/alpha', 'project/alpha'), true)
+    assert.strictEqual(isTagOrDescendant('project/alpha/meeting', 'project'), true)
+    assert.strictEqual(isTagOrDescendant('project/alphabet', 'project/alpha'), false)
+  })
+
+  it('should return the ancestors of a tag', function () {
+    assert.deepStrictEqual(getTagAncestors('a/b/c'), [ 'a/b/c', 'a/b', 'a' ])
+  })
+
+  it('should inherit the color of the closest parent', function () {
+    const colored = [
+      { name: 'project', color: 'red' },
+      { name: 'project/alpha', color: 'blue' }
+    ]
+    assert.strictEqual(findTagColor(colored, 'project/alpha/meeting')?.color, 'blue')
+    assert.strictEqual(findTagColor(colored, 'project/beta')?.color, 'red')
+    assert.strictEqual(findTagColor(colored, 'other'), undefined)
+  })
+
+  it('should build a tree with aggregated files', function () {
+    const tree = buildTagTree([
+      { name: 'project/beta', files: ['b.md'] },
+      { name: 'project/alpha/meeting', files: [ 'a.md', 'b.md' ] },
+      { name: 'project/alpha', files: ['a.md'] },
+      { name: 'todo', files: ['c.md'] }
+    ])
+
+    assert.deepStrictEqual(tree.map(node => node.name), [ 'project', 'todo' ])
+    const project = tree[0]
+    assert.strictEqual(project.isTag, false)
+    assert.deepStrictEqual(project.files, [ 'b.md', 'a.md' ])
+    assert.deepStrictEqual(project.children.map(node => node.fullName), [ 'project/alpha', 'project/beta' ])
+
+    const alpha = project.children[0]
+    assert.strictEqual(alpha.isTag, true)
+    assert.deepStrictEqual(alpha.files, [ 'a.md', 'b.md' ])
+    assert.strictEqual(alpha.children[0].fullName, 'project/alpha/meeting')
+  })
+})
@@ -0,0 +1,73 @@
+/* eslint-disable no-undef */
+/**
+ * @ignore
+ * BEGIN HEADER
+ *
+ * Contains:        Three-way merge tester
+ * CVM-Role:        TESTING
+ * Maintainer:      Hendrik Erz
+ * License:         GNU GPL v3
+ *
+ * Description:     This file tests a component of Zettlr.
+ *
+ * END HEADER
+ */
+
+import { applyMergeChoices, hasConflicts, threeWayMerge } from '../source/common/util/three-way-merge'
+import assert from 'assert'
+
+const base = [ '# Title', '', 'First paragraph.', '', 'Second paragraph.', '', 'Third paragraph.' ].join('\n')
+
+describe('Utility#threeWayMerge', function () {
+  it('should merge changes to different parts of the text', function () {
+    const ours = base.replace('First paragraph.', 'First paragraph, edited.')
+    const theirs = base.replace('Third paragraph.', 'Third paragraph.\n\nFourth paragraph.')
+    const chunks = threeWayMerge(base, ours, theirs)
+
+    assert.strictEqual(hasConflicts(chunks), false)
+    assert.strictEqual(applyMergeChoices(chunks, []), [
+      '# Title', '', 'First paragraph, edited.', '', 'Second paragraph.', '', 'Third paragraph.', '', 'Fourth paragraph.'
+    ].join('\n'))
+  })
+
+  it('should accept identical changes on both sides', function () {
+    const changed = base.replace('Second', 'The second')
+    const chunks = threeWayMerge(base, changed, changed)
+    assert.strictEqual(hasConflicts(chunks), false)
+    assert.strictEqual(applyMergeChoices(chunks, []), changed)
+  })
+
+  it('should apply changes of only one side', function () {
+    const theirs = base.replace('# Title', '# New title')
+    assert.strictEqual(applyMergeChoices(threeWayMerge(base, base, theirs), []), theirs)
+    assert.strictEqual(applyMergeChoices(threeWayMerge(base, theirs, base), []), theirs)
+  })
+
+  it('should report conflicting changes to the same lines', function () {
+    const ours = base.replace('Second paragraph.', 'Our second paragraph.')
+    const theirs = base.replace('Second paragraph.', 'Their second paragraph.')
+    const chunks = threeWayMerge(base, ours, theirs)
+
+    assert.strictEqual(hasConflicts(chunks), true)
+    assert.deepStrictEqual(chunks.filter(chunk => chunk.type === 'conflict'), [{
+      type: 'conflict',
+      base: ['Second paragraph.'],
+      ours: ['Our second paragraph.'],
+      theirs: ['Their second paragraph.']
+    }])
+
+    assert.strictEqual(applyMergeChoices(chunks, ['ours']), ours)
+    assert.strictEqual(applyMergeChoices(chunks, ['theirs']), theirs)
+    assert.strictEqual(
+      applyMergeChoices(chunks, ['both']),
+      base.replace('Second paragraph.', 'Our second paragraph.\nTheir second paragraph.')
+    )
+    assert.throws(() => applyMergeChoices(chunks, []))
+  })
+
+  it('should treat changes to adjacent lines as a conflict', function () {
+    const ours = base.replace('First paragraph.\n', 'First paragraph.\nOur line')
+    const theirs = base.replace('\nSecond paragraph.', 'Their line\nSecond paragraph.')
+    assert.strictEqual(hasConflicts(threeWayMerge(base, ours, theirs)), true)
+  })
+})